@@ -0,0 +1,180 @@
+/**
+ * PURPOSE: Test suite for the AuthenticationAgent login flow
+ *
+ * REASONING:
+ * - Covers successful login and every documented authentication error
+ * - Uses the shared axios mock so no request ever leaves the process
+ * - Verifies transport failures surface as typed system errors
+ */
+
+import { describe, test, expect, beforeEach } from 'vitest';
+import { AxiosError, type AxiosInstance, type InternalAxiosRequestConfig } from 'axios';
+import { AuthenticationAgent } from '../auth';
+import { EkuatiaApiService } from '../../services/api';
+import { AuthenticationError, SystemError, TimeoutError } from '../../types/errors';
+import { createMockAxios, createMockHttpResponse } from '../../utils/test-helpers';
+import {
+  MOCK_CREDENTIALS,
+  MOCK_LOGIN_RESPONSE,
+  MOCK_ERROR_APPROVAL_NOT_FOUND,
+  MOCK_ERROR_INVALID_CREDENTIALS,
+  MOCK_ERROR_RUC_INACTIVE,
+} from '@tests/mocks/ekuatia';
+
+const createAxiosError = (status: number | undefined, data?: unknown, code?: string) => {
+  const config = { headers: {} } as InternalAxiosRequestConfig;
+  const response =
+    status === undefined ? undefined : { status, statusText: 'Error', data, headers: {}, config };
+  return new AxiosError('Request failed', code, config, undefined, response);
+};
+
+describe('AuthenticationAgent', () => {
+  let mockAxios: ReturnType<typeof createMockAxios>;
+  let agent: AuthenticationAgent;
+
+  beforeEach(() => {
+    mockAxios = createMockAxios();
+    agent = new AuthenticationAgent(
+      new EkuatiaApiService({
+        baseUrl: 'https://ekuatia.test/ekuatiai/',
+        timeoutMs: 5000,
+        httpClient: mockAxios as unknown as AxiosInstance,
+      })
+    );
+  });
+
+  describe('Happy Path', () => {
+    test('should post credentials to /login and return the login response', async () => {
+      mockAxios.request.mockResolvedValue(createMockHttpResponse(MOCK_LOGIN_RESPONSE));
+
+      const result = await agent.login(MOCK_CREDENTIALS);
+
+      expect(result.session_token).toBe(MOCK_LOGIN_RESPONSE.data.session_token);
+      expect(result.profile.ruc_status).toBe('Activo');
+      expect(result.establishment_data.city).toBe('Asunción (distrito)');
+      expect(mockAxios.request).toHaveBeenCalledWith(
+        expect.objectContaining({
+          method: 'POST',
+          url: '/login',
+          baseURL: 'https://ekuatia.test/ekuatiai/',
+          data: MOCK_CREDENTIALS,
+          timeout: 5000,
+        })
+      );
+    });
+  });
+
+  describe('Error Scenarios', () => {
+    test.each([
+      ['INVALID_CREDENTIALS', MOCK_ERROR_INVALID_CREDENTIALS],
+      ['APPROVAL_NOT_FOUND', MOCK_ERROR_APPROVAL_NOT_FOUND],
+      ['RUC_INACTIVE', MOCK_ERROR_RUC_INACTIVE],
+    ])('should map %s error body to AuthenticationError', async (code, body) => {
+      mockAxios.request.mockResolvedValue(createMockHttpResponse(body));
+
+      const error = await agent.login(MOCK_CREDENTIALS).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(AuthenticationError);
+      expect((error as AuthenticationError).code).toBe(code);
+      expect((error as AuthenticationError).context?.ruc).toBe(MOCK_CREDENTIALS.username);
+    });
+
+    test('should map error bodies returned with an HTTP error status', async () => {
+      mockAxios.request.mockRejectedValue(createAxiosError(403, MOCK_ERROR_APPROVAL_NOT_FOUND));
+
+      await expect(agent.login(MOCK_CREDENTIALS)).rejects.toMatchObject({
+        code: 'APPROVAL_NOT_FOUND',
+      });
+    });
+
+    test('should map legacy NOT_APPROVED status to APPROVAL_NOT_FOUND', async () => {
+      mockAxios.request.mockResolvedValue(
+        createMockHttpResponse({
+          success: false,
+          error: { ...MOCK_ERROR_APPROVAL_NOT_FOUND.error, code: 'NOT_APPROVED' },
+          timestamp: '2026-01-27T01:30:00Z',
+        })
+      );
+
+      await expect(agent.login(MOCK_CREDENTIALS)).rejects.toMatchObject({
+        code: 'APPROVAL_NOT_FOUND',
+      });
+    });
+
+    test('should reject a profile whose RUC is not Activo', async () => {
+      mockAxios.request.mockResolvedValue(
+        createMockHttpResponse({
+          ...MOCK_LOGIN_RESPONSE,
+          data: {
+            ...MOCK_LOGIN_RESPONSE.data,
+            profile: { ...MOCK_LOGIN_RESPONSE.data.profile, ruc_status: 'Suspendido' },
+          },
+        })
+      );
+
+      const error = await agent.login(MOCK_CREDENTIALS).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(AuthenticationError);
+      expect((error as AuthenticationError).code).toBe('RUC_INACTIVE');
+      expect((error as AuthenticationError).message).toContain('Suspendido');
+    });
+
+    test('should treat a bare 401 as invalid credentials', async () => {
+      mockAxios.request.mockRejectedValue(createAxiosError(401));
+
+      await expect(agent.login(MOCK_CREDENTIALS)).rejects.toMatchObject({
+        code: 'INVALID_CREDENTIALS',
+      });
+    });
+
+    test('should surface timeouts as TimeoutError', async () => {
+      mockAxios.request.mockRejectedValue(createAxiosError(undefined, undefined, 'ECONNABORTED'));
+
+      await expect(agent.login(MOCK_CREDENTIALS)).rejects.toBeInstanceOf(TimeoutError);
+    });
+
+    test('should surface server failures as SystemError', async () => {
+      mockAxios.request.mockRejectedValue(createAxiosError(503, 'Service Unavailable'));
+
+      const error = await agent.login(MOCK_CREDENTIALS).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(SystemError);
+      expect((error as SystemError).context?.statusCode).toBe('503');
+    });
+  });
+
+  describe('Edge Cases', () => {
+    test('should reject empty credentials without calling the API', async () => {
+      await expect(agent.login({ ...MOCK_CREDENTIALS, password: '' })).rejects.toMatchObject({
+        code: 'INVALID_CREDENTIALS',
+      });
+      expect(mockAxios.request).not.toHaveBeenCalled();
+    });
+
+    test('should reject a username that includes the check digit', async () => {
+      const error = await agent
+        .login({ ...MOCK_CREDENTIALS, username: '5452-6' })
+        .catch((e: unknown) => e);
+
+      expect((error as AuthenticationError).code).toBe('INVALID_CREDENTIALS');
+      expect((error as AuthenticationError).message).toContain('sin dígito verificador');
+      expect(mockAxios.request).not.toHaveBeenCalled();
+    });
+
+    test('should reject a profile whose RUC check digit does not match', async () => {
+      mockAxios.request.mockResolvedValue(
+        createMockHttpResponse({
+          ...MOCK_LOGIN_RESPONSE,
+          data: {
+            ...MOCK_LOGIN_RESPONSE.data,
+            profile: { ...MOCK_LOGIN_RESPONSE.data.profile, ruc_with_dv: '5452-1' },
+          },
+        })
+      );
+
+      await expect(agent.login(MOCK_CREDENTIALS)).rejects.toMatchObject({
+        code: 'SYSTEM_ERROR',
+      });
+    });
+  });
+});
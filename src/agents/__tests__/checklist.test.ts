@@ -0,0 +1,157 @@
+/**
+ * PURPOSE: Test suite for the pre-invoice validation checklist
+ *
+ * REASONING:
+ * - Every failing check must be reported together, each with its InvoiceErrorCode
+ * - Team rules run next to the guide's rules and can replace them by id
+ */
+
+import { describe, test, expect } from 'vitest';
+import { InvoiceChecklist, type ChecklistRule } from '../checklist';
+import { timbradoWindowFromConfig } from '../timbrado';
+import { Logger } from '../../services/logger';
+import type { ProfileData } from '../../types/ekuatia';
+import {
+  createMockEkuatiaConfig,
+  createMockInvoiceData,
+  createMockInvoiceItem,
+} from '../../utils/test-helpers';
+import { MOCK_PROFILE } from '@tests/mocks/ekuatia';
+
+const silent = new Logger({ level: 'error', includeTimestamp: false }, { sinks: [] });
+const config = createMockEkuatiaConfig('BASICA');
+const profile: ProfileData = MOCK_PROFILE;
+
+const checklist = (rules?: ChecklistRule[]) =>
+  new InvoiceChecklist({
+    logger: silent,
+    now: () => new Date('2026-01-26T15:00:00Z'),
+    ...(rules ? { rules } : {}),
+  });
+
+describe('InvoiceChecklist', () => {
+  test('should pass a complete invoice', () => {
+    const result = checklist().run({
+      invoice: createMockInvoiceData(),
+      config,
+      profile,
+      approvedDocumentTypes: ['FACTURA ELECTRONICA'],
+      timbrado: timbradoWindowFromConfig('5452', config, 730),
+    });
+
+    expect(result).toEqual({ isValid: true, errors: {}, errorCodes: {} });
+  });
+
+  test('should report every failing check with its error code', () => {
+    const result = checklist().run({
+      invoice: createMockInvoiceData({
+        fecha: '27/01/2026',
+        receptor_ruc: '12AB',
+        punto_expedicion: 2,
+        items: [createMockInvoiceItem({ descripcion: ' ', precio_unitario: 0 })],
+      }),
+      config,
+      profile: { ...profile, ruc_status: 'Suspendido', csc: 'CSC_NUEVO' },
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errorCodes).toEqual({
+      'profile.ruc_status': ['ISSUER_NOT_ENABLED'],
+      'issuer_data.codigo_seguridad_contribuyente': ['CSC_MISMATCH'],
+      receptor_ruc: ['INVALID_RUC'],
+      'items.0.descripcion': ['ITEMS_INCOMPLETOS'],
+      'items.0.precio_unitario': ['ITEMS_INCOMPLETOS'],
+      'items.0.monto_total': ['MONTO_INCONSISTENTE'],
+      'resumen.subtotal': ['MONTO_INCONSISTENTE'],
+      'resumen.total_general': ['MONTO_INCONSISTENTE'],
+      fecha: ['FECHA_INVALIDA'],
+      punto_expedicion: ['ISSUER_DATA_CONFLICT'],
+    });
+    expect(result.errors['fecha']).toEqual(['La fecha es posterior a hoy']);
+  });
+
+  test('should treat a missing quantity or price as an incomplete item, not a negative amount', () => {
+    const result = checklist().run({
+      invoice: createMockInvoiceData({
+        items: [
+          {
+            codigo_producto: 'A',
+            descripcion: 'Servicio',
+            cantidad: 0,
+            precio_unitario: 1000,
+            tasa_iva: 'EXENTO',
+          },
+          {
+            codigo_producto: 'B',
+            descripcion: 'Servicio',
+            cantidad: 1,
+            precio_unitario: -1000,
+            tasa_iva: 'EXENTO',
+          },
+        ],
+        resumen: undefined,
+      }),
+      config,
+    });
+
+    expect(result.errorCodes).toEqual({
+      'items.0.cantidad': ['ITEMS_INCOMPLETOS'],
+      'items.1.precio_unitario': ['MONTO_NEGATIVO'],
+    });
+  });
+
+  test('should check document types and the timbrado window only when they are given', () => {
+    const invoice = createMockInvoiceData({ tipo_documento: 'NOTA_DEBITO' });
+
+    expect(checklist().run({ invoice, config }).isValid).toBe(true);
+    expect(
+      checklist().run({
+        invoice,
+        config,
+        approvedDocumentTypes: ['FACTURA ELECTRONICA', 'NOTA_CREDITO'],
+        timbrado: timbradoWindowFromConfig('5452', config, 365),
+      }).errorCodes
+    ).toEqual({ tipo_documento: ['DOCUMENT_TYPE_NOT_ALLOWED'], fecha: ['TIMBRADO_EXPIRED'] });
+  });
+
+  test('should carry DNCP failures from the configuration groups', () => {
+    const result = checklist().run({
+      invoice: createMockInvoiceData(),
+      config: createMockEkuatiaConfig('AVANZADA'),
+    });
+
+    expect(Object.values(result.errorCodes ?? {}).flat()).toEqual(['DNCP_DATA_REQUIRED']);
+  });
+
+  test('should run registered team rules and replace rules by id', () => {
+    const runner = checklist()
+      .register({
+        id: 'max_items',
+        section: 'business_rules',
+        description: 'Máximo un ítem por factura',
+        check: ({ invoice }) =>
+          invoice.items.length > 1
+            ? [{ field: 'items', message: 'Demasiados ítems', code: 'ITEMS_INCOMPLETOS' }]
+            : [],
+      })
+      .register({
+        id: 'dates_valid',
+        section: 'invoice_data',
+        description: 'Fechas futuras permitidas',
+        check: () => [],
+      });
+    const item = createMockInvoiceItem();
+
+    const result = runner.run({
+      invoice: createMockInvoiceData({
+        fecha: '30/01/2026',
+        items: [item, item],
+        resumen: undefined,
+      }),
+      config,
+    });
+
+    expect(result.errors).toEqual({ items: ['Demasiados ítems'] });
+    expect(runner.getRules().map((rule) => rule.id)).toContain('max_items');
+  });
+});
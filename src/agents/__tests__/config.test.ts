@@ -0,0 +1,331 @@
+/**
+ * PURPOSE: Test suite for the ConfigurationAgent one-time setup pipeline
+ *
+ * REASONING:
+ * - Routes the mock axios client by URL so each step answers like Ekuatia would
+ * - A pass-through session stands in for SessionManager; token renewal is tested elsewhere
+ * - Verifies nothing is saved when the single-establishment constraint is violated
+ */
+
+import { describe, test, expect, beforeEach } from 'vitest';
+import type { AxiosInstance, AxiosRequestConfig } from 'axios';
+import {
+  ConfigurationAgent,
+  configurationCacheKey,
+  createConfigurationCache,
+  type ConfigurationChangeRequest,
+} from '../config';
+import { EkuatiaApiService } from '../../services/api';
+import type { SessionToken } from '../../types/common';
+import type { ConfigurationFormResponse, ProfileResponse } from '../../types/ekuatia';
+import { ConfigurationError } from '../../types/errors';
+import { createLogoAsset } from '../../utils/logo';
+import { parseRucWithoutDV } from '../../utils/ruc';
+import {
+  createMockAxios,
+  createMockEkuatiaConfig,
+  createMockHttpResponse,
+} from '../../utils/test-helpers';
+import {
+  MOCK_ERROR_MULTIPLE_ESTABLISHMENTS,
+  MOCK_ESTABLISHMENT,
+  MOCK_PROFILE,
+} from '@tests/mocks/ekuatia';
+
+const RUC = (() => {
+  const parsed = parseRucWithoutDV('5452');
+  if (!parsed.success) {
+    throw new Error(parsed.error);
+  }
+  return parsed.data;
+})();
+
+const passThroughSession = {
+  execute: <T>(request: (token: SessionToken) => Promise<T>) => request('token' as SessionToken),
+};
+
+const pngLogo = (width: number): string => {
+  const header = Buffer.alloc(33);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header);
+  header.write('IHDR', 12, 'ascii');
+  header.writeUInt32BE(width, 16);
+  header.writeUInt32BE(64, 20);
+  return createLogoAsset(header).dataUri;
+};
+
+const ok = <T>(data: T) => createMockHttpResponse({ success: true, data });
+
+describe('ConfigurationAgent', () => {
+  let mockAxios: ReturnType<typeof createMockAxios>;
+  let agent: ConfigurationAgent;
+  let profile: ProfileResponse;
+  let form: ConfigurationFormResponse;
+
+  const calledUrls = () =>
+    mockAxios.request.mock.calls.map(([config]) => (config as AxiosRequestConfig).url);
+
+  beforeEach(() => {
+    profile = { profile: MOCK_PROFILE, establishment_data: MOCK_ESTABLISHMENT };
+    form = { available_modalities: ['BASICA', 'AVANZADA'], configuration_required: true };
+
+    mockAxios = createMockAxios();
+    mockAxios.request.mockImplementation((config: AxiosRequestConfig) => {
+      switch (config.url) {
+        case '/perfil':
+          return Promise.resolve(ok(profile));
+        case '/herramientas':
+          return Promise.resolve(
+            ok({ available_tools: ['Configurar Datos Facturador Electrónico'] })
+          );
+        case '/configuracion/formulario':
+          return Promise.resolve(ok(form));
+        case '/configuracion/guardar':
+          return Promise.resolve(ok({ configuration_id: 'CFG-001', success_status: 'SUCCESS' }));
+        default:
+          return Promise.reject(new Error(`Unexpected URL ${config.url}`));
+      }
+    });
+
+    agent = new ConfigurationAgent(
+      passThroughSession,
+      new EkuatiaApiService({
+        baseUrl: 'https://ekuatia.test/ekuatiai/',
+        httpClient: mockAxios as unknown as AxiosInstance,
+      }),
+      { cache: createConfigurationCache(undefined, null) }
+    );
+  });
+
+  describe('Happy Path', () => {
+    test('should run steps 2.1-2.5 and save issuer data derived from the profile', async () => {
+      const result = await agent.ensureConfigured(RUC);
+
+      expect(result).toEqual({
+        configurationId: 'CFG-001',
+        config: createMockEkuatiaConfig('BASICA'),
+        fromCache: false,
+        completedSteps: ['2.1', '2.2', '2.3', '2.4', '2.5'],
+      });
+      expect(calledUrls()).toEqual([
+        '/perfil',
+        '/herramientas',
+        '/configuracion/formulario',
+        '/configuracion/guardar',
+      ]);
+    });
+
+    test('should skip every step on a cache hit', async () => {
+      await agent.ensureConfigured(RUC);
+      mockAxios.request.mockClear();
+
+      const result = await agent.ensureConfigured(RUC);
+
+      expect(result.fromCache).toBe(true);
+      expect(result.completedSteps).toEqual([]);
+      expect(result.configurationId).toBe('CFG-001');
+      expect(mockAxios.request).not.toHaveBeenCalled();
+      expect(await agent.getCachedConfiguration(RUC)).toMatchObject({
+        configuration_id: 'CFG-001',
+      });
+    });
+
+    test('should propose a different logo on a cache hit and ignore the same one', async () => {
+      const requests: ConfigurationChangeRequest[] = [];
+      const withFlow = new ConfigurationAgent(
+        passThroughSession,
+        new EkuatiaApiService({
+          baseUrl: 'https://ekuatia.test/ekuatiai/',
+          httpClient: mockAxios as unknown as AxiosInstance,
+        }),
+        {
+          cache: createConfigurationCache(undefined, null),
+          onChange: (request) => Promise.resolve(requests.push(request)),
+        }
+      );
+      await withFlow.ensureConfigured(RUC, { logo: pngLogo(128) });
+
+      await withFlow.ensureConfigured(RUC, { logo: pngLogo(128) });
+      expect(requests).toEqual([]);
+
+      await withFlow.ensureConfigured(RUC, { logo: pngLogo(256) });
+      expect(requests).toEqual([
+        expect.objectContaining({ ruc: RUC, changes: { logo: pngLogo(256) } }),
+      ]);
+    });
+
+    test('should include grupos_utilizables for AVANZADA', async () => {
+      const grupos = { informaciones_compras_publicas: true, sector_supermercados: false };
+
+      const advanced = await agent.ensureConfigured(RUC, {
+        modality: 'AVANZADA',
+        grupos_utilizables: grupos,
+      });
+
+      expect(advanced.config.grupos_utilizables).toEqual(grupos);
+    });
+
+    test('should configure the recommended modality when only business facts are given', async () => {
+      const result = await agent.ensureConfigured(RUC, {
+        business: { hasPublicProcurementContracts: true },
+      });
+
+      expect(result.config.modality).toBe('AVANZADA');
+      expect(result.config.grupos_utilizables).toEqual({ informaciones_compras_publicas: true });
+    });
+
+    test('should adopt a configuration already saved in Ekuatia without saving again', async () => {
+      form = {
+        available_modalities: ['BASICA'],
+        configuration_required: false,
+        current_configuration: createMockEkuatiaConfig('BASICA'),
+        configuration_id: 'CFG-EXISTING',
+      };
+
+      const result = await agent.ensureConfigured(RUC);
+
+      expect(result.configurationId).toBe('CFG-EXISTING');
+      expect(result.completedSteps).toEqual(['2.1', '2.2']);
+      expect(calledUrls()).not.toContain('/configuracion/guardar');
+    });
+  });
+
+  describe('Error Scenarios', () => {
+    test('should reject multiple establishments before anything is saved', async () => {
+      profile = {
+        ...profile,
+        establishments: [MOCK_ESTABLISHMENT, { ...MOCK_ESTABLISHMENT, city: 'Luque' }],
+      };
+
+      const error = await agent.ensureConfigured(RUC).catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(ConfigurationError);
+      expect(error).toMatchObject({
+        code: MOCK_ERROR_MULTIPLE_ESTABLISHMENTS.error.code,
+        context: { ruc: RUC, invalidFields: ['establishments'] },
+      });
+      expect(calledUrls()).toEqual(['/perfil']);
+      expect(await agent.getCachedConfiguration(RUC)).toBeNull();
+    });
+
+    test('should reject a modality the form does not offer', async () => {
+      form = { available_modalities: ['BASICA'], configuration_required: true };
+
+      await expect(agent.ensureConfigured(RUC, { modality: 'AVANZADA' })).rejects.toMatchObject({
+        code: 'MODALITY_UNAVAILABLE',
+      });
+      expect(calledUrls()).not.toContain('/configuracion/guardar');
+    });
+
+    test('should reject grupos_utilizables without AVANZADA', async () => {
+      await expect(
+        agent.ensureConfigured(RUC, {
+          grupos_utilizables: { informaciones_compras_publicas: true },
+        })
+      ).rejects.toMatchObject({ code: 'GROUPS_REQUIRE_AVANZADA' });
+      expect(calledUrls()).not.toContain('/configuracion/guardar');
+    });
+
+    test('should reject the supermarket sector group', async () => {
+      await expect(
+        agent.ensureConfigured(RUC, {
+          modality: 'AVANZADA',
+          grupos_utilizables: { sector_supermercados: true },
+        })
+      ).rejects.toMatchObject({
+        code: 'GROUP_UNAVAILABLE',
+        context: { invalidFields: ['grupos_utilizables.sector_supermercados'] },
+      });
+    });
+
+    test('should reject a logo that is not a PNG or JPEG data URI', async () => {
+      await expect(agent.ensureConfigured(RUC, { logo: 'logo.png' })).rejects.toMatchObject({
+        code: 'INVALID_LOGO',
+      });
+      expect(calledUrls()).not.toContain('/configuracion/guardar');
+    });
+
+    test('should reject a requested modality that differs from the one saved in Ekuatia', async () => {
+      form = {
+        available_modalities: ['BASICA', 'AVANZADA'],
+        configuration_required: false,
+        current_configuration: createMockEkuatiaConfig('BASICA'),
+        configuration_id: 'CFG-EXISTING',
+      };
+
+      await expect(
+        agent.ensureConfigured(RUC, {
+          modality: 'AVANZADA',
+          grupos_utilizables: { informaciones_compras_publicas: true },
+        })
+      ).rejects.toMatchObject({
+        code: 'CONFIGURATION_MISMATCH',
+        context: {
+          invalidFields: ['modality', 'grupos_utilizables.informaciones_compras_publicas'],
+        },
+      });
+      expect(await agent.getCachedConfiguration(RUC)).toBeNull();
+    });
+
+    test('should reject a requested modality that differs from the cached one', async () => {
+      await agent.ensureConfigured(RUC);
+
+      await expect(agent.ensureConfigured(RUC, { modality: 'AVANZADA' })).rejects.toMatchObject({
+        code: 'CONFIGURATION_MISMATCH',
+      });
+    });
+
+    test('should reject a profile without CSC', async () => {
+      profile = { ...profile, profile: { ...MOCK_PROFILE, csc: ' ' } };
+
+      await expect(agent.ensureConfigured(RUC)).rejects.toMatchObject({ code: 'CSC_INVALID' });
+    });
+  });
+
+  describe('Cache Management', () => {
+    test('should run the pipeline again after invalidation', async () => {
+      await agent.ensureConfigured(RUC);
+      await agent.invalidate(RUC);
+      mockAxios.request.mockClear();
+
+      const result = await agent.ensureConfigured(RUC);
+
+      expect(result.fromCache).toBe(false);
+      expect(configurationCacheKey(RUC)).toBe('ekuatia_config_5452');
+    });
+
+    test('should refuse a held configuration until the hold is released', async () => {
+      await agent.ensureConfigured(RUC);
+      await agent.holdForDrift(RUC, ['numero_timbrado'], 'drift_check');
+      mockAxios.request.mockClear();
+
+      await expect(agent.ensureConfigured(RUC, { force: true })).rejects.toMatchObject({
+        code: 'CONFIGURATION_DRIFT',
+        context: { configStep: 'drift_check', invalidFields: ['numero_timbrado'] },
+      });
+      expect(mockAxios.request).not.toHaveBeenCalled();
+
+      await agent.releaseDriftHold(RUC);
+      expect((await agent.ensureConfigured(RUC)).fromCache).toBe(true);
+    });
+
+    test('should rebuild and save the issuer data from a live profile', async () => {
+      const { config } = await agent.ensureConfigured(RUC, { modality: 'AVANZADA' });
+      await agent.holdForDrift(RUC, ['numero_timbrado'], 'drift_refresh');
+      mockAxios.request.mockClear();
+      const live = {
+        profile: { ...MOCK_PROFILE, numero_timbrado: '99999999' },
+        establishment_data: MOCK_ESTABLISHMENT,
+      };
+
+      const result = await agent.rebuildFromProfile(RUC, live, config);
+
+      expect(result.completedSteps).toEqual(['2.4', '2.5']);
+      expect(result.config).toEqual({
+        ...config,
+        issuer_data: { ...config.issuer_data, numero_timbrado: '99999999' },
+      });
+      expect(calledUrls()).toEqual(['/configuracion/guardar']);
+      expect((await agent.getCachedConfiguration(RUC))?.drift_hold).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * PURPOSE: Test suite for the primary document type analyser
+ *
+ * REASONING:
+ * - Legacy labels from the guide's sketch must count towards the canonical type
+ * - Thresholds decide between a recommendation, the fallback and "not enough history"
+ * - Proposals go to the confirmation handler and nothing is applied directly
+ */
+
+import { describe, test, expect, vi } from 'vitest';
+import {
+  DocumentTypeAnalyzer,
+  analyzeDocumentTypes,
+  normalizeDocumentType,
+  type IssuedDocumentRecord,
+} from '../document-type';
+import { Logger } from '../../services/logger';
+import type { RucWithoutDV } from '../../types/common';
+import { createMockEkuatiaConfig } from '../../utils/test-helpers';
+
+const RUC = '5452' as RucWithoutDV;
+
+const records = (counts: Record<string, number>): IssuedDocumentRecord[] =>
+  Object.entries(counts).flatMap(([tipo_documento, count]) =>
+    Array.from({ length: count }, (_, index) => ({
+      documento_id: `${tipo_documento}-${index}`,
+      tipo_documento,
+    }))
+  );
+
+describe('normalizeDocumentType', () => {
+  test('should accept canonical and legacy spellings', () => {
+    expect(normalizeDocumentType('FACTURA ELECTRONICA')).toBe('FACTURA ELECTRONICA');
+    expect(normalizeDocumentType('FACTURA_ELECTRONICA')).toBe('FACTURA ELECTRONICA');
+    expect(normalizeDocumentType('nota credito')).toBe('NOTA_CREDITO');
+    expect(normalizeDocumentType('REMISION')).toBeNull();
+  });
+});
+
+describe('analyzeDocumentTypes', () => {
+  test('should recommend a type above its share threshold', () => {
+    const analysis = analyzeDocumentTypes(
+      records({ FACTURA_ELECTRONICA: 10, 'FACTURA ELECTRONICA': 8, NOTA_CREDITO: 2 })
+    );
+
+    expect(analysis.total).toBe(20);
+    expect(analysis.shares[0]).toEqual({
+      tipo_documento: 'FACTURA ELECTRONICA',
+      count: 18,
+      share: 0.9,
+    });
+    expect(analysis.recommended).toBe('FACTURA ELECTRONICA');
+  });
+
+  test('should recommend credit notes above 40%', () => {
+    const analysis = analyzeDocumentTypes(records({ 'FACTURA ELECTRONICA': 11, NOTA_CREDITO: 9 }));
+
+    expect(analysis.recommended).toBe('NOTA_CREDITO');
+    expect(analysis.reason).toContain('45%');
+  });
+
+  test('should fall back when no share clears its threshold', () => {
+    const analysis = analyzeDocumentTypes(
+      records({ 'FACTURA ELECTRONICA': 10, NOTA_CREDITO: 6, NOTA_DEBITO: 6 })
+    );
+
+    expect(analysis.recommended).toBe('FACTURA ELECTRONICA');
+    expect(analysis.reason).toContain('por defecto');
+  });
+
+  test('should not recommend anything from a small history', () => {
+    const analysis = analyzeDocumentTypes(records({ NOTA_CREDITO: 5, OTRO: 30 }));
+
+    expect(analysis.recommended).toBeNull();
+    expect(analysis.unrecognized).toBe(30);
+  });
+});
+
+describe('DocumentTypeAnalyzer', () => {
+  const logger = new Logger({ level: 'error', includeTimestamp: false }, { sinks: [] });
+
+  test('should hand a differing recommendation to the confirmation flow', async () => {
+    const requestChange = vi.fn().mockResolvedValue(undefined);
+    const analyzer = new DocumentTypeAnalyzer(
+      { listIssuedDocuments: () => Promise.resolve(records({ NOTA_CREDITO: 6, NOTA_DEBITO: 4 })) },
+      requestChange,
+      { thresholds: { minSampleSize: 10, minShare: { NOTA_CREDITO: 0.5 } }, logger }
+    );
+
+    const request = await analyzer.propose(RUC, createMockEkuatiaConfig('BASICA'));
+
+    expect(request).toMatchObject({
+      ruc: '5452',
+      changes: { issuer_data: { tipo_documento: 'NOTA_CREDITO' } },
+    });
+    expect(requestChange).toHaveBeenCalledWith(request);
+  });
+
+  test('should propose nothing when the recommendation is already configured', async () => {
+    const requestChange = vi.fn();
+    const analyzer = new DocumentTypeAnalyzer(
+      { listIssuedDocuments: () => Promise.resolve(records({ 'FACTURA ELECTRONICA': 25 })) },
+      requestChange,
+      { logger }
+    );
+
+    expect(await analyzer.propose(RUC, createMockEkuatiaConfig('BASICA'))).toBeNull();
+    expect(requestChange).not.toHaveBeenCalled();
+  });
+});
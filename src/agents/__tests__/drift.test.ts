@@ -0,0 +1,299 @@
+/**
+ * PURPOSE: Test suite for configuration drift detection
+ *
+ * REASONING:
+ * - Pure comparison is checked field by field against the mock profile
+ * - The checker runs with a stubbed ConfigurationAgent so each policy branch is isolated
+ * - CSC values must never leak into the drift report
+ */
+
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+import type { AxiosInstance } from 'axios';
+import { ConfigurationDriftChecker, detectConfigurationDrift } from '../drift';
+import { ConfigurationAgent, createConfigurationCache, type StoredConfiguration } from '../config';
+import { EkuatiaApiService } from '../../services/api';
+import {
+  ALL_TRIGGERS,
+  CacheEventBus,
+  bindCacheInvalidation,
+  type CacheInvalidationEvent,
+} from '../../services/events';
+import { Logger } from '../../services/logger';
+import type { RucWithoutDV, SessionToken } from '../../types/common';
+import type { ProfileResponse } from '../../types/ekuatia';
+import { ConfigurationError } from '../../types/errors';
+import {
+  createMockAxios,
+  createMockEkuatiaConfig,
+  createMockHttpResponse,
+} from '../../utils/test-helpers';
+import { MOCK_ESTABLISHMENT, MOCK_PROFILE } from '@tests/mocks/ekuatia';
+
+const RUC = '5452' as RucWithoutDV;
+
+const stored: StoredConfiguration = {
+  configuration_id: 'CFG-001',
+  config: createMockEkuatiaConfig('BASICA'),
+  saved_timestamp: '2026-01-25T15:51:22.869Z',
+  establishment_data: MOCK_ESTABLISHMENT,
+};
+
+const liveProfile = (overrides: Partial<ProfileResponse['profile']> = {}): ProfileResponse => ({
+  profile: { ...MOCK_PROFILE, ...overrides },
+  establishment_data: MOCK_ESTABLISHMENT,
+});
+
+describe('detectConfigurationDrift', () => {
+  test('should report no drift when cache and profile agree', () => {
+    const report = detectConfigurationDrift(RUC, stored, liveProfile());
+
+    expect(report.drifts).toEqual([]);
+    expect(report.action).toBe('none');
+  });
+
+  test('should list every drifted field with its policy action', () => {
+    const live = {
+      ...liveProfile({ numero_timbrado: '99999999', actividad_economica: 'Comercio' }),
+      establishment_data: { ...MOCK_ESTABLISHMENT, address: 'Calle Nueva 456' },
+    };
+
+    const report = detectConfigurationDrift(RUC, stored, live);
+
+    expect(report.drifts).toEqual([
+      {
+        field: 'numero_timbrado',
+        cachedValue: '12561412',
+        liveValue: '99999999',
+        action: 'refresh',
+      },
+      expect.objectContaining({ field: 'actividad_economica', action: 'warn' }),
+      expect.objectContaining({ field: 'establishment_data', action: 'refresh' }),
+    ]);
+    expect(report.action).toBe('refresh');
+  });
+
+  test('should report CSC drift without either value', () => {
+    const report = detectConfigurationDrift(RUC, stored, liveProfile({ csc: 'NEW_CSC_VALUE' }));
+
+    expect(report.drifts).toEqual([{ field: 'codigo_seguridad_contribuyente', action: 'refresh' }]);
+    expect(JSON.stringify(report)).not.toContain('NEW_CSC_VALUE');
+  });
+
+  test('should skip the address check when no baseline was recorded', () => {
+    const { establishment_data: _baseline, ...withoutBaseline } = stored;
+    const live = {
+      ...liveProfile(),
+      establishment_data: { ...MOCK_ESTABLISHMENT, city: 'Luque' },
+    };
+
+    expect(detectConfigurationDrift(RUC, withoutBaseline, live).drifts).toEqual([]);
+  });
+});
+
+describe('ConfigurationDriftChecker', () => {
+  let mockAxios: ReturnType<typeof createMockAxios>;
+  let configAgent: {
+    getCachedConfiguration: ReturnType<typeof vi.fn>;
+    rebuildFromProfile: ReturnType<typeof vi.fn>;
+    holdForDrift: ReturnType<typeof vi.fn>;
+    releaseDriftHold: ReturnType<typeof vi.fn>;
+  };
+  const silent = new Logger({ level: 'error', includeTimestamp: false }, { sinks: [] });
+
+  const session = {
+    execute: <T>(request: (token: SessionToken) => Promise<T>) => request('token' as SessionToken),
+  };
+
+  const createChecker = (policy = {}, events?: CacheEventBus) =>
+    new ConfigurationDriftChecker(
+      session,
+      configAgent,
+      new EkuatiaApiService({ httpClient: mockAxios as unknown as AxiosInstance }),
+      { policy, events, logger: silent }
+    );
+
+  const respondWith = (profile: ProfileResponse) => {
+    mockAxios.request.mockResolvedValue(createMockHttpResponse({ success: true, data: profile }));
+  };
+
+  const refreshedWith = (numero_timbrado: string) => {
+    const config = createMockEkuatiaConfig('BASICA');
+    return {
+      configurationId: 'CFG-002',
+      config: { ...config, issuer_data: { ...config.issuer_data, numero_timbrado } },
+      fromCache: false,
+      completedSteps: ['2.1', '2.2'],
+    };
+  };
+
+  beforeEach(() => {
+    mockAxios = createMockAxios();
+    configAgent = {
+      getCachedConfiguration: vi.fn().mockResolvedValue(stored),
+      rebuildFromProfile: vi.fn().mockResolvedValue(refreshedWith('99999999')),
+      holdForDrift: vi.fn().mockResolvedValue(undefined),
+      releaseDriftHold: vi.fn().mockResolvedValue(undefined),
+    };
+  });
+
+  test('should return the cached configuration when nothing drifted', async () => {
+    respondWith(liveProfile());
+
+    const result = await createChecker().check(RUC);
+
+    expect(result.refreshed).toBe(false);
+    expect(result.configuration?.configurationId).toBe('CFG-001');
+    expect(configAgent.rebuildFromProfile).not.toHaveBeenCalled();
+    expect(configAgent.holdForDrift).not.toHaveBeenCalled();
+  });
+
+  test('should release a hold once the cache matches the live profile again', async () => {
+    configAgent.getCachedConfiguration.mockResolvedValue({
+      ...stored,
+      drift_hold: { fields: ['numero_timbrado'], config_step: 'drift_refresh', held_at: 'x' },
+    });
+    respondWith(liveProfile());
+
+    await createChecker().check(RUC);
+
+    expect(configAgent.releaseDriftHold).toHaveBeenCalledWith(RUC);
+  });
+
+  test('should continue with the cache on warn-only drift', async () => {
+    respondWith(liveProfile({ actividad_economica: 'Comercio' }));
+    const events = new CacheEventBus(silent);
+    const listener = vi.fn();
+    events.subscribe(ALL_TRIGGERS, listener);
+
+    const result = await createChecker({}, events).check(RUC);
+
+    expect(result.report?.action).toBe('warn');
+    expect(result.configuration?.configurationId).toBe('CFG-001');
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test('should rebuild the configuration from the fetched profile on refresh drift', async () => {
+    const live = liveProfile({ numero_timbrado: '99999999' });
+    respondWith(live);
+
+    const result = await createChecker().check(RUC);
+
+    expect(result.refreshed).toBe(true);
+    expect(result.configuration?.configurationId).toBe('CFG-002');
+    expect(configAgent.holdForDrift).toHaveBeenCalledWith(
+      RUC,
+      ['numero_timbrado'],
+      'drift_refresh'
+    );
+    expect(configAgent.rebuildFromProfile).toHaveBeenCalledWith(RUC, live, stored.config);
+    expect(mockAxios.request).toHaveBeenCalledTimes(1);
+  });
+
+  test('should reject a refresh that returns the same stale configuration', async () => {
+    respondWith(liveProfile({ numero_timbrado: '99999999' }));
+    configAgent.rebuildFromProfile.mockResolvedValue(
+      refreshedWith(stored.config.issuer_data.numero_timbrado)
+    );
+
+    await expect(createChecker().check(RUC)).rejects.toMatchObject({
+      code: 'CONFIGURATION_DRIFT',
+      context: { configStep: 'drift_refresh', invalidFields: ['numero_timbrado'] },
+    });
+    expect(configAgent.holdForDrift).toHaveBeenLastCalledWith(
+      RUC,
+      ['numero_timbrado'],
+      'drift_refresh'
+    );
+  });
+
+  test('should publish enforced drifts only after the rebuild', async () => {
+    respondWith(
+      liveProfile({
+        numero_timbrado: '99999999',
+        csc: 'NEW_CSC_VALUE',
+        actividad_economica: 'Comercio',
+      })
+    );
+    const rebuilt = refreshedWith('99999999');
+    rebuilt.config.issuer_data.codigo_seguridad_contribuyente = 'NEW_CSC_VALUE';
+    configAgent.rebuildFromProfile.mockResolvedValue(rebuilt);
+    const events = new CacheEventBus(silent);
+    const published: CacheInvalidationEvent[] = [];
+    events.subscribe(ALL_TRIGGERS, (event) => {
+      expect(configAgent.rebuildFromProfile).toHaveBeenCalled();
+      published.push(event);
+    });
+
+    await createChecker({}, events).check(RUC);
+
+    expect(published).toEqual([
+      expect.objectContaining({
+        trigger: 'timbrado_expiration',
+        field: 'numero_timbrado',
+        currentValue: '99999999',
+        source: 'drift',
+      }),
+      expect.objectContaining({ trigger: 'csc_update', field: 'codigo_seguridad_contribuyente' }),
+    ]);
+    expect(JSON.stringify(published)).not.toContain('NEW_CSC_VALUE');
+  });
+
+  test('should block invoicing with CONFIGURATION_DRIFT on a blocking field', async () => {
+    respondWith(liveProfile({ tipo_contribuyente: 'JURIDICO' }));
+
+    const error = await createChecker()
+      .check(RUC)
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(ConfigurationError);
+    expect(error).toMatchObject({
+      code: 'CONFIGURATION_DRIFT',
+      context: { invalidFields: ['tipo_contribuyente'] },
+    });
+    expect(configAgent.holdForDrift).toHaveBeenCalledWith(
+      RUC,
+      ['tipo_contribuyente'],
+      'drift_check'
+    );
+    expect(configAgent.rebuildFromProfile).not.toHaveBeenCalled();
+  });
+
+  test('should keep a blocked configuration held through cache events and forced runs', async () => {
+    respondWith(liveProfile({ tipo_contribuyente: 'JURIDICO' }));
+    const cache = createConfigurationCache(undefined, null);
+    await cache.set('ekuatia_config_5452', stored);
+    const api = new EkuatiaApiService({ httpClient: mockAxios as unknown as AxiosInstance });
+    const agent = new ConfigurationAgent(session, api, { cache, logger: silent });
+    const events = new CacheEventBus(silent);
+    bindCacheInvalidation(events, cache, undefined, silent);
+    const checker = new ConfigurationDriftChecker(session, agent, api, { events, logger: silent });
+
+    await expect(checker.check(RUC)).rejects.toMatchObject({ code: 'CONFIGURATION_DRIFT' });
+
+    expect((await cache.get('ekuatia_config_5452'))?.drift_hold?.fields).toEqual([
+      'tipo_contribuyente',
+    ]);
+    await expect(agent.ensureConfigured(RUC, { force: true })).rejects.toMatchObject({
+      code: 'CONFIGURATION_DRIFT',
+      context: { configStep: 'drift_check' },
+    });
+    expect(mockAxios.request).toHaveBeenCalledTimes(1);
+  });
+
+  test('should honour per-field policy overrides', async () => {
+    respondWith(liveProfile({ numero_timbrado: '99999999' }));
+
+    await expect(createChecker({ numero_timbrado: 'block' }).check(RUC)).rejects.toMatchObject({
+      code: 'CONFIGURATION_DRIFT',
+    });
+  });
+
+  test('should do nothing when no configuration is cached', async () => {
+    configAgent.getCachedConfiguration.mockResolvedValue(null);
+
+    const result = await createChecker().check(RUC);
+
+    expect(result).toEqual({ report: null, configuration: null, refreshed: false });
+    expect(mockAxios.request).not.toHaveBeenCalled();
+  });
+});
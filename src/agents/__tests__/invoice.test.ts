@@ -0,0 +1,459 @@
+/**
+ * PURPOSE: Test suite for the invoice creation payload builder and InvoiceAgent
+ *
+ * REASONING:
+ * - Issuer fields must come from the configuration, never from the invoice
+ * - The DNCP block must reach the payload only for configurations that enable it
+ * - The agent must stop before /documento/crear when the invoice cannot be issued or was not
+ *   approved for the exact payload
+ * - Retries after a lost response must go through the ledger and never post the invoice twice
+ */
+
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+import { AxiosError, type AxiosInstance, type AxiosRequestConfig } from 'axios';
+import {
+  InvoiceAgent,
+  buildInvoicePayload,
+  invoicePayloadHash,
+  type InvoiceAgentOptions,
+} from '../invoice';
+import { TimbradoTracker } from '../timbrado';
+import { EkuatiaApiService } from '../../services/api';
+import {
+  MemoryConfirmationLog,
+  callbackConfirmationProvider,
+  type ConfirmationProvider,
+} from '../../services/confirmation';
+import { SubmissionLedger, type DocumentSearch } from '../../services/ledger';
+import { Logger } from '../../services/logger';
+import type { RetryConfig, RucWithoutDV, SessionToken } from '../../types/common';
+import { ConfigurationError } from '../../types/errors';
+import {
+  createMockAxios,
+  createMockEkuatiaConfig,
+  createMockHttpResponse,
+  createMockInvoiceData,
+  createMockInvoiceItem,
+} from '../../utils/test-helpers';
+
+const RUC = '5452' as RucWithoutDV;
+
+describe('buildInvoicePayload', () => {
+  test('should merge invoice data with the issuer configuration', () => {
+    const invoice = createMockInvoiceData({ observaciones: 'Pago contado' });
+
+    const payload = buildInvoicePayload(invoice, createMockEkuatiaConfig('BASICA'), RUC);
+
+    expect(payload.metadatos).toEqual({
+      ruc_emisor: '5452',
+      numero_timbrado: '12561412',
+      punto_expedicion: 1,
+      establecimiento: 1,
+      fecha_emision: '25/01/2026',
+      tipo_documento: 'FACTURA ELECTRONICA',
+    });
+    expect(payload.datos_receptor).toEqual({
+      ruc_receptor: '1234567',
+      razon_social_receptor: 'Cliente S.A.',
+      direccion_receptor: '',
+    });
+    expect(payload.observaciones).toBe('Pago contado');
+    expect(payload).not.toHaveProperty('datos_dncp');
+  });
+
+  test('should carry the DNCP block for public-procurement configurations', () => {
+    const dncp = {
+      dncp_reference: '412345',
+      contract_number: 'CD-12/2024',
+      procurement_id: 'LP-12001-24-0000123',
+    };
+
+    const payload = buildInvoicePayload(
+      createMockInvoiceData({ dncp }),
+      createMockEkuatiaConfig('AVANZADA'),
+      RUC
+    );
+
+    expect(payload.datos_dncp).toEqual(dncp);
+  });
+
+  test('should reject establishment or dispatch-point overrides that differ from the configuration', () => {
+    const config = createMockEkuatiaConfig('BASICA');
+
+    expect(() =>
+      buildInvoicePayload(
+        createMockInvoiceData({ establecimiento: 1, punto_expedicion: 1 }),
+        config,
+        RUC
+      )
+    ).not.toThrow();
+    expect(() =>
+      buildInvoicePayload(createMockInvoiceData({ punto_expedicion: 2 }), config, RUC)
+    ).toThrow(
+      expect.objectContaining({
+        code: 'ISSUER_DATA_CONFLICT',
+        context: expect.objectContaining({
+          validationErrors: { punto_expedicion: ['La configuración usa 1, la factura indica 2'] },
+        }),
+      })
+    );
+  });
+
+  test('should normalise the receptor RUC and reject a wrong check digit', () => {
+    const config = createMockEkuatiaConfig('BASICA');
+
+    expect(
+      buildInvoicePayload(createMockInvoiceData({ receptor_ruc: '1234567-9' }), config, RUC)
+        .datos_receptor.ruc_receptor
+    ).toBe('1234567');
+    expect(() =>
+      buildInvoicePayload(createMockInvoiceData({ receptor_ruc: '1234567-1' }), config, RUC)
+    ).toThrow(expect.objectContaining({ code: 'INVALID_RUC' }));
+  });
+
+  test('should derive the summary from the items when it is omitted', () => {
+    const payload = buildInvoicePayload(
+      createMockInvoiceData({ resumen: undefined }),
+      createMockEkuatiaConfig('BASICA'),
+      RUC
+    );
+
+    expect(payload.detalles_factura.resumen).toEqual({
+      subtotal: 500000,
+      total_iva: 0,
+      total_general: 500000,
+    });
+  });
+
+  test('should not post item IVA that does not match its category', () => {
+    expect(() =>
+      buildInvoicePayload(
+        createMockInvoiceData({
+          items: [createMockInvoiceItem({ tasa_iva: 'IVA_10' })],
+          resumen: undefined,
+        }),
+        createMockEkuatiaConfig('BASICA'),
+        RUC
+      )
+    ).toThrow(
+      expect.objectContaining({
+        code: 'MONTO_INCONSISTENTE',
+        context: expect.objectContaining({
+          validationErrors: { 'items.0.monto_iva': ['Se esperaba 45455, se recibió 0'] },
+        }),
+      })
+    );
+  });
+
+  test('should refuse to build a DNCP invoice without its references', () => {
+    expect(() =>
+      buildInvoicePayload(createMockInvoiceData(), createMockEkuatiaConfig('AVANZADA'), RUC)
+    ).toThrow(expect.objectContaining({ code: 'DNCP_DATA_REQUIRED' }));
+  });
+});
+
+describe('InvoiceAgent', () => {
+  const silent = new Logger({ level: 'error', includeTimestamp: false }, { sinks: [] });
+  const passThroughSession = {
+    execute: <T>(request: (token: SessionToken) => Promise<T>) => request('token' as SessionToken),
+  };
+
+  let mockAxios: ReturnType<typeof createMockAxios>;
+  let configAgent: { ensureConfigured: ReturnType<typeof vi.fn> };
+  let api: EkuatiaApiService;
+  const immediateRetry: RetryConfig = {
+    maxAttempts: 3,
+    initialDelayMs: 0,
+    backoffMultiplier: 1,
+    maxDelayMs: 0,
+    retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+  };
+  /** Options keeping every record in memory so tests never write under .ekuatia/ */
+  const inMemory = (options: InvoiceAgentOptions = {}): InvoiceAgentOptions => ({
+    confirmationLog: new MemoryConfirmationLog(),
+    ledger: new SubmissionLedger({ directory: null, logger: silent }),
+    logger: silent,
+    ...options,
+  });
+  const approve: ConfirmationProvider = callbackConfirmationProvider((request) =>
+    Promise.resolve({ approved: true, payloadHash: request.payloadHash, approvedBy: 'ana' })
+  );
+
+  beforeEach(() => {
+    mockAxios = createMockAxios();
+    mockAxios.request.mockImplementation((config: AxiosRequestConfig) =>
+      config.url === '/documento/crear'
+        ? Promise.resolve(
+            createMockHttpResponse({
+              success: true,
+              data: { documento_id: 'DOC-001', cdc: '01800054520010010000001202601251' },
+            })
+          )
+        : Promise.reject(new Error(`Unexpected URL ${config.url}`))
+    );
+    configAgent = {
+      ensureConfigured: vi.fn().mockResolvedValue({
+        configurationId: 'CFG-001',
+        config: createMockEkuatiaConfig('BASICA'),
+        fromCache: true,
+        completedSteps: [],
+      }),
+    };
+    api = new EkuatiaApiService({
+      baseUrl: 'https://ekuatia.test/ekuatiai/',
+      httpClient: mockAxios as unknown as AxiosInstance,
+    });
+  });
+
+  test('should submit the merged payload and return the document id and CDC', async () => {
+    const agent = new InvoiceAgent(passThroughSession, configAgent, approve, api, inMemory());
+
+    const result = await agent.createInvoice(RUC, createMockInvoiceData());
+
+    expect(result).toMatchObject({
+      documentoId: 'DOC-001',
+      cdc: '01800054520010010000001202601251',
+      fechaEmision: '25/01/2026',
+      confirmation: { approvedBy: 'ana', provider: 'callback', accepted: true },
+    });
+    expect(configAgent.ensureConfigured).toHaveBeenCalledWith(RUC);
+    const [request] = mockAxios.request.mock.calls[0] as [AxiosRequestConfig];
+    expect(request.data).toEqual(result.payload);
+  });
+
+  test('should not submit an invoice dated after the timbrado expired', async () => {
+    const timbrado = new TimbradoTracker({
+      validityDays: 365,
+      directory: null,
+      logger: silent,
+    });
+    const agent = new InvoiceAgent(
+      passThroughSession,
+      configAgent,
+      approve,
+      api,
+      inMemory({
+        timbrado,
+      })
+    );
+
+    await expect(
+      agent.createInvoice(RUC, createMockInvoiceData({ fecha: '20/03/2025' }))
+    ).rejects.toMatchObject({ code: 'TIMBRADO_EXPIRED' });
+    expect((await timbrado.getWindow(RUC))?.validUntil).toBe('19/03/2025');
+    expect(mockAxios.request).not.toHaveBeenCalled();
+  });
+
+  test('should return the timbrado warning with the created invoice', async () => {
+    const timbrado = new TimbradoTracker({
+      directory: null,
+      logger: silent,
+      now: () => new Date('2025-03-10T12:00:00Z'),
+    });
+    const agent = new InvoiceAgent(
+      passThroughSession,
+      configAgent,
+      approve,
+      api,
+      inMemory({ timbrado })
+    );
+
+    const result = await agent.createInvoice(RUC, createMockInvoiceData({ fecha: '10/03/2025' }));
+
+    expect(result.timbrado).toMatchObject({
+      state: 'expiring',
+      daysRemaining: 10,
+      window: { validUntil: '19/03/2025' },
+    });
+  });
+
+  test('should not submit while the configuration drifted from Marangatu', async () => {
+    const driftChecker = {
+      check: vi
+        .fn()
+        .mockRejectedValue(new ConfigurationError('Deriva', 'CONFIGURATION_DRIFT', { ruc: RUC })),
+    };
+    const agent = new InvoiceAgent(
+      passThroughSession,
+      configAgent,
+      approve,
+      api,
+      inMemory({ driftChecker })
+    );
+
+    await expect(agent.createInvoice(RUC, createMockInvoiceData())).rejects.toMatchObject({
+      code: 'CONFIGURATION_DRIFT',
+    });
+    expect(driftChecker.check).toHaveBeenCalledWith(RUC);
+    expect(configAgent.ensureConfigured).not.toHaveBeenCalled();
+    expect(mockAxios.request).not.toHaveBeenCalled();
+  });
+
+  test('should not submit an invoice overriding the dispatch point', async () => {
+    const agent = new InvoiceAgent(passThroughSession, configAgent, approve, api, inMemory());
+
+    await expect(
+      agent.createInvoice(RUC, createMockInvoiceData({ punto_expedicion: 3 }))
+    ).rejects.toMatchObject({ code: 'ISSUER_DATA_CONFLICT' });
+    expect(mockAxios.request).not.toHaveBeenCalled();
+  });
+
+  test('should not submit a rejected invoice and should record the decision', async () => {
+    const log = new MemoryConfirmationLog();
+    const reject = callbackConfirmationProvider(
+      (request) =>
+        Promise.resolve({ approved: false, payloadHash: request.payloadHash, approvedBy: 'ana' }),
+      'app'
+    );
+    const agent = new InvoiceAgent(
+      passThroughSession,
+      configAgent,
+      reject,
+      api,
+      inMemory({
+        confirmationLog: log,
+      })
+    );
+
+    await expect(agent.createInvoice(RUC, createMockInvoiceData())).rejects.toMatchObject({
+      code: 'CONFIRMATION_REJECTED',
+    });
+    expect(mockAxios.request).not.toHaveBeenCalled();
+    expect(log.records).toEqual([
+      expect.objectContaining({
+        provider: 'app',
+        approvedBy: 'ana',
+        approved: false,
+        accepted: false,
+      }),
+    ]);
+  });
+
+  test('should not submit when the approval names another payload', async () => {
+    const log = new MemoryConfirmationLog();
+    const approved = buildInvoicePayload(
+      createMockInvoiceData({ observaciones: 'versión aprobada' }),
+      createMockEkuatiaConfig('BASICA'),
+      RUC
+    );
+    const stale = callbackConfirmationProvider(() =>
+      Promise.resolve({
+        approved: true,
+        payloadHash: invoicePayloadHash(approved),
+        approvedBy: 'ana',
+      })
+    );
+    const agent = new InvoiceAgent(
+      passThroughSession,
+      configAgent,
+      stale,
+      api,
+      inMemory({
+        confirmationLog: log,
+      })
+    );
+
+    await expect(agent.createInvoice(RUC, createMockInvoiceData())).rejects.toMatchObject({
+      code: 'CONFIRMATION_REJECTED',
+    });
+    expect(mockAxios.request).not.toHaveBeenCalled();
+    expect(log.records[0]).toMatchObject({ approved: true, accepted: false });
+  });
+
+  test('should not post again after a timeout that may have registered the invoice', async () => {
+    mockAxios.request.mockRejectedValue(new AxiosError('timeout exceeded', 'ECONNABORTED'));
+    const agent = new InvoiceAgent(
+      passThroughSession,
+      configAgent,
+      approve,
+      api,
+      inMemory({ retry: immediateRetry })
+    );
+
+    await expect(agent.createInvoice(RUC, createMockInvoiceData())).rejects.toMatchObject({
+      code: 'TIMEOUT',
+    });
+    await expect(agent.createInvoice(RUC, createMockInvoiceData())).rejects.toMatchObject({
+      code: 'SUBMISSION_UNCERTAIN',
+      message: expect.stringContaining('Tiempo de espera agotado'),
+    });
+    expect(mockAxios.request).toHaveBeenCalledTimes(1);
+  });
+
+  test('should adopt the document the search finds after a timeout instead of posting again', async () => {
+    mockAxios.request.mockRejectedValue(new AxiosError('timeout exceeded', 'ECONNABORTED'));
+    const documentSearch = vi.fn<DocumentSearch>().mockResolvedValue({
+      status: 'found',
+      document: { documento_id: 'DOC-001', cdc: '01800054520010010000001202601251' },
+    });
+    const agent = new InvoiceAgent(
+      passThroughSession,
+      configAgent,
+      approve,
+      api,
+      inMemory({ documentSearch, retry: immediateRetry })
+    );
+
+    const result = await agent.createInvoice(RUC, createMockInvoiceData());
+
+    expect(result).toMatchObject({ documentoId: 'DOC-001', alreadyRegistered: true });
+    expect(documentSearch).toHaveBeenCalledWith(
+      result.payload,
+      expect.objectContaining({ state: 'uncertain' })
+    );
+    expect(mockAxios.request).toHaveBeenCalledTimes(1);
+  });
+
+  test('should post a payload once when it is invoiced twice at the same time', async () => {
+    const agent = new InvoiceAgent(passThroughSession, configAgent, approve, api, inMemory());
+
+    const results = await Promise.all([
+      agent.createInvoice(RUC, createMockInvoiceData()),
+      agent.createInvoice(RUC, createMockInvoiceData()),
+    ]);
+
+    const posts = mockAxios.request.mock.calls.filter(
+      ([config]) => (config as AxiosRequestConfig).url === '/documento/crear'
+    );
+    expect(posts).toHaveLength(1);
+    expect(results.map((result) => result.documentoId)).toEqual(['DOC-001', 'DOC-001']);
+    expect(results.map((result) => result.alreadyRegistered).sort()).toEqual([false, true]);
+  });
+
+  test('should return an invoice the ledger already saw registered without posting it', async () => {
+    const ledger = new SubmissionLedger({ directory: null, logger: silent });
+    const agent = new InvoiceAgent(
+      passThroughSession,
+      configAgent,
+      approve,
+      api,
+      inMemory({
+        ledger,
+      })
+    );
+    const first = await agent.createInvoice(RUC, createMockInvoiceData());
+    mockAxios.request.mockImplementation((config: AxiosRequestConfig) =>
+      config.url === '/documento/DOC-001'
+        ? Promise.resolve(
+            createMockHttpResponse({
+              success: true,
+              data: {
+                documento_id: 'DOC-001',
+                cdc: first.cdc,
+                estado: 'APROBADO',
+                fecha_emision: '25/01/2026',
+                documento: first.payload,
+              },
+            })
+          )
+        : Promise.reject(new Error(`Unexpected URL ${config.url}`))
+    );
+
+    const second = await agent.createInvoice(RUC, createMockInvoiceData());
+
+    expect(second).toMatchObject({ documentoId: 'DOC-001', alreadyRegistered: true });
+    expect(second.confirmation).toBeUndefined();
+    const urls = mockAxios.request.mock.calls.map(([config]) => (config as AxiosRequestConfig).url);
+    expect(urls.filter((url) => url === '/documento/crear')).toHaveLength(1);
+  });
+});
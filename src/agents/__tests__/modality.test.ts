@@ -0,0 +1,88 @@
+/**
+ * PURPOSE: Test suite for the modality decision engine
+ *
+ * REASONING:
+ * - Each declared fact must change the recommendation or its reasons in a visible way
+ * - Group validation is checked for both typed error codes and their offending fields
+ */
+
+import { describe, test, expect } from 'vitest';
+import { assertModalityGroups, enabledGroups, recommendModality } from '../modality';
+import { ConfigurationError } from '../../types/errors';
+
+describe('recommendModality', () => {
+  test('should recommend BASICA when no advanced group is needed', () => {
+    const recommendation = recommendModality({ hasPublicProcurementContracts: false });
+
+    expect(recommendation.modality).toBe('BASICA');
+    expect(recommendation).not.toHaveProperty('grupos_utilizables');
+    expect(recommendation.reasons).toHaveLength(1);
+  });
+
+  test('should recommend AVANZADA with DNCP data for public procurement', () => {
+    const recommendation = recommendModality({ hasPublicProcurementContracts: true });
+
+    expect(recommendation).toMatchObject({
+      modality: 'AVANZADA',
+      grupos_utilizables: { informaciones_compras_publicas: true },
+    });
+    expect(recommendation.reasons[0]).toContain('compras públicas');
+  });
+
+  test('should explain, but never enable, the supermarket group', () => {
+    const recommendation = recommendModality({
+      hasPublicProcurementContracts: false,
+      isSupermarket: true,
+    });
+
+    expect(recommendation.modality).toBe('BASICA');
+    expect(recommendation.reasons[0]).toContain('supermercados');
+  });
+});
+
+describe('assertModalityGroups', () => {
+  test('should accept AVANZADA with available groups and any modality without groups', () => {
+    expect(() =>
+      assertModalityGroups('AVANZADA', {
+        informaciones_compras_publicas: true,
+        sector_supermercados: false,
+      })
+    ).not.toThrow();
+    expect(() => assertModalityGroups('BASICA', undefined)).not.toThrow();
+  });
+
+  test('should reject groups under BASICA', () => {
+    expect(() =>
+      assertModalityGroups('BASICA', { informaciones_compras_publicas: false }, '5452')
+    ).toThrow(
+      expect.objectContaining({
+        code: 'GROUPS_REQUIRE_AVANZADA',
+        context: expect.objectContaining({ ruc: '5452' }),
+      })
+    );
+  });
+
+  test('should reject the unavailable supermarket group', () => {
+    const error = (() => {
+      try {
+        assertModalityGroups('AVANZADA', { sector_supermercados: true });
+      } catch (caught: unknown) {
+        return caught;
+      }
+      return null;
+    })();
+
+    expect(error).toBeInstanceOf(ConfigurationError);
+    expect(error).toMatchObject({
+      code: 'GROUP_UNAVAILABLE',
+      context: { invalidFields: ['grupos_utilizables.sector_supermercados'] },
+    });
+  });
+
+  test('should list only groups switched on', () => {
+    expect(
+      enabledGroups({ informaciones_compras_publicas: true, sector_supermercados: false })
+    ).toEqual(['informaciones_compras_publicas']);
+    expect(enabledGroups(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * PURPOSE: Test suite for configuration-change proposals
+ *
+ * REASONING:
+ * - The diff must list only changed leaves, with impact notes and the CSC masked
+ * - Saving is exercised through a real ConfigurationAgent so token and staleness checks are end to end
+ * - The confirmation callback decides; a rejected proposal never reaches /configuracion/guardar
+ */
+
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+import type { AxiosInstance, AxiosRequestConfig } from 'axios';
+import {
+  ConfigurationProposalFlow,
+  createConfigurationProposal,
+  diffConfiguration,
+  renderProposalJson,
+  renderProposalText,
+} from '../proposal';
+import { ConfigurationAgent, createConfigurationCache, configurationCacheKey } from '../config';
+import { EkuatiaApiService } from '../../services/api';
+import { Logger } from '../../services/logger';
+import type { RucWithoutDV, SessionToken } from '../../types/common';
+import { ConfigurationError } from '../../types/errors';
+import {
+  createMockAxios,
+  createMockEkuatiaConfig,
+  createMockHttpResponse,
+} from '../../utils/test-helpers';
+import { MOCK_ESTABLISHMENT } from '@tests/mocks/ekuatia';
+
+const RUC = '5452' as RucWithoutDV;
+const current = createMockEkuatiaConfig('BASICA');
+const logger = new Logger({ level: 'error', includeTimestamp: false }, { sinks: [] });
+
+const request = {
+  ruc: RUC,
+  changes: { issuer_data: { tipo_documento: 'NOTA_CREDITO' as const } },
+  reason: 'NOTA_CREDITO representa el 70% de 40 documentos',
+  source: 'test',
+};
+
+describe('diffConfiguration', () => {
+  test('should list changed leaves with impact notes', () => {
+    const proposed = {
+      ...current,
+      logo: 'logo.png',
+      issuer_data: { ...current.issuer_data, punto_expedicion: 2 },
+    };
+
+    expect(diffConfiguration(current, proposed)).toEqual([
+      {
+        field: 'issuer_data.punto_expedicion',
+        previous: 1,
+        proposed: 2,
+        impact: expect.any(String),
+      },
+      { field: 'logo', previous: 'sin logo', proposed: expect.stringContaining('sha256:') },
+    ]);
+  });
+
+  test('should mask CSC values', () => {
+    const proposed = {
+      ...current,
+      issuer_data: { ...current.issuer_data, codigo_seguridad_contribuyente: 'NEW_CSC' },
+    };
+
+    const [change] = diffConfiguration(current, proposed);
+
+    expect(change?.field).toBe('issuer_data.codigo_seguridad_contribuyente');
+    expect(JSON.stringify(change)).not.toContain('NEW_CSC');
+    expect(JSON.stringify(change)).not.toContain('CSC_VALUE_123456');
+  });
+});
+
+describe('createConfigurationProposal', () => {
+  test('should merge issuer_data changes and bind a token to the content', () => {
+    const proposal = createConfigurationProposal(request, current);
+
+    expect(proposal.proposed.issuer_data).toEqual({
+      ...current.issuer_data,
+      tipo_documento: 'NOTA_CREDITO',
+    });
+    expect(proposal.changes).toEqual([
+      expect.objectContaining({
+        field: 'issuer_data.tipo_documento',
+        previous: 'FACTURA ELECTRONICA',
+        proposed: 'NOTA_CREDITO',
+      }),
+    ]);
+    expect(proposal.approvalToken).toMatch(/^[0-9a-f]{64}$/);
+    expect(createConfigurationProposal(request, current).approvalToken).not.toBe(
+      proposal.approvalToken
+    );
+  });
+
+  test('should render as text and JSON', () => {
+    const proposal = createConfigurationProposal(request, current);
+
+    const text = renderProposalText(proposal);
+    expect(text).toContain('issuer_data.tipo_documento: FACTURA ELECTRONICA -> NOTA_CREDITO');
+    expect(text).toContain('Impacto:');
+    expect(text).toContain(proposal.approvalToken);
+    expect(JSON.parse(renderProposalJson(proposal))).toMatchObject({
+      id: proposal.id,
+      approvalToken: proposal.approvalToken,
+      changes: proposal.changes,
+    });
+  });
+});
+
+describe('ConfigurationAgent.applyProposal', () => {
+  let mockAxios: ReturnType<typeof createMockAxios>;
+  let agent: ConfigurationAgent;
+
+  const session = {
+    execute: <T>(run: (token: SessionToken) => Promise<T>) => run('token' as SessionToken),
+  };
+  const savedConfigs = () =>
+    mockAxios.request.mock.calls
+      .map(([config]) => config as AxiosRequestConfig)
+      .filter((config) => config.url === '/configuracion/guardar');
+
+  beforeEach(async () => {
+    mockAxios = createMockAxios();
+    mockAxios.request.mockResolvedValue(
+      createMockHttpResponse({
+        success: true,
+        data: { configuration_id: 'CFG-002', success_status: 'SUCCESS' },
+      })
+    );
+    const cache = createConfigurationCache(undefined, null);
+    await cache.set(configurationCacheKey(RUC), {
+      configuration_id: 'CFG-001',
+      config: current,
+      saved_timestamp: '2026-01-25T15:51:22.869Z',
+      establishment_data: MOCK_ESTABLISHMENT,
+    });
+    agent = new ConfigurationAgent(
+      session,
+      new EkuatiaApiService({ httpClient: mockAxios as unknown as AxiosInstance }),
+      { cache, logger }
+    );
+  });
+
+  test('should save a proposal approved with its token', async () => {
+    const proposal = createConfigurationProposal(request, current);
+
+    const result = await agent.applyProposal(RUC, proposal, proposal.approvalToken);
+
+    expect(result).toMatchObject({ configurationId: 'CFG-002', completedSteps: ['2.5'] });
+    expect(savedConfigs()[0]?.data).toEqual(proposal.proposed);
+    expect((await agent.getCachedConfiguration(RUC))?.establishment_data).toEqual(
+      MOCK_ESTABLISHMENT
+    );
+  });
+
+  test('should refuse a token issued for another proposal', async () => {
+    const shown = createConfigurationProposal(request, current);
+    const other = createConfigurationProposal(request, current);
+
+    await expect(agent.applyProposal(RUC, other, shown.approvalToken)).rejects.toMatchObject({
+      code: 'PROPOSAL_NOT_APPROVED',
+    });
+    expect(savedConfigs()).toEqual([]);
+  });
+
+  test('should refuse a proposal edited after it was shown', async () => {
+    const proposal = createConfigurationProposal(request, current);
+    const edited = {
+      ...proposal,
+      proposed: {
+        ...proposal.proposed,
+        issuer_data: { ...proposal.proposed.issuer_data, punto_expedicion: 2 },
+      },
+    };
+
+    const error = await agent
+      .applyProposal(RUC, edited, proposal.approvalToken)
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(ConfigurationError);
+    expect(error).toMatchObject({ code: 'PROPOSAL_NOT_APPROVED' });
+  });
+
+  test('should refuse a proposal built against an outdated configuration', async () => {
+    const proposal = createConfigurationProposal(request, {
+      ...current,
+      issuer_data: { ...current.issuer_data, numero_timbrado: '11111111' },
+    });
+
+    await expect(agent.applyProposal(RUC, proposal, proposal.approvalToken)).rejects.toMatchObject({
+      code: 'PROPOSAL_STALE',
+    });
+  });
+});
+
+describe('ConfigurationProposalFlow', () => {
+  const stored = {
+    configuration_id: 'CFG-001',
+    config: current,
+    saved_timestamp: '2026-01-25T15:51:22.869Z',
+  };
+
+  test('should present the rendered proposal and save with the returned token', async () => {
+    const configAgent = {
+      getCachedConfiguration: vi.fn().mockResolvedValue(stored),
+      applyProposal: vi.fn().mockResolvedValue({ configurationId: 'CFG-002' }),
+    };
+    const confirm = vi.fn((proposal: { approvalToken: string }) =>
+      Promise.resolve(proposal.approvalToken)
+    );
+    const flow = new ConfigurationProposalFlow(configAgent, confirm, { format: 'json', logger });
+
+    await flow.handle(request);
+
+    const [proposal, rendered] = confirm.mock.calls[0] as unknown as [
+      { approvalToken: string },
+      string,
+    ];
+    expect(JSON.parse(rendered)).toMatchObject({ approvalToken: proposal.approvalToken });
+    expect(configAgent.applyProposal).toHaveBeenCalledWith(RUC, proposal, proposal.approvalToken);
+  });
+
+  test('should not save a rejected proposal or an empty change', async () => {
+    const configAgent = {
+      getCachedConfiguration: vi.fn().mockResolvedValue(stored),
+      applyProposal: vi.fn(),
+    };
+    const confirm = vi.fn().mockResolvedValue(null);
+    const flow = new ConfigurationProposalFlow(configAgent, confirm, { logger });
+
+    expect(await flow.handle(request)).toBeNull();
+    expect(
+      await flow.handle({
+        ...request,
+        changes: { issuer_data: { tipo_documento: 'FACTURA ELECTRONICA' } },
+      })
+    ).toBeNull();
+    expect(confirm).toHaveBeenCalledTimes(1);
+    expect(configAgent.applyProposal).not.toHaveBeenCalled();
+  });
+});
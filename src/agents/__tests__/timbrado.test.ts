@@ -0,0 +1,186 @@
+/**
+ * PURPOSE: Test suite for timbrado validity tracking
+ *
+ * REASONING:
+ * - Window bounds are inclusive on both ends, so edge days are tested explicitly
+ * - Expiry must be announced on the bus exactly once per timbrado
+ * - Invoice pre-checks must fail with TIMBRADO_EXPIRED before anything is submitted
+ * - A recorded end date must still warn, and an announced expiry stay quiet, after a restart
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  TimbradoTracker,
+  assertWithinTimbrado,
+  evaluateTimbrado,
+  timbradoWindowFromConfig,
+} from '../timbrado';
+import { CacheEventBus } from '../../services/events';
+import { Logger } from '../../services/logger';
+import { InvoiceCreationError } from '../../types/errors';
+import { parseDisplayDate } from '../../utils/date';
+import { createMockEkuatiaConfig, createMockInvoiceData } from '../../utils/test-helpers';
+
+const config = createMockEkuatiaConfig('BASICA');
+const logger = new Logger({ level: 'error', includeTimestamp: false }, { sinks: [] });
+const day = (value: string) => parseDisplayDate(value) as Date;
+
+describe('timbradoWindowFromConfig', () => {
+  test('should derive the end from the validity period', () => {
+    expect(timbradoWindowFromConfig('5452', config, 365)).toEqual({
+      ruc: '5452',
+      numero_timbrado: '12561412',
+      validFrom: '20/03/2024',
+      validUntil: '19/03/2025',
+    });
+  });
+
+  test('should prefer a recorded end date and default the validity period without one', () => {
+    expect(timbradoWindowFromConfig('5452', config, 30, '31/12/2026').validUntil).toBe(
+      '31/12/2026'
+    );
+    expect(timbradoWindowFromConfig('5452', config).validUntil).toBe('19/03/2025');
+  });
+});
+
+describe('evaluateTimbrado', () => {
+  const window = timbradoWindowFromConfig('5452', config, 365);
+
+  test('should classify days around the window', () => {
+    expect(evaluateTimbrado(window, day('19/03/2024')).state).toBe('not_yet_valid');
+    expect(evaluateTimbrado(window, day('20/03/2024')).state).toBe('valid');
+    expect(evaluateTimbrado(window, day('18/02/2025'))).toMatchObject({
+      state: 'expiring',
+      daysRemaining: 30,
+    });
+    expect(evaluateTimbrado(window, day('19/03/2025'))).toMatchObject({
+      state: 'expiring',
+      daysRemaining: 1,
+    });
+    expect(evaluateTimbrado(window, day('20/03/2025')).state).toBe('expired');
+  });
+});
+
+describe('assertWithinTimbrado', () => {
+  const window = timbradoWindowFromConfig('5452', config, 365);
+
+  test('should accept invoices dated inside the window', () => {
+    expect(() =>
+      assertWithinTimbrado(window, createMockInvoiceData({ fecha: '19/03/2025' }))
+    ).not.toThrow();
+  });
+
+  test('should reject invoices dated outside the window with TIMBRADO_EXPIRED', () => {
+    for (const fecha of ['01/03/2024', '20/03/2025']) {
+      expect(() => assertWithinTimbrado(window, createMockInvoiceData({ fecha }))).toThrow(
+        expect.objectContaining({ code: 'TIMBRADO_EXPIRED' })
+      );
+    }
+  });
+
+  test('should reject malformed invoice dates with FECHA_INVALIDA', () => {
+    const run = () => assertWithinTimbrado(window, createMockInvoiceData({ fecha: '2025-01-01' }));
+
+    expect(run).toThrow(InvoiceCreationError);
+    expect(run).toThrow(expect.objectContaining({ code: 'FECHA_INVALIDA' }));
+  });
+});
+
+describe('TimbradoTracker', () => {
+  test('should announce expiry once on the event bus', async () => {
+    const bus = new CacheEventBus(logger);
+    const listener = vi.fn();
+    bus.subscribe('timbrado_expiration', listener);
+    const tracker = new TimbradoTracker({
+      validityDays: 365,
+      directory: null,
+      events: bus,
+      logger,
+      now: () => new Date('2025-06-01T12:00:00Z'),
+    });
+    await tracker.track('5452', config);
+
+    const status = await tracker.check('5452');
+    await tracker.check('5452');
+
+    expect(status?.state).toBe('expired');
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ ruc: '5452', source: 'timbrado' })
+    );
+  });
+
+  test('should report the warning window before expiry', async () => {
+    const tracker = new TimbradoTracker({
+      warningDays: 10,
+      directory: null,
+      logger,
+      now: () => new Date('2026-12-25T12:00:00Z'),
+    });
+    await tracker.track('5452', config, '31/12/2026');
+
+    expect(await tracker.check('5452')).toMatchObject({ state: 'expiring', daysRemaining: 7 });
+  });
+
+  test('should pre-check invoices only for tracked RUCs', async () => {
+    const tracker = new TimbradoTracker({ validityDays: 30, directory: null, logger });
+
+    await expect(
+      tracker.assertInvoiceDate('5452', createMockInvoiceData())
+    ).resolves.toBeUndefined();
+    await tracker.track('5452', config);
+    await expect(tracker.assertInvoiceDate('5452', createMockInvoiceData())).rejects.toMatchObject({
+      code: 'TIMBRADO_EXPIRED',
+    });
+    expect(await tracker.getWindow('80000005')).toBeNull();
+  });
+
+  describe('persistent windows', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'ekuatia-timbrado-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    test('should keep warning about a recorded end date after a restart', async () => {
+      const now = () => new Date('2026-12-25T12:00:00Z');
+      await new TimbradoTracker({ directory, logger, now }).track('5452', config, '31/12/2026');
+
+      const restarted = new TimbradoTracker({ directory, logger, now });
+
+      expect(await restarted.getWindow('5452')).toMatchObject({ validUntil: '31/12/2026' });
+      expect(await restarted.check('5452')).toMatchObject({ state: 'expiring', daysRemaining: 7 });
+    });
+
+    test('should not announce the same expiry again after a restart', async () => {
+      const bus = new CacheEventBus(logger);
+      const listener = vi.fn();
+      bus.subscribe('timbrado_expiration', listener);
+      const options = {
+        directory,
+        events: bus,
+        logger,
+        now: () => new Date('2025-06-01T12:00:00Z'),
+      };
+      const first = new TimbradoTracker(options);
+      await first.track('5452', config);
+      await first.check('5452');
+
+      const restarted = new TimbradoTracker(options);
+      await restarted.track('5452', config);
+
+      expect(await restarted.check('5452')).toMatchObject({ state: 'expired' });
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect((await restarted.getWindow('5452'))?.expiryAnnouncedAt).toBe(
+        '2025-06-01T12:00:00.000Z'
+      );
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * PURPOSE: Authentication agent for the Ekuatia login flow (Step 1 of the guide)
+ *
+ * REASONING:
+ * - Centralizes the POST /login call so scripts stop hand-rolling their own login
+ * - Translates every API error payload into a typed AuthenticationError
+ * - Refuses to hand back a session for a RUC that is not "Activo"
+ * - Delegates transport to EkuatiaApiService so tests never touch the network
+ *
+ * AGENT DECISION PROCESS:
+ * - Requirements analyzed from assets/ekuatia-agent-guide.md (Authentication Flow)
+ * - Considered: free loginAgent function vs agent class
+ * - Selected class so later checkpoints can attach session and audit state
+ * - Implementation constraints: Must only ever emit AuthenticationErrorCode values
+ */
+
+import type { LoginCredentials, LoginResponse, ProfileData } from '../types/ekuatia';
+import type { RucWithoutDV } from '../types/common';
+import { AuthenticationError } from '../types/errors';
+import { EkuatiaApiService } from '../services/api';
+import type { CredentialSource } from '../services/credentials';
+import { getLogger, type Logger } from '../services/logger';
+import { parseRucWithDV, parseRucWithoutDV, stripCheckDigit } from '../utils/ruc';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Reject profiles whose RUC is not in "Activo" state
+ */
+export const assertActiveRuc = (profile: ProfileData): void => {
+  if (profile.ruc_status !== 'Activo') {
+    throw new AuthenticationError(
+      `RUC ${profile.ruc_with_dv} no está en estado Activo (estado actual: ${profile.ruc_status})`,
+      'RUC_INACTIVE',
+      { ruc: profile.ruc_with_dv, lastAttempt: new Date().toISOString() }
+    );
+  }
+};
+
+/**
+ * Verify the profile RUC check digit and that it belongs to the RUC that logged in
+ */
+export const assertProfileRuc = (profile: ProfileData, expected: RucWithoutDV): void => {
+  const parsed = parseRucWithDV(profile.ruc_with_dv);
+  if (!parsed.success) {
+    throw new AuthenticationError(
+      `El perfil devuelto tiene un RUC inválido: ${parsed.error}`,
+      'SYSTEM_ERROR',
+      { ruc: expected }
+    );
+  }
+  if (stripCheckDigit(parsed.data) !== expected) {
+    throw new AuthenticationError(
+      `El perfil devuelto (RUC ${parsed.data}) no corresponde al RUC ${expected}`,
+      'SYSTEM_ERROR',
+      { ruc: expected }
+    );
+  }
+};
+
+// ============================================================================
+// AUTHENTICATION AGENT
+// ============================================================================
+
+/**
+ * Performs the Ekuatia login and validates the returned profile
+ */
+export class AuthenticationAgent {
+  constructor(
+    private readonly api: EkuatiaApiService = new EkuatiaApiService(),
+    private readonly logger: Logger = getLogger().child('auth')
+  ) {}
+
+  /**
+   * Log in with RUC (without DV) and Marangatu access key
+   *
+   * @param credentials - Login credentials in SOLUCIÓN GRATUITA mode
+   * @returns Login response with session token, profile and establishment data
+   * @throws {AuthenticationError} Rejected credentials, missing approval or inactive RUC
+   * @throws {TimeoutError} Request exceeded the configured timeout
+   * @throws {SystemError} Network or unexpected server failure
+   */
+  async login(credentials: LoginCredentials): Promise<LoginResponse> {
+    try {
+      const ruc = this.validateCredentials(credentials);
+
+      const response = await this.api.login({ ...credentials, username: ruc });
+
+      assertProfileRuc(response.profile, ruc);
+      assertActiveRuc(response.profile);
+      this.logger.security('login_succeeded', { ruc });
+      return response;
+    } catch (error: unknown) {
+      this.logger.security('login_failed', { ruc: credentials.username, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Log in with credentials read from a CredentialSource (e.g. the encrypted vault)
+   *
+   * @throws {ConfigurationError} CREDENTIALS_UNAVAILABLE when the source cannot be read
+   */
+  async loginWith(source: CredentialSource): Promise<LoginResponse> {
+    return this.login(await source.getCredentials());
+  }
+
+  /**
+   * Reject obviously invalid credentials before hitting the network
+   *
+   * @returns The normalised RUC used as username
+   */
+  private validateCredentials(credentials: LoginCredentials): RucWithoutDV {
+    if (!credentials.username.trim() || !credentials.password) {
+      throw new AuthenticationError(
+        'RUC y Clave de Acceso son obligatorios',
+        'INVALID_CREDENTIALS',
+        { ruc: credentials.username }
+      );
+    }
+    if (credentials.emission_mode !== 'SOLUCIÓN GRATUITA') {
+      throw new AuthenticationError(
+        `Modo de emisión no soportado: ${String(credentials.emission_mode)}`,
+        'INVALID_CREDENTIALS',
+        { ruc: credentials.username }
+      );
+    }
+
+    const ruc = parseRucWithoutDV(credentials.username);
+    if (!ruc.success) {
+      throw new AuthenticationError(ruc.error, 'INVALID_CREDENTIALS', {
+        ruc: credentials.username,
+      });
+    }
+    return ruc.data;
+  }
+}
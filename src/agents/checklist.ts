@@ -0,0 +1,428 @@
+/**
+ * PURPOSE: Pre-invoice validation checklist run against InvoiceData, the configuration and the profile
+ *
+ * REASONING:
+ * - The guide lists configuration, invoice-data and business-rule checks to pass before submitting
+ * - Callers need every failing check at once, not the first exception thrown by the payload builder
+ * - Each failure carries an InvoiceErrorCode so the same recovery messages apply
+ * - Teams add their own checks (internal product codes, credit limits) next to the guide's
+ *
+ * AGENT DECISION PROCESS:
+ * - Requirements analyzed from the guide's "Pre-Invoice Validation Checklist"
+ * - Considered: one validation function per section vs a list of named rules
+ * - Selected named rules so a team rule can be added, or a default one replaced, by id
+ * - Implementation constraints: The CCFE certificate is not visible in the profile, so it is not checked here
+ */
+
+import type {
+  DocumentType,
+  EkuatiaConfig,
+  InvoiceData,
+  InvoiceErrorCode,
+  ProfileData,
+} from '../types/ekuatia';
+import type { ValidationResult } from '../types/common';
+import { InvoiceCreationError } from '../types/errors';
+import { getLogger, type Logger } from '../services/logger';
+import { parseDisplayDate, toCalendarDay } from '../utils/date';
+import { resolveDncpData } from '../utils/dncp';
+import { findAmountMismatches } from '../utils/iva';
+import { parseReceptorRuc } from '../utils/ruc';
+import { assertWithinTimbrado, type TimbradoWindow } from './timbrado';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Checklist section, as grouped in the guide
+ */
+export type ChecklistSection = 'configuration' | 'invoice_data' | 'business_rules';
+
+/**
+ * Everything a rule can look at
+ */
+export interface ChecklistInput {
+  invoice: InvoiceData;
+  config: EkuatiaConfig;
+  /** Marangatu profile; rules that need it pass when it is absent */
+  profile?: ProfileData;
+  /** Document types approved for the issuer (GET /documento/tipos) */
+  approvedDocumentTypes?: readonly DocumentType[];
+  /** Tracked timbrado window */
+  timbrado?: TimbradoWindow | null;
+}
+
+/**
+ * Rule input plus the calendar day the checklist runs on
+ */
+export interface ChecklistContext extends ChecklistInput {
+  /** Today in Asunción (UTC midnight) */
+  today: Date;
+}
+
+/**
+ * A failed check on one field
+ */
+export interface ChecklistIssue {
+  field: string;
+  message: string;
+  code: InvoiceErrorCode;
+}
+
+/**
+ * A named check; returns no issues when it passes
+ */
+export interface ChecklistRule {
+  id: string;
+  section: ChecklistSection;
+  description: string;
+  check: (context: ChecklistContext) => ChecklistIssue[];
+}
+
+/**
+ * Options for constructing an InvoiceChecklist
+ */
+export interface InvoiceChecklistOptions {
+  /** Rules to run (defaults to DEFAULT_CHECKLIST_RULES) */
+  rules?: readonly ChecklistRule[];
+  /** Logger (defaults to the shared logger) */
+  logger?: Logger;
+  /** Clock (defaults to Date.now) */
+  now?: () => Date;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Run an assertion and turn its InvoiceCreationError into issues
+ */
+const issuesFrom = (field: string, assertion: () => unknown): ChecklistIssue[] => {
+  try {
+    assertion();
+    return [];
+  } catch (error) {
+    if (!(error instanceof InvoiceCreationError)) {
+      throw error;
+    }
+    const code = error.code as InvoiceErrorCode;
+    const details = error.context?.['validationErrors'] as Record<string, string[]> | undefined;
+    if (!details || Object.keys(details).length === 0) {
+      return [{ field, message: error.message, code }];
+    }
+    return Object.entries(details).flatMap(([key, messages]) =>
+      messages.map((message) => ({ field: key, message, code }))
+    );
+  }
+};
+
+const issuerFieldRule = (
+  id: string,
+  field: 'establecimiento' | 'punto_expedicion',
+  description: string
+): ChecklistRule => ({
+  id,
+  section: 'business_rules',
+  description,
+  check: ({ invoice, config }) => {
+    const requested = invoice[field];
+    const configured = config.issuer_data[field];
+    return requested === undefined || requested === configured
+      ? []
+      : [
+          {
+            field,
+            message: `La configuración usa ${configured}, la factura indica ${requested}`,
+            code: 'ISSUER_DATA_CONFLICT',
+          },
+        ];
+  },
+});
+
+// ============================================================================
+// DEFAULT RULES
+// ============================================================================
+
+/**
+ * The guide's checklist, in its order
+ */
+export const DEFAULT_CHECKLIST_RULES: readonly ChecklistRule[] = [
+  {
+    id: 'ruc_active',
+    section: 'configuration',
+    description: 'El RUC emisor está Activo en Marangatu',
+    check: ({ profile }) =>
+      profile && profile.ruc_status !== 'Activo'
+        ? [
+            {
+              field: 'profile.ruc_status',
+              message: `Estado actual: ${profile.ruc_status}`,
+              code: 'ISSUER_NOT_ENABLED',
+            },
+          ]
+        : [],
+  },
+  {
+    id: 'enablement_approved',
+    section: 'configuration',
+    description: 'La solicitud de Facturador Electrónico está aprobada',
+    check: ({ profile }) =>
+      profile && !parseDisplayDate(profile.fecha_aprobacion)
+        ? [
+            {
+              field: 'profile.fecha_aprobacion',
+              message: 'Sin fecha de aprobación como Facturador Electrónico',
+              code: 'ISSUER_NOT_ENABLED',
+            },
+          ]
+        : [],
+  },
+  {
+    id: 'csc_current',
+    section: 'configuration',
+    description: 'El Código de Seguridad configurado es el vigente',
+    check: ({ config, profile }) => {
+      const csc = config.issuer_data.codigo_seguridad_contribuyente.trim();
+      if (!csc) {
+        return [
+          {
+            field: 'issuer_data.codigo_seguridad_contribuyente',
+            message: 'La configuración no tiene Código de Seguridad',
+            code: 'CSC_MISMATCH',
+          },
+        ];
+      }
+      return profile && profile.csc.trim() !== csc
+        ? [
+            {
+              field: 'issuer_data.codigo_seguridad_contribuyente',
+              message: 'No coincide con el Código de Seguridad del perfil',
+              code: 'CSC_MISMATCH',
+            },
+          ]
+        : [];
+    },
+  },
+  {
+    id: 'receptor_ruc_valid',
+    section: 'invoice_data',
+    description: 'El RUC y la razón social del receptor son válidos',
+    check: ({ invoice }) => [
+      ...issuesFrom('receptor_ruc', () => parseReceptorRuc(invoice)),
+      ...(invoice.receptor_nombre.trim()
+        ? []
+        : [
+            {
+              field: 'receptor_nombre',
+              message: 'La razón social del receptor es obligatoria',
+              code: 'INVALID_DATOS_RECEPTOR' as const,
+            },
+          ]),
+    ],
+  },
+  {
+    id: 'items_complete',
+    section: 'invoice_data',
+    description: 'Cada ítem tiene código, descripción, cantidad y precio unitario',
+    check: ({ invoice }) => {
+      if (invoice.items.length === 0) {
+        return [
+          { field: 'items', message: 'La factura no tiene ítems', code: 'ITEMS_INCOMPLETOS' },
+        ];
+      }
+      return invoice.items.flatMap((item, index) => [
+        ...(['codigo_producto', 'descripcion'] as const)
+          .filter((field) => !item[field].trim())
+          .map((field) => ({
+            field: `items.${index}.${field}`,
+            message: 'Campo obligatorio',
+            code: 'ITEMS_INCOMPLETOS' as const,
+          })),
+        // Negative values are reported by amounts_positive
+        ...(['cantidad', 'precio_unitario'] as const)
+          .filter((field) => !Number.isFinite(item[field]) || item[field] === 0)
+          .map((field) => ({
+            field: `items.${index}.${field}`,
+            message: 'Debe ser mayor que 0',
+            code: 'ITEMS_INCOMPLETOS' as const,
+          })),
+      ]);
+    },
+  },
+  {
+    id: 'amounts_positive',
+    section: 'invoice_data',
+    description: 'Cantidades y precios no son negativos y los totales son mayores que cero',
+    check: ({ invoice }) =>
+      invoice.items.flatMap((item, index) => [
+        ...(['cantidad', 'precio_unitario'] as const)
+          .filter((field) => item[field] < 0)
+          .map((field) => ({
+            field: `items.${index}.${field}`,
+            message: 'No puede ser negativo',
+            code: 'MONTO_NEGATIVO' as const,
+          })),
+        ...((item.monto_total ?? 1) <= 0
+          ? [
+              {
+                field: `items.${index}.monto_total`,
+                message: 'Debe ser mayor que 0',
+                code: 'MONTO_NEGATIVO' as const,
+              },
+            ]
+          : []),
+        ...((item.monto_iva ?? 0) < 0
+          ? [
+              {
+                field: `items.${index}.monto_iva`,
+                message: 'No puede ser negativo',
+                code: 'MONTO_NEGATIVO' as const,
+              },
+            ]
+          : []),
+      ]),
+  },
+  {
+    id: 'total_matches_items',
+    section: 'invoice_data',
+    description: 'Los totales coinciden con la suma de los ítems',
+    check: ({ invoice }) =>
+      Object.entries(findAmountMismatches(invoice)).flatMap(([field, messages]) =>
+        messages.map((message) => ({ field, message, code: 'MONTO_INCONSISTENTE' as const }))
+      ),
+  },
+  {
+    id: 'dates_valid',
+    section: 'invoice_data',
+    description: 'La fecha de emisión es hoy o anterior',
+    check: ({ invoice, today }) => {
+      const fecha = parseDisplayDate(invoice.fecha);
+      if (!fecha) {
+        return [{ field: 'fecha', message: 'Formato esperado DD/MM/AAAA', code: 'FECHA_INVALIDA' }];
+      }
+      return fecha > today
+        ? [{ field: 'fecha', message: 'La fecha es posterior a hoy', code: 'FECHA_INVALIDA' }]
+        : [];
+    },
+  },
+  issuerFieldRule(
+    'dispatch_point_valid',
+    'punto_expedicion',
+    'El punto de expedición coincide con la configuración'
+  ),
+  issuerFieldRule(
+    'establishment_matches',
+    'establecimiento',
+    'El establecimiento coincide con la configuración'
+  ),
+  {
+    id: 'document_type_allowed',
+    section: 'business_rules',
+    description: 'El tipo de documento está aprobado para el emisor',
+    check: ({ invoice, config, approvedDocumentTypes }) => {
+      const tipo = invoice.tipo_documento ?? config.issuer_data.tipo_documento;
+      return approvedDocumentTypes && !approvedDocumentTypes.includes(tipo)
+        ? [
+            {
+              field: 'tipo_documento',
+              message: `${tipo} no está entre los tipos aprobados (${approvedDocumentTypes.join(', ')})`,
+              code: 'DOCUMENT_TYPE_NOT_ALLOWED',
+            },
+          ]
+        : [];
+    },
+  },
+  {
+    id: 'timbrado_valid',
+    section: 'business_rules',
+    description: 'La fecha de emisión está dentro de la vigencia del timbrado',
+    check: ({ invoice, timbrado }) =>
+      timbrado && parseDisplayDate(invoice.fecha)
+        ? issuesFrom('fecha', () => assertWithinTimbrado(timbrado, invoice))
+        : [],
+  },
+  {
+    id: 'dncp_data',
+    section: 'business_rules',
+    description: 'Los datos DNCP corresponden a los grupos habilitados',
+    check: ({ invoice, config }) => issuesFrom('dncp', () => resolveDncpData(invoice, config)),
+  },
+];
+
+// ============================================================================
+// CHECKLIST
+// ============================================================================
+
+/**
+ * Runs every checklist rule and reports all failures together
+ */
+export class InvoiceChecklist {
+  private readonly registered = new Map<string, ChecklistRule>();
+  private readonly logger: Logger;
+  private readonly now: () => Date;
+
+  constructor(options: InvoiceChecklistOptions = {}) {
+    for (const rule of options.rules ?? DEFAULT_CHECKLIST_RULES) {
+      this.registered.set(rule.id, rule);
+    }
+    this.logger = options.logger ?? getLogger().child('checklist');
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * Add a rule, replacing any rule with the same id
+   */
+  register(rule: ChecklistRule): this {
+    if (this.registered.has(rule.id)) {
+      this.logger.debug('Checklist rule replaced', { rule: rule.id });
+    }
+    this.registered.set(rule.id, rule);
+    return this;
+  }
+
+  /**
+   * Registered rules in run order
+   */
+  getRules(): readonly ChecklistRule[] {
+    return [...this.registered.values()];
+  }
+
+  /**
+   * Run every rule
+   *
+   * @returns Messages per field in errors and InvoiceErrorCodes per field in errorCodes
+   */
+  run(input: ChecklistInput): ValidationResult {
+    const context: ChecklistContext = { ...input, today: toCalendarDay(this.now()) };
+    const errors: Record<string, string[]> = {};
+    const errorCodes: Record<string, string[]> = {};
+    const failed: string[] = [];
+
+    for (const rule of this.registered.values()) {
+      const issues = rule.check(context);
+      if (issues.length > 0) {
+        failed.push(rule.id);
+      }
+      for (const issue of issues) {
+        const messages = (errors[issue.field] ??= []);
+        if (!messages.includes(issue.message)) {
+          messages.push(issue.message);
+        }
+        const codes = (errorCodes[issue.field] ??= []);
+        if (!codes.includes(issue.code)) {
+          codes.push(issue.code);
+        }
+      }
+    }
+
+    if (failed.length > 0) {
+      this.logger.info('Pre-invoice checklist failed', {
+        receptor: input.invoice.receptor_ruc,
+        rules: failed,
+      });
+    }
+    return { isValid: failed.length === 0, errors, errorCodes };
+  }
+}
@@ -0,0 +1,643 @@
+/**
+ * PURPOSE: Configuration agent running the one-time issuer setup (Steps 2.1-2.5 of the guide)
+ *
+ * REASONING:
+ * - "Configurar Datos Facturador Electrónico" is done once per RUC and must not be repeated
+ * - Issuer data comes from the Marangatu profile, so it is derived rather than typed by hand
+ * - The single-establishment constraint is enforced before anything reaches /configuracion/guardar
+ * - A cache hit skips every step, matching the guide's Session State Flow
+ *
+ * AGENT DECISION PROCESS:
+ * - Requirements analyzed from the Configuration Pipeline and State Management sections
+ * - Considered: one method per step vs a single pipeline method
+ * - Selected a single pipeline returning the steps it ran, so callers can audit the setup
+ * - Implementation constraints: Every API call goes through SessionManager for 401 recovery
+ */
+
+import { z } from 'zod';
+import {
+  ekuatiaConfigSchema,
+  establishmentDataSchema,
+  type ConfigurationFormResponse,
+  type DocumentType,
+  type EkuatiaConfig,
+  type EstablishmentData,
+  type GruposUtilizables,
+  type IssuerData,
+  type ModalityType,
+  type ProfileResponse,
+} from '../types/ekuatia';
+import type { CacheConfig, CacheKey, RucWithoutDV } from '../types/common';
+import { ConfigurationError } from '../types/errors';
+import { EkuatiaApiService } from '../services/api';
+import { CacheService, DEFAULT_CACHE_TTL_MS, type CacheSetOptions } from '../services/cache';
+import { getLogger, type Logger } from '../services/logger';
+import type { SessionManager } from '../services/session';
+import { formatValidationErrors, parseWithSchema } from '../utils/validation';
+import { hashCanonical } from '../utils/hash';
+import { logoFingerprint, parseLogoDataUri } from '../utils/logo';
+import { assertModalityGroups, recommendModality, type BusinessFacts } from './modality';
+import { verifyApprovalToken, type ConfigurationProposal } from './proposal';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Establishment number fixed by the single-establishment constraint */
+const SINGLE_ESTABLISHMENT = 1;
+
+/** Dispatch point fixed by the single-dispatch-point constraint */
+const SINGLE_DISPATCH_POINT = 1;
+
+/** Document type used when the caller does not choose one */
+const DEFAULT_DOCUMENT_TYPE: DocumentType = 'FACTURA ELECTRONICA';
+
+/** Modality used when the caller does not choose one */
+const DEFAULT_MODALITY: ModalityType = 'BASICA';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Configuration pipeline steps, numbered as in the guide
+ */
+export type ConfigurationStep = '2.1' | '2.2' | '2.3' | '2.4' | '2.5';
+
+/**
+ * Saved configuration as kept in the cache
+ */
+export const storedConfigurationSchema = z.object({
+  /** Identifier returned by /configuracion/guardar */
+  configuration_id: z.string(),
+  /** Configuration that was saved */
+  config: ekuatiaConfigSchema,
+  /** ISO timestamp of the save */
+  saved_timestamp: z.string(),
+  /** Establishment address seen when the configuration was saved (baseline for drift checks) */
+  establishment_data: establishmentDataSchema.optional(),
+  /** Unresolved drift; the configuration is not served again until the hold is released */
+  drift_hold: z
+    .object({
+      /** Fields that differed from the live profile */
+      fields: z.array(z.string()),
+      /** Drift step that placed the hold (drift_check or drift_refresh) */
+      config_step: z.string(),
+      /** ISO timestamp of the hold */
+      held_at: z.string(),
+    })
+    .optional(),
+});
+export type StoredConfiguration = z.infer<typeof storedConfigurationSchema>;
+
+/**
+ * Storage for saved configurations keyed by ekuatia_config_{ruc}
+ */
+export interface ConfigurationCache {
+  get(key: CacheKey): Promise<StoredConfiguration | null>;
+  set(key: CacheKey, value: StoredConfiguration, options?: CacheSetOptions): Promise<void>;
+  delete(key: CacheKey): Promise<void>;
+}
+
+/**
+ * Caller choices for the configuration pipeline
+ */
+export interface ConfigurationRequest {
+  /** Modality to configure (defaults to the recommendation for `business`, then BASICA) */
+  modality?: ModalityType;
+  /** Primary document type (defaults to FACTURA ELECTRONICA) */
+  tipo_documento?: DocumentType;
+  /** Advanced groups, only allowed with AVANZADA */
+  grupos_utilizables?: GruposUtilizables;
+  /** Declared business facts used to recommend a modality when none is given */
+  business?: BusinessFacts;
+  /** Company logo as a data URI (see loadLogo); a changed logo on a configured RUC is proposed */
+  logo?: string | null;
+  /** Ignore a cached configuration and run every step again */
+  force?: boolean;
+}
+
+/**
+ * Outcome of the configuration pipeline
+ */
+export interface ConfigurationResult {
+  /** Identifier of the active configuration */
+  configurationId: string;
+  /** Active configuration */
+  config: EkuatiaConfig;
+  /** Whether the configuration came from the cache */
+  fromCache: boolean;
+  /** Steps executed in this run (empty on a cache hit) */
+  completedSteps: ConfigurationStep[];
+}
+
+/**
+ * Configuration fields to change; issuer_data may be changed field by field
+ */
+export type ConfigurationChanges = Omit<Partial<EkuatiaConfig>, 'issuer_data'> & {
+  issuer_data?: Partial<IssuerData>;
+};
+
+/**
+ * A change to the saved configuration that must be confirmed before it is applied
+ */
+export interface ConfigurationChangeRequest {
+  /** RUC (without DV) owning the configuration */
+  ruc: RucWithoutDV;
+  /** Proposed field values */
+  changes: ConfigurationChanges;
+  /** Why the change is proposed */
+  reason: string;
+  /** Component proposing the change */
+  source: string;
+}
+
+/**
+ * Entry point of the configuration-change confirmation flow
+ */
+export type ConfigurationChangeHandler = (request: ConfigurationChangeRequest) => Promise<unknown>;
+
+/**
+ * Options for constructing a ConfigurationAgent
+ */
+export interface ConfigurationAgentOptions {
+  /** Configuration storage (defaults to the file-backed cache under DEFAULT_CACHE_DIRECTORY) */
+  cache?: ConfigurationCache;
+  /** Confirmation flow receiving changes requested for an already configured RUC */
+  onChange?: ConfigurationChangeHandler;
+  /** Logger (defaults to the shared logger) */
+  logger?: Logger;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Cache key for a RUC's configuration
+ */
+export const configurationCacheKey = (ruc: RucWithoutDV): CacheKey => `ekuatia_config_${ruc}`;
+
+/**
+ * Reject profiles that declare more than one establishment
+ */
+export const assertSingleEstablishment = (profile: ProfileResponse, ruc: string): void => {
+  const count = profile.establishments?.length ?? 1;
+  if (count > 1) {
+    throw new ConfigurationError(
+      `RUC ${ruc} tiene ${count} establecimientos; solo se admite uno`,
+      'MULTIPLE_ESTABLISHMENTS',
+      { ruc, configStep: '2', invalidFields: ['establishments'] }
+    );
+  }
+};
+
+/**
+ * Reject an explicit modality or group choice that differs from an existing configuration
+ * Recommendations from `business` are not compared; only values the caller asked for
+ *
+ * @throws {ConfigurationError} CONFIGURATION_MISMATCH
+ */
+export const assertRequestMatchesConfiguration = (
+  config: EkuatiaConfig,
+  request: ConfigurationRequest,
+  ruc: string
+): void => {
+  const conflicts: string[] = [];
+  if (request.modality !== undefined && request.modality !== config.modality) {
+    conflicts.push('modality');
+  }
+  if (request.grupos_utilizables !== undefined) {
+    const stored = config.grupos_utilizables ?? {};
+    const requested = request.grupos_utilizables;
+    const groups = new Set([...Object.keys(stored), ...Object.keys(requested)]);
+    for (const group of groups as Set<keyof GruposUtilizables>) {
+      if (Boolean(stored[group]) !== Boolean(requested[group])) {
+        conflicts.push(`grupos_utilizables.${group}`);
+      }
+    }
+  }
+  if (conflicts.length > 0) {
+    throw new ConfigurationError(
+      `La configuración guardada del RUC ${ruc} difiere de la solicitada: ${conflicts.join(', ')}`,
+      'CONFIGURATION_MISMATCH',
+      { ruc, configStep: '2.3', invalidFields: conflicts }
+    );
+  }
+};
+
+/**
+ * Build the EkuatiaConfig for Step 2.4 from the Marangatu profile
+ *
+ * @throws {ConfigurationError} CSC_INVALID when the profile carries no CSC
+ */
+export const buildConfigurationFromProfile = (
+  profile: ProfileResponse,
+  modality: ModalityType,
+  request: ConfigurationRequest = {}
+): EkuatiaConfig => {
+  const data = profile.profile;
+  if (!data.csc.trim()) {
+    throw new ConfigurationError(
+      `El perfil del RUC ${data.ruc_with_dv} no tiene Código de Seguridad del Contribuyente`,
+      'CSC_INVALID',
+      { ruc: data.ruc_with_dv, configStep: '2.4', invalidFields: ['csc'] }
+    );
+  }
+
+  return {
+    modality,
+    logo: request.logo ?? null,
+    ...(modality === 'AVANZADA' && request.grupos_utilizables
+      ? { grupos_utilizables: request.grupos_utilizables }
+      : {}),
+    issuer_data: {
+      numero_timbrado: data.numero_timbrado,
+      establecimiento: SINGLE_ESTABLISHMENT,
+      tipo_documento: request.tipo_documento ?? DEFAULT_DOCUMENT_TYPE,
+      actividad_economica: data.actividad_economica,
+      fecha_inicio_vigencia: data.fecha_aprobacion,
+      punto_expedicion: SINGLE_DISPATCH_POINT,
+      tipo_contribuyente: data.tipo_contribuyente,
+      codigo_seguridad_contribuyente: data.csc,
+    },
+  };
+};
+
+/**
+ * Persistent ConfigurationCache: a CacheService validating entries read back from disk
+ *
+ * @param config - TTL and size limits (ttlMs from CONFIG_CACHE_TTL)
+ * @param directory - Level 2 directory, or null for memory only
+ */
+export const createConfigurationCache = (
+  config: CacheConfig = { ttlMs: DEFAULT_CACHE_TTL_MS },
+  directory?: string | null
+): CacheService<StoredConfiguration> =>
+  new CacheService(config, { directory, schema: storedConfigurationSchema });
+
+// ============================================================================
+// CONFIGURATION AGENT
+// ============================================================================
+
+/**
+ * Runs the one-time configuration pipeline and caches the saved configuration
+ */
+export class ConfigurationAgent {
+  private readonly cache: ConfigurationCache;
+  private readonly onChange: ConfigurationChangeHandler | undefined;
+  private readonly logger: Logger;
+
+  constructor(
+    private readonly session: Pick<SessionManager, 'execute'>,
+    private readonly api: EkuatiaApiService = new EkuatiaApiService(),
+    options: ConfigurationAgentOptions = {}
+  ) {
+    this.cache = options.cache ?? createConfigurationCache();
+    this.onChange = options.onChange;
+    this.logger = options.logger ?? getLogger().child('config');
+  }
+
+  /**
+   * Return the cached configuration or run Steps 2.1-2.5 to create it
+   *
+   * @param ruc - RUC without DV that owns the configuration
+   * @param request - Modality, document type and optional overrides
+   * @returns Active configuration and the steps that ran
+   * @throws {ConfigurationError} MULTIPLE_ESTABLISHMENTS, MODALITY_UNAVAILABLE, GROUP_UNAVAILABLE,
+   * GROUPS_REQUIRE_AVANZADA or CSC_INVALID
+   * @throws {ConfigurationError} CONFIGURATION_MISMATCH when an existing configuration uses another
+   * modality or groups than the ones requested
+   * @throws {ConfigurationError} CONFIGURATION_DRIFT while the configuration is held for drift,
+   * even with `force` (Ekuatia would only return the same stale copy)
+   * @throws {AuthenticationError} Session could not be established
+   */
+  async ensureConfigured(
+    ruc: RucWithoutDV,
+    request: ConfigurationRequest = {}
+  ): Promise<ConfigurationResult> {
+    const key = configurationCacheKey(ruc);
+    const cached = await this.cache.get(key);
+    if (cached?.drift_hold) {
+      const { fields, config_step: configStep } = cached.drift_hold;
+      throw new ConfigurationError(
+        `La configuración del RUC ${ruc} está retenida por deriva con Marangatu: ${fields.join(', ')}`,
+        'CONFIGURATION_DRIFT',
+        { ruc, configStep, invalidFields: fields }
+      );
+    }
+    if (cached && !request.force) {
+      this.logger.debug('Configuration cache hit, skipping steps 2.1-2.5', { ruc });
+      assertRequestMatchesConfiguration(cached.config, request, ruc);
+      await this.requestLogoChange(ruc, cached, request);
+      return {
+        configurationId: cached.configuration_id,
+        config: cached.config,
+        fromCache: true,
+        completedSteps: [],
+      };
+    }
+
+    const completedSteps: ConfigurationStep[] = [];
+
+    // Step 2: profile retrieval and the single-establishment check
+    const profile = await this.session.execute((token) => this.api.getProfile(token));
+    assertSingleEstablishment(profile, ruc);
+
+    // Step 2.1: Mis Herramientas
+    await this.session.execute((token) => this.api.getTools(token));
+    completedSteps.push('2.1');
+
+    // Step 2.2: Configurar Datos Facturador Electrónico
+    const form = await this.session.execute((token) => this.api.getConfigurationForm(token));
+    completedSteps.push('2.2');
+
+    if (!form.configuration_required && form.current_configuration && form.configuration_id) {
+      assertRequestMatchesConfiguration(form.current_configuration, request, ruc);
+      this.logger.info('Configuration already saved in Ekuatia, caching it', { ruc });
+      return this.store(
+        key,
+        { configuration_id: form.configuration_id, config: form.current_configuration },
+        profile.establishment_data,
+        completedSteps
+      );
+    }
+
+    // Step 2.3: modality selection
+    const { modality, grupos_utilizables } = this.selectModality(form, request, ruc);
+    completedSteps.push('2.3');
+
+    // Step 2.4: issuer data population
+    const config = this.validateConfiguration(
+      buildConfigurationFromProfile(profile, modality, { ...request, grupos_utilizables }),
+      ruc
+    );
+    completedSteps.push('2.4');
+
+    // Step 2.5: save
+    const saved = await this.session.execute((token) => this.api.saveConfiguration(token, config));
+    completedSteps.push('2.5');
+    this.logger.info('Configuration saved', {
+      ruc,
+      configurationId: saved.configuration_id,
+      modality,
+    });
+
+    return this.store(
+      key,
+      { configuration_id: saved.configuration_id, config },
+      profile.establishment_data,
+      completedSteps
+    );
+  }
+
+  /**
+   * Save an approved configuration-change proposal (Step 2.5 only)
+   *
+   * @param ruc - RUC without DV that owns the configuration
+   * @param proposal - Proposal exactly as it was shown for approval
+   * @param approvalToken - Token returned by the approver
+   * @throws {ConfigurationError} PROPOSAL_NOT_APPROVED when the token does not match the proposal
+   * @throws {ConfigurationError} PROPOSAL_STALE when the saved configuration changed meanwhile
+   */
+  async applyProposal(
+    ruc: RucWithoutDV,
+    proposal: ConfigurationProposal,
+    approvalToken: string
+  ): Promise<ConfigurationResult> {
+    verifyApprovalToken(proposal, approvalToken);
+    if (proposal.ruc !== ruc) {
+      throw new ConfigurationError(
+        `La propuesta ${proposal.id} pertenece al RUC ${proposal.ruc}, no a ${ruc}`,
+        'PROPOSAL_NOT_APPROVED',
+        { ruc, configStep: 'proposal', invalidFields: ['ruc'] }
+      );
+    }
+
+    const key = configurationCacheKey(ruc);
+    const cached = await this.cache.get(key);
+    if (!cached || hashCanonical(cached.config) !== hashCanonical(proposal.current)) {
+      throw new ConfigurationError(
+        `La configuración guardada cambió desde la propuesta ${proposal.id}`,
+        'PROPOSAL_STALE',
+        { ruc, configStep: 'proposal' }
+      );
+    }
+
+    assertModalityGroups(proposal.proposed.modality, proposal.proposed.grupos_utilizables, ruc);
+    const config = this.validateConfiguration(proposal.proposed, ruc);
+    const saved = await this.session.execute((token) => this.api.saveConfiguration(token, config));
+    this.logger.info('Approved configuration proposal saved', {
+      ruc,
+      proposalId: proposal.id,
+      configurationId: saved.configuration_id,
+      fields: proposal.changes.map((change) => change.field),
+    });
+
+    return this.store(
+      key,
+      { configuration_id: saved.configuration_id, config },
+      cached.establishment_data,
+      ['2.5']
+    );
+  }
+
+  /**
+   * Rebuild the issuer data from a live /perfil response and save it (Steps 2.4-2.5)
+   * Modality, groups, document type, logo and overrides are kept from the current configuration
+   *
+   * @param ruc - RUC without DV that owns the configuration
+   * @param profile - Live profile the issuer data is taken from
+   * @param current - Configuration being replaced
+   * @throws {ConfigurationError} MULTIPLE_ESTABLISHMENTS or CSC_INVALID
+   */
+  async rebuildFromProfile(
+    ruc: RucWithoutDV,
+    profile: ProfileResponse,
+    current: EkuatiaConfig
+  ): Promise<ConfigurationResult> {
+    assertSingleEstablishment(profile, ruc);
+    const config = this.validateConfiguration(
+      {
+        ...current,
+        ...buildConfigurationFromProfile(profile, current.modality, {
+          tipo_documento: current.issuer_data.tipo_documento,
+          grupos_utilizables: current.grupos_utilizables,
+          logo: current.logo,
+        }),
+      },
+      ruc
+    );
+    const saved = await this.session.execute((token) => this.api.saveConfiguration(token, config));
+    this.logger.info('Configuration rebuilt from the live profile', {
+      ruc,
+      configurationId: saved.configuration_id,
+    });
+
+    return this.store(
+      configurationCacheKey(ruc),
+      { configuration_id: saved.configuration_id, config },
+      profile.establishment_data,
+      ['2.4', '2.5']
+    );
+  }
+
+  /**
+   * Stop serving the cached configuration until the drift is resolved
+   * The held entry lists no invalidation triggers, so cache events cannot drop the hold
+   *
+   * @param ruc - RUC without DV that owns the configuration
+   * @param fields - Fields that differ from the live profile
+   * @param configStep - Drift step placing the hold
+   */
+  async holdForDrift(ruc: RucWithoutDV, fields: string[], configStep: string): Promise<void> {
+    const key = configurationCacheKey(ruc);
+    const cached = await this.cache.get(key);
+    if (!cached) {
+      return;
+    }
+    await this.cache.set(
+      key,
+      {
+        ...cached,
+        drift_hold: { fields, config_step: configStep, held_at: new Date().toISOString() },
+      },
+      { invalidationTriggers: [] }
+    );
+    this.logger.warn('Configuration held for drift', { ruc, fields, configStep });
+  }
+
+  /**
+   * Serve the cached configuration again once it matches the live profile
+   */
+  async releaseDriftHold(ruc: RucWithoutDV): Promise<void> {
+    const key = configurationCacheKey(ruc);
+    const cached = await this.cache.get(key);
+    if (!cached?.drift_hold) {
+      return;
+    }
+    await this.cache.set(key, { ...cached, drift_hold: undefined });
+    this.logger.info('Configuration drift hold released', { ruc });
+  }
+
+  /**
+   * Cached configuration for a RUC, if any
+   */
+  async getCachedConfiguration(ruc: RucWithoutDV): Promise<StoredConfiguration | null> {
+    return this.cache.get(configurationCacheKey(ruc));
+  }
+
+  /**
+   * Drop the cached configuration so the next call runs the pipeline again
+   */
+  async invalidate(ruc: RucWithoutDV): Promise<void> {
+    await this.cache.delete(configurationCacheKey(ruc));
+    this.logger.info('Configuration cache invalidated', { ruc });
+  }
+
+  // --------------------------------------------------------------------------
+  // INTERNALS
+  // --------------------------------------------------------------------------
+
+  /**
+   * Resolve the modality and groups, then check them against the form and group rules
+   */
+  private selectModality(
+    form: ConfigurationFormResponse,
+    request: ConfigurationRequest,
+    ruc: string
+  ): Pick<EkuatiaConfig, 'modality' | 'grupos_utilizables'> {
+    let modality = request.modality;
+    let grupos = request.grupos_utilizables;
+    if (modality === undefined && request.business) {
+      const recommendation = recommendModality(request.business);
+      this.logger.info('Modality recommended from business facts', {
+        ruc,
+        modality: recommendation.modality,
+        reasons: recommendation.reasons,
+      });
+      modality = recommendation.modality;
+      grupos ??= recommendation.grupos_utilizables;
+    }
+    modality ??= DEFAULT_MODALITY;
+
+    assertModalityGroups(modality, grupos, ruc);
+    if (!form.available_modalities.includes(modality)) {
+      throw new ConfigurationError(
+        `La modalidad ${modality} no está disponible (ofrecidas: ${form.available_modalities.join(', ') || 'ninguna'})`,
+        'MODALITY_UNAVAILABLE',
+        { ruc, configStep: '2.3', invalidFields: ['modality'] }
+      );
+    }
+    return { modality, grupos_utilizables: grupos };
+  }
+
+  /**
+   * Verify the built configuration before it is sent to /configuracion/guardar
+   *
+   * @throws {ConfigurationError} SYSTEM_ERROR on a schema mismatch, INVALID_LOGO on a bad logo
+   */
+  private validateConfiguration(config: EkuatiaConfig, ruc: string): EkuatiaConfig {
+    const parsed = parseWithSchema(ekuatiaConfigSchema, config);
+    if (!parsed.success) {
+      throw new ConfigurationError(
+        `Configuración incompleta: ${formatValidationErrors(parsed.error)}`,
+        'SYSTEM_ERROR',
+        { ruc, configStep: '2.4', invalidFields: Object.keys(parsed.error.errors) }
+      );
+    }
+    if (parsed.data.logo) {
+      parseLogoDataUri(parsed.data.logo);
+    }
+    return parsed.data;
+  }
+
+  /**
+   * Send a logo that differs from the saved one to the confirmation flow
+   * The same image (same content hash) is a no-op
+   */
+  private async requestLogoChange(
+    ruc: RucWithoutDV,
+    cached: StoredConfiguration,
+    request: ConfigurationRequest
+  ): Promise<void> {
+    if (
+      request.logo === undefined ||
+      logoFingerprint(request.logo) === logoFingerprint(cached.config.logo)
+    ) {
+      return;
+    }
+    if (request.logo) {
+      parseLogoDataUri(request.logo);
+    }
+    if (!this.onChange) {
+      this.logger.warn('Logo change ignored: no confirmation flow configured', { ruc });
+      return;
+    }
+    await this.onChange({
+      ruc,
+      changes: { logo: request.logo },
+      reason: request.logo ? 'Nuevo logo de la empresa' : 'Eliminar el logo de la empresa',
+      source: 'configuration',
+    });
+  }
+
+  private async store(
+    key: CacheKey,
+    saved: Pick<StoredConfiguration, 'configuration_id' | 'config'>,
+    establishmentData: EstablishmentData | undefined,
+    completedSteps: ConfigurationStep[]
+  ): Promise<ConfigurationResult> {
+    await this.cache.set(key, {
+      ...saved,
+      saved_timestamp: new Date().toISOString(),
+      establishment_data: establishmentData,
+    });
+    return {
+      configurationId: saved.configuration_id,
+      config: saved.config,
+      fromCache: false,
+      completedSteps,
+    };
+  }
+}
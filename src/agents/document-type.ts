@@ -0,0 +1,269 @@
+/**
+ * PURPOSE: Recommend the primary DocumentType (Step 2.4) from the local issuance history
+ *
+ * REASONING:
+ * - Step 2.4 sets IssuerData.tipo_documento to the most frequently issued document type
+ * - The guide's sketch mixes "FACTURA_ELECTRONICA" and "FACTURA ELECTRONICA", so raw labels are normalised
+ * - A handful of documents says little, so no recommendation is made below a minimum sample
+ * - Changing tipo_documento affects every later invoice, so the result is only ever proposed
+ *
+ * AGENT DECISION PROCESS:
+ * - Requirements analyzed from "determinePrimaryDocument" and its 60% / 40% thresholds
+ * - Considered: plain majority vote vs per-type share thresholds
+ * - Selected per-type thresholds (guide values by default) so teams can tune them
+ * - Implementation constraints: The analyser never saves; proposals go to the confirmation flow
+ */
+
+import { documentTypeSchema, type DocumentType, type EkuatiaConfig } from '../types/ekuatia';
+import type { RucWithoutDV } from '../types/common';
+import { getLogger, type Logger } from '../services/logger';
+import type { ConfigurationChangeHandler, ConfigurationChangeRequest } from './config';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * One document from the local issuance record
+ */
+export interface IssuedDocumentRecord {
+  documento_id: string;
+  /** Document type as recorded (legacy spellings are accepted) */
+  tipo_documento: string;
+  fecha_emision?: string;
+}
+
+/**
+ * Local record of issued documents
+ */
+export interface IssuedDocumentSource {
+  listIssuedDocuments(ruc: string): Promise<IssuedDocumentRecord[]>;
+}
+
+/**
+ * Thresholds for recommending a primary type
+ */
+export interface DocumentTypeThresholds {
+  /** Documents needed before any recommendation is made */
+  minSampleSize: number;
+  /** Share (0-1) a type must exceed to be recommended */
+  minShare: Record<DocumentType, number>;
+  /** Type recommended when no share clears its threshold */
+  fallback: DocumentType;
+}
+
+/**
+ * Share of one document type in the history
+ */
+export interface DocumentTypeShare {
+  tipo_documento: DocumentType;
+  count: number;
+  /** Fraction of recognised documents (0-1) */
+  share: number;
+}
+
+/**
+ * Outcome of a history analysis
+ */
+export interface DocumentTypeAnalysis {
+  /** Recognised documents */
+  total: number;
+  /** Records whose type could not be recognised */
+  unrecognized: number;
+  /** Shares, largest first */
+  shares: DocumentTypeShare[];
+  /** Recommended primary type; null when the history is too small */
+  recommended: DocumentType | null;
+  /** Explanation of the recommendation */
+  reason: string;
+}
+
+/**
+ * Options for constructing a DocumentTypeAnalyzer
+ */
+export interface DocumentTypeAnalyzerOptions {
+  /** Overrides merged over DEFAULT_DOCUMENT_TYPE_THRESHOLDS (minShare per type) */
+  thresholds?: Partial<Omit<DocumentTypeThresholds, 'minShare'>> & {
+    minShare?: Partial<Record<DocumentType, number>>;
+  };
+  /** Logger (defaults to the shared logger) */
+  logger?: Logger;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Guide thresholds: facturas above 60%, credit notes above 40%
+ */
+export const DEFAULT_DOCUMENT_TYPE_THRESHOLDS: DocumentTypeThresholds = {
+  minSampleSize: 20,
+  minShare: {
+    'FACTURA ELECTRONICA': 0.6,
+    NOTA_CREDITO: 0.4,
+    NOTA_DEBITO: 0.4,
+  },
+  fallback: 'FACTURA ELECTRONICA',
+};
+
+/** Source label used on change requests */
+const PROPOSAL_SOURCE = 'document-type-analyzer';
+
+/** Comparison key: upper case with spaces and underscores unified */
+const labelKey = (value: string): string =>
+  value
+    .trim()
+    .toUpperCase()
+    .replace(/[\s_]+/g, '_');
+
+const DOCUMENT_TYPES_BY_KEY = new Map<string, DocumentType>(
+  documentTypeSchema.options.map((type) => [labelKey(type), type])
+);
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+/** Share rendered as a whole percentage */
+const formatPercent = (share: number): string => `${Math.round(share * 100)}%`;
+
+/**
+ * Map a recorded label to a DocumentType ("FACTURA_ELECTRONICA" becomes "FACTURA ELECTRONICA")
+ */
+export const normalizeDocumentType = (value: string): DocumentType | null =>
+  DOCUMENT_TYPES_BY_KEY.get(labelKey(value)) ?? null;
+
+/**
+ * Count each document type and recommend a primary one
+ *
+ * @param records - Issued documents
+ * @param thresholds - Sample size and share thresholds
+ */
+export const analyzeDocumentTypes = (
+  records: readonly IssuedDocumentRecord[],
+  thresholds: DocumentTypeThresholds = DEFAULT_DOCUMENT_TYPE_THRESHOLDS
+): DocumentTypeAnalysis => {
+  const counts = new Map<DocumentType, number>();
+  let unrecognized = 0;
+  for (const record of records) {
+    const type = normalizeDocumentType(record.tipo_documento);
+    if (type) {
+      counts.set(type, (counts.get(type) ?? 0) + 1);
+    } else {
+      unrecognized++;
+    }
+  }
+
+  const total = records.length - unrecognized;
+  const shares = [...counts.entries()]
+    .map(([tipo_documento, count]) => ({ tipo_documento, count, share: count / total }))
+    .sort((a, b) => b.count - a.count);
+
+  if (total < thresholds.minSampleSize) {
+    return {
+      total,
+      unrecognized,
+      shares,
+      recommended: null,
+      reason: `Historial insuficiente: ${total} documentos (mínimo ${thresholds.minSampleSize})`,
+    };
+  }
+
+  const leader = shares.find((entry) => entry.share > thresholds.minShare[entry.tipo_documento]);
+  if (leader) {
+    return {
+      total,
+      unrecognized,
+      shares,
+      recommended: leader.tipo_documento,
+      reason: `${leader.tipo_documento} representa el ${formatPercent(leader.share)} de ${total} documentos (umbral ${formatPercent(thresholds.minShare[leader.tipo_documento])})`,
+    };
+  }
+
+  return {
+    total,
+    unrecognized,
+    shares,
+    recommended: thresholds.fallback,
+    reason: `Ningún tipo supera su umbral; se mantiene ${thresholds.fallback} por defecto`,
+  };
+};
+
+// ============================================================================
+// ANALYZER
+// ============================================================================
+
+/**
+ * Reads the issuance history and proposes tipo_documento changes for confirmation
+ */
+export class DocumentTypeAnalyzer {
+  private readonly thresholds: DocumentTypeThresholds;
+  private readonly logger: Logger;
+
+  /**
+   * @param history - Local record of issued documents
+   * @param requestChange - Configuration-change confirmation flow receiving proposals
+   * @param options - Thresholds and logger
+   */
+  constructor(
+    private readonly history: IssuedDocumentSource,
+    private readonly requestChange: ConfigurationChangeHandler,
+    options: DocumentTypeAnalyzerOptions = {}
+  ) {
+    this.thresholds = {
+      ...DEFAULT_DOCUMENT_TYPE_THRESHOLDS,
+      ...options.thresholds,
+      minShare: { ...DEFAULT_DOCUMENT_TYPE_THRESHOLDS.minShare, ...options.thresholds?.minShare },
+    };
+    this.logger = options.logger ?? getLogger().child('document-type');
+  }
+
+  /**
+   * Analyse the RUC's issuance history
+   */
+  async analyze(ruc: RucWithoutDV): Promise<DocumentTypeAnalysis> {
+    const records = await this.history.listIssuedDocuments(ruc);
+    return analyzeDocumentTypes(records, this.thresholds);
+  }
+
+  /**
+   * Analyse the history and hand a change to the confirmation flow when it differs from the config
+   *
+   * @param ruc - RUC without DV
+   * @param current - Active configuration
+   * @returns The change request that was submitted, or null when no change is proposed
+   */
+  async propose(
+    ruc: RucWithoutDV,
+    current: EkuatiaConfig
+  ): Promise<ConfigurationChangeRequest | null> {
+    const analysis = await this.analyze(ruc);
+    const currentType = current.issuer_data.tipo_documento;
+
+    if (analysis.recommended === null || analysis.recommended === currentType) {
+      this.logger.debug('No document type change proposed', {
+        ruc,
+        current: currentType,
+        recommended: analysis.recommended,
+        reason: analysis.reason,
+      });
+      return null;
+    }
+
+    const request: ConfigurationChangeRequest = {
+      ruc,
+      changes: { issuer_data: { tipo_documento: analysis.recommended } },
+      reason: analysis.reason,
+      source: PROPOSAL_SOURCE,
+    };
+    this.logger.info('Proposing primary document type change', {
+      ruc,
+      from: currentType,
+      to: analysis.recommended,
+      total: analysis.total,
+    });
+    await this.requestChange(request);
+    return request;
+  }
+}
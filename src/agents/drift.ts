@@ -0,0 +1,355 @@
+/**
+ * PURPOSE: Detect drift between the cached issuer configuration and the live Marangatu profile
+ *
+ * REASONING:
+ * - The live system is the source of truth, yet the configuration cache lives for 90 days
+ * - A changed timbrado or CSC makes every invoice built from the cache fail at DNIT
+ * - Not every change is equally serious, so each field carries its own action policy
+ * - The report is field-level so operators see exactly what changed
+ * - A refresh rebuilds the issuer data from the live profile; Ekuatia's saved copy is just as stale
+ * - Until drift is resolved the cached entry carries a hold, so a restart or cache event cannot undo it
+ *
+ * AGENT DECISION PROCESS:
+ * - Requirements analyzed from the guide's invalidation triggers and "live system is source of truth"
+ * - Considered: invalidating on any difference vs per-field block/refresh/warn policy
+ * - Selected per-field policy because an activity wording change should not stop invoicing
+ * - Implementation constraints: CSC values never appear in reports or logs
+ */
+
+import type {
+  CacheInvalidationTrigger,
+  EstablishmentData,
+  ProfileResponse,
+} from '../types/ekuatia';
+import type { RucWithoutDV } from '../types/common';
+import { ConfigurationError } from '../types/errors';
+import { EkuatiaApiService } from '../services/api';
+import type { CacheEventBus } from '../services/events';
+import { getLogger, type Logger } from '../services/logger';
+import type { SessionManager } from '../services/session';
+import type { ConfigurationAgent, ConfigurationResult, StoredConfiguration } from './config';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Issuer fields compared against the live profile
+ */
+export type DriftField =
+  | 'numero_timbrado'
+  | 'actividad_economica'
+  | 'tipo_contribuyente'
+  | 'codigo_seguridad_contribuyente'
+  | 'establishment_data';
+
+/**
+ * What to do when a field drifted
+ * - block: refuse to continue (invoicing must not use this configuration)
+ * - refresh: rebuild the configuration from the live profile, save it and continue
+ * - warn: log and continue with the cached configuration
+ */
+export type DriftAction = 'block' | 'refresh' | 'warn';
+
+/**
+ * Action per field
+ */
+export type DriftPolicy = Record<DriftField, DriftAction>;
+
+/**
+ * One drifted field
+ */
+export interface FieldDrift {
+  field: DriftField;
+  /** Cached value (omitted for the CSC) */
+  cachedValue?: unknown;
+  /** Live value (omitted for the CSC) */
+  liveValue?: unknown;
+  /** Action from the policy */
+  action: DriftAction;
+}
+
+/**
+ * Field-level comparison result
+ */
+export interface DriftReport {
+  ruc: string;
+  configurationId: string;
+  checkedAt: string;
+  drifts: FieldDrift[];
+  /** Most severe action across all drifts ("none" when nothing drifted) */
+  action: DriftAction | 'none';
+}
+
+/**
+ * Outcome of ConfigurationDriftChecker.check()
+ */
+export interface DriftCheckResult {
+  /** Comparison result; null when no configuration is cached */
+  report: DriftReport | null;
+  /** Configuration to use from now on; null when none is cached */
+  configuration: ConfigurationResult | null;
+  /** Whether the configuration was reloaded because of drift */
+  refreshed: boolean;
+}
+
+/**
+ * Options for constructing a ConfigurationDriftChecker
+ */
+export interface DriftCheckerOptions {
+  /** Overrides merged over DEFAULT_DRIFT_POLICY */
+  policy?: Partial<DriftPolicy>;
+  /** Bus notified of every enforced (block or refresh) drifted field */
+  events?: CacheEventBus;
+  /** Logger (defaults to the shared logger) */
+  logger?: Logger;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Default policy: identity changes block, values re-read from Ekuatia refresh, wording warns
+ */
+export const DEFAULT_DRIFT_POLICY: DriftPolicy = {
+  numero_timbrado: 'refresh',
+  actividad_economica: 'warn',
+  tipo_contribuyente: 'block',
+  codigo_seguridad_contribuyente: 'refresh',
+  establishment_data: 'refresh',
+};
+
+/**
+ * Invalidation trigger published for each drifted field
+ */
+export const DRIFT_TRIGGERS: Readonly<Record<DriftField, CacheInvalidationTrigger>> = {
+  numero_timbrado: 'timbrado_expiration',
+  actividad_economica: 'configuration_notification',
+  tipo_contribuyente: 'configuration_notification',
+  codigo_seguridad_contribuyente: 'csc_update',
+  establishment_data: 'establishment_update',
+};
+
+/** Severity order used to pick the report action */
+const ACTION_SEVERITY: Record<DriftAction | 'none', number> = {
+  none: 0,
+  warn: 1,
+  refresh: 2,
+  block: 3,
+};
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+/**
+ * Whether two establishment addresses differ in any field
+ */
+const establishmentChanged = (cached: EstablishmentData, live: EstablishmentData): boolean =>
+  (Object.keys(live) as (keyof EstablishmentData)[]).some((key) => cached[key] !== live[key]);
+
+/**
+ * Compare a cached configuration with the live /perfil response
+ *
+ * @param ruc - RUC (without DV) owning the configuration
+ * @param stored - Cached configuration (with its establishment baseline, when recorded)
+ * @param live - Fresh /perfil response
+ * @param policy - Action per field
+ */
+export const detectConfigurationDrift = (
+  ruc: string,
+  stored: StoredConfiguration,
+  live: ProfileResponse,
+  policy: DriftPolicy = DEFAULT_DRIFT_POLICY
+): DriftReport => {
+  const issuer = stored.config.issuer_data;
+  const profile = live.profile;
+  const drifts: FieldDrift[] = [];
+
+  const compare = (field: DriftField, cachedValue: string, liveValue: string): void => {
+    if (cachedValue !== liveValue) {
+      drifts.push({ field, cachedValue, liveValue, action: policy[field] });
+    }
+  };
+  compare('numero_timbrado', issuer.numero_timbrado, profile.numero_timbrado);
+  compare('actividad_economica', issuer.actividad_economica, profile.actividad_economica);
+  compare('tipo_contribuyente', issuer.tipo_contribuyente, profile.tipo_contribuyente);
+
+  if (issuer.codigo_seguridad_contribuyente !== profile.csc) {
+    drifts.push({
+      field: 'codigo_seguridad_contribuyente',
+      action: policy.codigo_seguridad_contribuyente,
+    });
+  }
+
+  if (
+    stored.establishment_data &&
+    establishmentChanged(stored.establishment_data, live.establishment_data)
+  ) {
+    drifts.push({
+      field: 'establishment_data',
+      cachedValue: stored.establishment_data,
+      liveValue: live.establishment_data,
+      action: policy.establishment_data,
+    });
+  }
+
+  const action = drifts.reduce<DriftAction | 'none'>(
+    (worst, drift) =>
+      ACTION_SEVERITY[drift.action] > ACTION_SEVERITY[worst] ? drift.action : worst,
+    'none'
+  );
+
+  return {
+    ruc,
+    configurationId: stored.configuration_id,
+    checkedAt: new Date().toISOString(),
+    drifts,
+    action,
+  };
+};
+
+// ============================================================================
+// DRIFT CHECKER
+// ============================================================================
+
+/**
+ * Fetches the live profile, compares it with the cache and applies the drift policy
+ */
+export class ConfigurationDriftChecker {
+  private readonly policy: DriftPolicy;
+  private readonly events: CacheEventBus | undefined;
+  private readonly logger: Logger;
+
+  constructor(
+    private readonly session: Pick<SessionManager, 'execute'>,
+    private readonly configAgent: Pick<
+      ConfigurationAgent,
+      'getCachedConfiguration' | 'rebuildFromProfile' | 'holdForDrift' | 'releaseDriftHold'
+    >,
+    private readonly api: EkuatiaApiService = new EkuatiaApiService(),
+    options: DriftCheckerOptions = {}
+  ) {
+    this.policy = { ...DEFAULT_DRIFT_POLICY, ...options.policy };
+    this.events = options.events;
+    this.logger = options.logger ?? getLogger().child('drift');
+  }
+
+  /**
+   * Check the cached configuration against /perfil and act on the result
+   * Blocking drift, and refresh drift until the rebuilt configuration is saved, place a hold that
+   * ConfigurationAgent will not serve past; the hold is released once nothing enforceable drifts
+   *
+   * @param ruc - RUC without DV
+   * @returns The report and the configuration to use
+   * @throws {ConfigurationError} CONFIGURATION_DRIFT when a blocking field drifted, or when the
+   * configuration rebuilt from the live profile still differs from it
+   * @throws {ConfigurationError} MULTIPLE_ESTABLISHMENTS or CSC_INVALID from the rebuild
+   */
+  async check(ruc: RucWithoutDV): Promise<DriftCheckResult> {
+    const stored = await this.configAgent.getCachedConfiguration(ruc);
+    if (!stored) {
+      return { report: null, configuration: null, refreshed: false };
+    }
+
+    const live = await this.session.execute((token) => this.api.getProfile(token));
+    const report = detectConfigurationDrift(ruc, stored, live, this.policy);
+    const cached: ConfigurationResult = {
+      configurationId: stored.configuration_id,
+      config: stored.config,
+      fromCache: true,
+      completedSteps: [],
+    };
+
+    switch (report.action) {
+      case 'none':
+      case 'warn':
+        if (report.action === 'warn') {
+          this.logger.warn('Issuer configuration drift detected', { ...report });
+        }
+        if (stored.drift_hold) {
+          await this.configAgent.releaseDriftHold(ruc);
+        }
+        return { report, configuration: cached, refreshed: false };
+
+      case 'block': {
+        const fields = report.drifts
+          .filter((drift) => drift.action === 'block')
+          .map((drift) => drift.field);
+        await this.configAgent.holdForDrift(ruc, fields, 'drift_check');
+        await this.publish(report);
+        this.logger.error('Blocking issuer configuration drift', { ...report });
+        throw new ConfigurationError(
+          `La configuración en caché no coincide con Marangatu: ${fields.join(', ')}`,
+          'CONFIGURATION_DRIFT',
+          { ruc, configStep: 'drift_check', invalidFields: fields }
+        );
+      }
+
+      case 'refresh': {
+        this.logger.info('Rebuilding issuer configuration after drift', { ...report });
+        const fields = report.drifts
+          .filter((drift) => drift.action === 'refresh')
+          .map((drift) => drift.field);
+        // Held first: if the rebuild fails, the stale configuration stays unusable
+        await this.configAgent.holdForDrift(ruc, fields, 'drift_refresh');
+        const configuration = await this.configAgent.rebuildFromProfile(ruc, live, stored.config);
+        await this.assertRefreshed(ruc, configuration, live);
+        await this.publish(report);
+        return { report, configuration, refreshed: true };
+      }
+    }
+  }
+
+  /**
+   * A rebuilt configuration that still differs from the live profile must not be used
+   */
+  private async assertRefreshed(
+    ruc: RucWithoutDV,
+    configuration: ConfigurationResult,
+    live: ProfileResponse
+  ): Promise<void> {
+    const remaining = detectConfigurationDrift(
+      ruc,
+      {
+        configuration_id: configuration.configurationId,
+        config: configuration.config,
+        saved_timestamp: new Date().toISOString(),
+        establishment_data: live.establishment_data,
+      },
+      live,
+      this.policy
+    ).drifts.filter((drift) => drift.action !== 'warn');
+    if (remaining.length === 0) {
+      return;
+    }
+
+    const fields = remaining.map((drift) => drift.field);
+    await this.configAgent.holdForDrift(ruc, fields, 'drift_refresh');
+    this.logger.error('Configuration still drifted after refresh', { ruc, fields });
+    throw new ConfigurationError(
+      `La configuración reconstruida sigue sin coincidir con Marangatu: ${fields.join(', ')}`,
+      'CONFIGURATION_DRIFT',
+      { ruc, configStep: 'drift_refresh', invalidFields: fields }
+    );
+  }
+
+  /**
+   * Announce the enforced drifts; warn-only fields are not published, since
+   * cache bindings would drop a configuration the policy keeps using
+   */
+  private async publish(report: DriftReport): Promise<void> {
+    for (const drift of report.drifts.filter((entry) => entry.action !== 'warn')) {
+      await this.events?.publish({
+        trigger: DRIFT_TRIGGERS[drift.field],
+        ruc: report.ruc,
+        field: drift.field,
+        ...(drift.cachedValue === undefined ? {} : { previousValue: drift.cachedValue }),
+        ...(drift.liveValue === undefined ? {} : { currentValue: drift.liveValue }),
+        reason: `Deriva de configuración en ${drift.field} (acción: ${drift.action})`,
+        source: 'drift',
+      });
+    }
+  }
+}
@@ -0,0 +1,399 @@
+/**
+ * PURPOSE: Build the POST /documento/crear payload from InvoiceData and the issuer configuration, and submit it
+ *
+ * REASONING:
+ * - The payload mixes caller data (receptor, items) with issuer data the caller must not retype
+ * - Timbrado, establishment and dispatch point always come from the saved EkuatiaConfig
+ * - An invoice naming another establishment or dispatch point would be issued under the wrong series
+ * - Group-dependent blocks (DNCP) are checked against the configuration while building
+ * - A single builder keeps the guide's payload shape in one place
+ * - Posting goes through the submission ledger, so a retry after a lost response cannot issue it twice
+ * - A lost response is only retried when a document search can tell whether it was registered
+ *
+ * AGENT DECISION PROCESS:
+ * - Requirements analyzed from "Invoice Creation Payload Structure" and EkuatiaInvoiceAgent in the guide
+ * - Considered: building the payload inline at submission vs a standalone pure builder
+ * - Selected a pure builder used by InvoiceAgent, so the exact payload can be inspected before it is sent
+ * - Implementation constraints: The result is checked against invoiceCreationPayloadSchema
+ */
+
+import {
+  invoiceCreationPayloadSchema,
+  type EkuatiaConfig,
+  type InvoiceCreationPayload,
+  type InvoiceData,
+} from '../types/ekuatia';
+import type { DocumentId, RucWithoutDV } from '../types/common';
+import { EkuatiaBaseError, InvoiceCreationError } from '../types/errors';
+import type { RetryConfig } from '../types/common';
+import { EkuatiaApiService } from '../services/api';
+import {
+  DEFAULT_CONFIRMATION_LOG_PATH,
+  JsonLinesConfirmationLog,
+  renderInvoiceSummary,
+  requireConfirmation,
+  type ConfirmationLog,
+  type ConfirmationProvider,
+  type ConfirmationRecord,
+} from '../services/confirmation';
+import {
+  SubmissionLedger,
+  classifySubmissionFailure,
+  type DocumentLookupResult,
+  type DocumentSearch,
+  type SubmissionEntry,
+} from '../services/ledger';
+import { getLogger, type Logger } from '../services/logger';
+import type { SessionManager } from '../services/session';
+import { resolveDncpData } from '../utils/dncp';
+import { hashCanonical } from '../utils/hash';
+import { resolveInvoiceTotals } from '../utils/iva';
+import { DEFAULT_RETRY_CONFIG, createRetryExecutor, isRetryableFailure } from '../utils/retry';
+import { parseReceptorRuc } from '../utils/ruc';
+import { formatValidationErrors, parseWithSchema } from '../utils/validation';
+import type { ConfigurationAgent } from './config';
+import type { ConfigurationDriftChecker } from './drift';
+import type { TimbradoStatus, TimbradoTracker } from './timbrado';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Outcome of a submitted invoice
+ */
+export interface InvoiceResult {
+  documentoId: DocumentId;
+  /** Código de Control */
+  cdc: string;
+  /** Issuance date as registered (falls back to the invoice date) */
+  fechaEmision: string;
+  /** Payload that was sent */
+  payload: InvoiceCreationPayload;
+  /** Accepted confirmation (absent when the payload was already registered) */
+  confirmation?: ConfirmationRecord;
+  /** The ledger found this payload already registered; nothing was posted */
+  alreadyRegistered: boolean;
+  /** Today's timbrado state when a tracker is configured ("expiring" carries the days left) */
+  timbrado?: TimbradoStatus;
+}
+
+/**
+ * Options for constructing an InvoiceAgent
+ */
+export interface InvoiceAgentOptions {
+  /** Compares the cached configuration with the live profile before each invoice */
+  driftChecker?: Pick<ConfigurationDriftChecker, 'check'>;
+  /** Timbrado tracker used to reject invoices dated outside the validity window */
+  timbrado?: TimbradoTracker;
+  /** Records every confirmation decision (defaults to DEFAULT_CONFIRMATION_LOG_PATH) */
+  confirmationLog?: ConfirmationLog;
+  /** Ledger guarding against posting the same payload twice (defaults to DEFAULT_LEDGER_DIRECTORY) */
+  ledger?: SubmissionLedger;
+  /** Finds a document whose response was lost; without it such failures are not retried */
+  documentSearch?: DocumentSearch;
+  /** Retry policy for submissions; every attempt goes through the ledger */
+  retry?: RetryConfig;
+  /** Logger (defaults to the shared logger) */
+  logger?: Logger;
+}
+
+// ============================================================================
+// ISSUER OVERRIDES
+// ============================================================================
+
+/**
+ * Reject establishment or dispatch-point values that differ from the configuration
+ *
+ * @throws {InvoiceCreationError} ISSUER_DATA_CONFLICT
+ */
+export const assertIssuerOverrides = (
+  invoice: Pick<InvoiceData, 'establecimiento' | 'punto_expedicion' | 'receptor_ruc'>,
+  config: EkuatiaConfig
+): void => {
+  const conflicts: Record<string, string[]> = {};
+  for (const field of ['establecimiento', 'punto_expedicion'] as const) {
+    const requested = invoice[field];
+    const configured = config.issuer_data[field];
+    if (requested !== undefined && requested !== configured) {
+      conflicts[field] = [`La configuración usa ${configured}, la factura indica ${requested}`];
+    }
+  }
+  if (Object.keys(conflicts).length > 0) {
+    throw new InvoiceCreationError(
+      `La factura no coincide con la configuración del emisor: ${Object.keys(conflicts).join(', ')}`,
+      'ISSUER_DATA_CONFLICT',
+      { rucReceptor: invoice.receptor_ruc, validationErrors: conflicts }
+    );
+  }
+};
+
+// ============================================================================
+// PAYLOAD BUILDER
+// ============================================================================
+
+/**
+ * Merge invoice data with the issuer configuration into the creation payload
+ * Item amounts and the resumen are the ones recalculated by calculateInvoiceTaxes
+ *
+ * @param invoice - Caller-supplied invoice data
+ * @param config - Active issuer configuration
+ * @param rucEmisor - Issuer RUC without DV
+ * @throws {InvoiceCreationError} INVALID_RUC, ISSUER_DATA_CONFLICT, MONTO_NEGATIVO, MONTO_INCONSISTENTE,
+ * DNCP_* codes from resolveDncpData, SYSTEM_ERROR on a malformed result
+ */
+export const buildInvoicePayload = (
+  invoice: InvoiceData,
+  config: EkuatiaConfig,
+  rucEmisor: RucWithoutDV
+): InvoiceCreationPayload => {
+  assertIssuerOverrides(invoice, config);
+  const rucReceptor = parseReceptorRuc(invoice);
+  const issuer = config.issuer_data;
+  const { items, resumen } = resolveInvoiceTotals(invoice);
+  const dncp = resolveDncpData(invoice, config);
+
+  const payload: InvoiceCreationPayload = {
+    metadatos: {
+      ruc_emisor: rucEmisor,
+      numero_timbrado: issuer.numero_timbrado,
+      punto_expedicion: issuer.punto_expedicion,
+      establecimiento: issuer.establecimiento,
+      fecha_emision: invoice.fecha,
+      tipo_documento: invoice.tipo_documento ?? issuer.tipo_documento,
+    },
+    datos_emisor: {
+      razon_social: config.razon_social,
+      actividad_economica: issuer.actividad_economica,
+      direccion: config.direccion,
+    },
+    datos_receptor: {
+      ruc_receptor: rucReceptor,
+      razon_social_receptor: invoice.receptor_nombre,
+      direccion_receptor: invoice.receptor_direccion ?? '',
+    },
+    detalles_factura: {
+      items,
+      resumen,
+    },
+    observaciones: invoice.observaciones ?? '',
+    ...(dncp ? { datos_dncp: dncp } : {}),
+  };
+
+  const parsed = parseWithSchema(invoiceCreationPayloadSchema, payload);
+  if (!parsed.success) {
+    throw new InvoiceCreationError(
+      `Payload de factura incompleto: ${formatValidationErrors(parsed.error)}`,
+      'SYSTEM_ERROR',
+      { rucReceptor: invoice.receptor_ruc, validationErrors: parsed.error.errors }
+    );
+  }
+  return parsed.data;
+};
+
+/**
+ * Hash identifying a payload in confirmations (canonical JSON, so key order does not matter)
+ */
+export const invoicePayloadHash = (payload: InvoiceCreationPayload): string =>
+  hashCanonical(payload);
+
+// ============================================================================
+// AGENT
+// ============================================================================
+
+/**
+ * Issues invoices against the saved configuration of a RUC
+ */
+export class InvoiceAgent {
+  private readonly driftChecker: Pick<ConfigurationDriftChecker, 'check'> | undefined;
+  private readonly timbrado: TimbradoTracker | undefined;
+  private readonly confirmationLog: ConfirmationLog;
+  private readonly ledger: SubmissionLedger;
+  private readonly documentSearch: DocumentSearch | undefined;
+  private readonly retry: ReturnType<typeof createRetryExecutor>;
+  private readonly logger: Logger;
+
+  constructor(
+    private readonly session: Pick<SessionManager, 'execute'>,
+    private readonly configAgent: Pick<ConfigurationAgent, 'ensureConfigured'>,
+    private readonly confirmation: ConfirmationProvider,
+    private readonly api: EkuatiaApiService = new EkuatiaApiService(),
+    options: InvoiceAgentOptions = {}
+  ) {
+    this.driftChecker = options.driftChecker;
+    this.timbrado = options.timbrado;
+    this.confirmationLog =
+      options.confirmationLog ?? new JsonLinesConfirmationLog(DEFAULT_CONFIRMATION_LOG_PATH);
+    this.logger = options.logger ?? getLogger().child('invoice');
+    this.ledger = options.ledger ?? new SubmissionLedger({ logger: this.logger });
+    this.documentSearch = options.documentSearch;
+    this.retry = createRetryExecutor(options.retry ?? DEFAULT_RETRY_CONFIG, {
+      // Retrying an uncertain POST only helps when the next attempt can find the document
+      shouldRetry: (error, config) =>
+        isRetryableFailure(error, config) &&
+        (this.documentSearch !== undefined || classifySubmissionFailure(error) !== 'uncertain'),
+    });
+  }
+
+  /**
+   * Build the payload for an invoice without submitting it
+   *
+   * @param ruc - Issuer RUC without DV
+   * @param invoice - Caller-supplied invoice data
+   * @throws {InvoiceCreationError} TIMBRADO_EXPIRED, FECHA_INVALIDA, ISSUER_DATA_CONFLICT,
+   * MONTO_* or DNCP_* codes
+   * @throws {ConfigurationError} The issuer could not be configured, or CONFIGURATION_DRIFT when
+   * the configuration no longer matches Marangatu
+   */
+  async preparePayload(ruc: RucWithoutDV, invoice: InvoiceData): Promise<InvoiceCreationPayload> {
+    return (await this.prepare(ruc, invoice)).payload;
+  }
+
+  /**
+   * Build the payload, obtain confirmation for it and submit it to /documento/crear
+   * A payload the ledger already saw registered is returned without asking or posting again
+   *
+   * @param ruc - Issuer RUC without DV
+   * @param invoice - Caller-supplied invoice data
+   * @returns Document identifier and CDC assigned by Ekuatia
+   * @throws {InvoiceCreationError} CONFIRMATION_REJECTED, SUBMISSION_UNCERTAIN, DOCUMENTO_DUPLICADO,
+   * or see preparePayload
+   * @throws {AuthenticationError} Session could not be established
+   * @throws The POST failure itself when the response was lost and no document search is configured
+   */
+  async createInvoice(ruc: RucWithoutDV, invoice: InvoiceData): Promise<InvoiceResult> {
+    const { payload, timbrado } = await this.prepare(ruc, invoice);
+    const payloadHash = invoicePayloadHash(payload);
+    const lookup = (entry: SubmissionEntry) => this.lookupDocument(entry, payload);
+
+    const registered = await this.ledger.reconcile(payloadHash, lookup);
+    if (registered) {
+      this.logger.info('Invoice already registered; not posting again', {
+        ruc,
+        documentoId: registered.documento_id,
+        payloadHash,
+      });
+      return {
+        documentoId: registered.documento_id,
+        cdc: registered.cdc,
+        fechaEmision: registered.fecha_emision ?? payload.metadatos.fecha_emision,
+        payload,
+        alreadyRegistered: true,
+        ...(timbrado ? { timbrado } : {}),
+      };
+    }
+
+    const confirmation = await requireConfirmation(
+      this.confirmation,
+      { ruc, payload, payloadHash, summary: renderInvoiceSummary(payload, payloadHash) },
+      this.confirmationLog,
+      this.logger
+    );
+
+    const { document, reused } = await this.retry(() =>
+      this.ledger.submit(
+        { ruc, payload, payloadHash },
+        (body) => this.session.execute((token) => this.api.createDocument(token, body)),
+        lookup
+      )
+    );
+
+    this.logger.info(reused ? 'Invoice found registered on retry' : 'Invoice created', {
+      ruc,
+      documentoId: document.documento_id,
+      tipoDocumento: payload.metadatos.tipo_documento,
+      approvedBy: confirmation.approvedBy,
+    });
+    return {
+      documentoId: document.documento_id,
+      cdc: document.cdc,
+      fechaEmision: document.fecha_emision ?? payload.metadatos.fecha_emision,
+      payload,
+      confirmation,
+      alreadyRegistered: reused,
+      ...(timbrado ? { timbrado } : {}),
+    };
+  }
+
+  /**
+   * Drift check, configuration and timbrado checks, then the payload
+   */
+  private async prepare(
+    ruc: RucWithoutDV,
+    invoice: InvoiceData
+  ): Promise<{ payload: InvoiceCreationPayload; timbrado: TimbradoStatus | null }> {
+    await this.driftChecker?.check(ruc);
+    const { config } = await this.configAgent.ensureConfigured(ruc);
+    const timbrado = await this.checkTimbrado(ruc, config, invoice);
+    return { payload: buildInvoicePayload(invoice, config, ruc), timbrado };
+  }
+
+  /**
+   * Ask Ekuatia for a ledger entry's document by documento_id, or the document search without one
+   * With neither the outcome stays unknown: Ekuatia cannot be queried by payload
+   */
+  private async lookupDocument(
+    entry: SubmissionEntry,
+    payload: InvoiceCreationPayload
+  ): Promise<DocumentLookupResult> {
+    const documentId = entry.documento_id;
+    if (!documentId) {
+      return this.searchDocument(entry, payload);
+    }
+    try {
+      const document = await this.session.execute((token) =>
+        this.api.getDocument(token, documentId)
+      );
+      return {
+        status: 'found',
+        document: {
+          documento_id: document.documento_id,
+          cdc: document.cdc,
+          fecha_emision: document.fecha_emision,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof EkuatiaBaseError && error.context?.statusCode === '404') {
+        return { status: 'not_found' };
+      }
+      this.logger.warn('Could not look up submitted document', { documentId, error });
+      return { status: 'unknown' };
+    }
+  }
+
+  private async searchDocument(
+    entry: SubmissionEntry,
+    payload: InvoiceCreationPayload
+  ): Promise<DocumentLookupResult> {
+    if (!this.documentSearch) {
+      return { status: 'unknown' };
+    }
+    try {
+      return await this.documentSearch(payload, entry);
+    } catch (error: unknown) {
+      this.logger.warn('Document search failed', { payloadHash: entry.payloadHash, error });
+      return { status: 'unknown' };
+    }
+  }
+
+  /**
+   * Track the configured timbrado (unless already tracked), check today's state (warning or
+   * announcing expiry) and then the invoice date, so expiry is announced even for a rejected invoice
+   */
+  private async checkTimbrado(
+    ruc: RucWithoutDV,
+    config: EkuatiaConfig,
+    invoice: InvoiceData
+  ): Promise<TimbradoStatus | null> {
+    if (!this.timbrado) {
+      return null;
+    }
+    const window = await this.timbrado.getWindow(ruc);
+    if (window?.numero_timbrado !== config.issuer_data.numero_timbrado) {
+      await this.timbrado.track(ruc, config);
+    }
+    const status = await this.timbrado.check(ruc);
+    await this.timbrado.assertInvoiceDate(ruc, invoice);
+    return status;
+  }
+}
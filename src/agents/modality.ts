@@ -0,0 +1,136 @@
+/**
+ * PURPOSE: Modality decision engine (BASICA vs AVANZADA) and advanced-group validation
+ *
+ * REASONING:
+ * - AVANZADA only pays off when an advanced group is actually needed, today only DNCP data
+ * - Operators must be able to see why a modality was picked, so every decision lists its reasons
+ * - sector_supermercados is documented as unavailable but the schema happily accepts it
+ * - Groups sent with BASICA are silently ignored by Ekuatia, hiding a caller mistake
+ *
+ * AGENT DECISION PROCESS:
+ * - Requirements analyzed from the Step 2.3 modality table and the GruposUtilizables notes
+ * - Considered: a rule table with weights vs explicit checks per declared fact
+ * - Selected explicit checks since there are two modalities and one usable group
+ * - Implementation constraints: Unavailable groups are refused, never dropped behind the caller's back
+ */
+
+import type { GruposUtilizables, ModalityType } from '../types/ekuatia';
+import { ConfigurationError } from '../types/errors';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Business facts declared by the taxpayer before configuration
+ */
+export interface BusinessFacts {
+  /** Bills government agencies under DNCP public procurement contracts */
+  hasPublicProcurementContracts: boolean;
+  /** Operates in the supermarket sector */
+  isSupermarket?: boolean;
+}
+
+/**
+ * Recommended modality with the groups to enable and the reasoning behind it
+ */
+export interface ModalityRecommendation {
+  modality: ModalityType;
+  /** Groups to enable (only present for AVANZADA) */
+  grupos_utilizables?: GruposUtilizables;
+  /** Explanation of the decision, one sentence per fact considered */
+  reasons: string[];
+}
+
+/**
+ * Advanced group name
+ */
+export type GroupName = keyof GruposUtilizables;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Groups that cannot be enabled in the current implementation */
+export const UNAVAILABLE_GROUPS: readonly GroupName[] = ['sector_supermercados'];
+
+// ============================================================================
+// RECOMMENDATION
+// ============================================================================
+
+/**
+ * Recommend a modality from declared business facts
+ * Unavailable groups are never enabled; the reasons say so instead
+ */
+export const recommendModality = (facts: BusinessFacts): ModalityRecommendation => {
+  const reasons: string[] = [];
+
+  if (facts.isSupermarket) {
+    reasons.push(
+      'El grupo sector supermercados no está disponible en esta implementación; no se habilita'
+    );
+  }
+
+  if (facts.hasPublicProcurementContracts) {
+    reasons.push(
+      'Tiene contratos de compras públicas: AVANZADA habilita el grupo de informaciones DNCP'
+    );
+    return {
+      modality: 'AVANZADA',
+      grupos_utilizables: { informaciones_compras_publicas: true },
+      reasons,
+    };
+  }
+
+  reasons.push('No necesita grupos avanzados: BASICA cubre la facturación estándar');
+  return { modality: 'BASICA', reasons };
+};
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Groups switched on in a GruposUtilizables object
+ */
+export const enabledGroups = (grupos: GruposUtilizables | undefined): GroupName[] =>
+  grupos ? (Object.keys(grupos) as GroupName[]).filter((group) => grupos[group] === true) : [];
+
+/**
+ * Ensure the requested groups are allowed for the modality
+ *
+ * @param modality - Modality being configured
+ * @param grupos - Requested advanced groups
+ * @param ruc - RUC for the error context
+ * @throws {ConfigurationError} GROUPS_REQUIRE_AVANZADA when groups are sent without AVANZADA
+ * @throws {ConfigurationError} GROUP_UNAVAILABLE when an unavailable group is enabled
+ */
+export const assertModalityGroups = (
+  modality: ModalityType,
+  grupos: GruposUtilizables | undefined,
+  ruc?: string
+): void => {
+  if (grupos === undefined) {
+    return;
+  }
+  if (modality !== 'AVANZADA') {
+    throw new ConfigurationError(
+      `grupos_utilizables solo se admite con la modalidad AVANZADA (solicitada: ${modality})`,
+      'GROUPS_REQUIRE_AVANZADA',
+      { ruc, configStep: '2.3', invalidFields: ['grupos_utilizables'] }
+    );
+  }
+
+  const unavailable = enabledGroups(grupos).filter((group) => UNAVAILABLE_GROUPS.includes(group));
+  if (unavailable.length > 0) {
+    throw new ConfigurationError(
+      `Grupos no disponibles: ${unavailable.join(', ')}`,
+      'GROUP_UNAVAILABLE',
+      {
+        ruc,
+        configStep: '2.3',
+        invalidFields: unavailable.map((group) => `grupos_utilizables.${group}`),
+      }
+    );
+  }
+};
@@ -0,0 +1,365 @@
+/**
+ * PURPOSE: Configuration-change proposals with a field-level diff and an approval token
+ *
+ * REASONING:
+ * - The guide's requestConfigurationConfirmation dumps two JSON blobs the reader must compare by eye
+ * - A reviewer needs each changed field with its old and new value, plus what the change affects
+ * - The approval token is a hash of the proposal as shown, so an edited proposal cannot be saved
+ * - The CSC is a secret and is masked in every rendering
+ *
+ * AGENT DECISION PROCESS:
+ * - Requirements analyzed from the guide's "CONFIGURATION MODIFICATION REQUEST" prompt
+ * - Considered: a yes/no callback vs returning a token that binds the approval to the content
+ * - Selected the token so the save step can prove which proposal was approved
+ * - Implementation constraints: Proposals never save; ConfigurationAgent.applyProposal does
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { EkuatiaConfig, IssuerData } from '../types/ekuatia';
+import type { RucWithoutDV } from '../types/common';
+import { ConfigurationError } from '../types/errors';
+import { getLogger, type Logger } from '../services/logger';
+import { hashCanonical } from '../utils/hash';
+import { describeLogo, logoFingerprint } from '../utils/logo';
+import type {
+  ConfigurationAgent,
+  ConfigurationChangeRequest,
+  ConfigurationChanges,
+  ConfigurationResult,
+} from './config';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * One changed field, addressed by dotted path (e.g. "issuer_data.tipo_documento")
+ */
+export interface ConfigurationFieldChange {
+  field: string;
+  previous: unknown;
+  proposed: unknown;
+  /** What the change affects, for sensitive fields */
+  impact?: string;
+}
+
+/**
+ * A change to the saved configuration, ready to be shown and approved
+ */
+export interface ConfigurationProposal {
+  id: string;
+  ruc: RucWithoutDV;
+  createdAt: string;
+  reason: string;
+  source: string;
+  /** Configuration the proposal was built against */
+  current: EkuatiaConfig;
+  /** Configuration that will be saved when approved */
+  proposed: EkuatiaConfig;
+  /** Changed fields (secret values masked) */
+  changes: ConfigurationFieldChange[];
+  /** Hash of the proposal content; returned by the approver to confirm */
+  approvalToken: string;
+}
+
+/**
+ * Rendering used when presenting a proposal
+ */
+export type ProposalFormat = 'text' | 'json';
+
+/**
+ * Presents a proposal and returns the approval token, or null when rejected
+ */
+export type ProposalConfirmation = (
+  proposal: ConfigurationProposal,
+  rendered: string
+) => Promise<string | null>;
+
+/**
+ * Options for constructing a ConfigurationProposalFlow
+ */
+export interface ConfigurationProposalFlowOptions {
+  /** Rendering passed to the confirmation callback (defaults to text) */
+  format?: ProposalFormat;
+  /** Logger (defaults to the shared logger) */
+  logger?: Logger;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Impact notes for fields whose change affects later invoices
+ */
+export const FIELD_IMPACT_NOTES: Readonly<Record<string, string>> = {
+  modality: 'Cambia los campos disponibles y los grupos utilizables de la configuración',
+  'issuer_data.tipo_documento':
+    'Cambia el tipo de documento por defecto de todas las facturas posteriores',
+  'issuer_data.establecimiento':
+    'El sistema solo admite el establecimiento 1; otro valor impide emitir facturas',
+  'issuer_data.punto_expedicion':
+    'El sistema solo admite el punto de expedición 1; otro valor impide emitir facturas',
+  'issuer_data.numero_timbrado': 'Las facturas posteriores se emitirán con otro timbrado',
+  'issuer_data.codigo_seguridad_contribuyente':
+    'Cambia el código de seguridad usado en todos los documentos',
+  'grupos_utilizables.informaciones_compras_publicas':
+    'Las facturas pasarán a exigir o a rechazar los datos DNCP',
+};
+
+/** Fields whose values are never shown */
+const SECRET_FIELDS = new Set(['issuer_data.codigo_seguridad_contribuyente']);
+
+/** Inline logo data is compared by content hash and shown as a summary */
+const LOGO_FIELD = 'logo';
+
+const MASK = '********';
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Apply changes to a configuration; issuer_data and grupos_utilizables are merged field by field
+ */
+export const applyConfigurationChanges = (
+  current: EkuatiaConfig,
+  changes: ConfigurationChanges
+): EkuatiaConfig => {
+  const issuerData: IssuerData = { ...current.issuer_data, ...changes.issuer_data };
+  const proposed: EkuatiaConfig = { ...current, ...changes, issuer_data: issuerData };
+  if (changes.grupos_utilizables && current.grupos_utilizables) {
+    proposed.grupos_utilizables = { ...current.grupos_utilizables, ...changes.grupos_utilizables };
+  }
+  return proposed;
+};
+
+/**
+ * List every leaf field that differs between two configurations
+ */
+export const diffConfiguration = (
+  current: EkuatiaConfig,
+  proposed: EkuatiaConfig
+): ConfigurationFieldChange[] => {
+  const changes: ConfigurationFieldChange[] = [];
+
+  const walk = (previous: unknown, next: unknown, path: string): void => {
+    if (isPlainObject(previous) && isPlainObject(next)) {
+      const keys = [...new Set([...Object.keys(previous), ...Object.keys(next)])].sort();
+      for (const key of keys) {
+        walk(previous[key], next[key], path ? `${path}.${key}` : key);
+      }
+      return;
+    }
+    if (path === LOGO_FIELD) {
+      const [before, after] = [
+        previous as string | null | undefined,
+        next as string | null | undefined,
+      ];
+      if (logoFingerprint(before) !== logoFingerprint(after)) {
+        changes.push({
+          field: path,
+          previous: describeLogo(before),
+          proposed: describeLogo(after),
+        });
+      }
+      return;
+    }
+    if (hashCanonical(previous ?? null) === hashCanonical(next ?? null)) {
+      return;
+    }
+    const secret = SECRET_FIELDS.has(path);
+    changes.push({
+      field: path,
+      previous: secret ? MASK : (previous ?? null),
+      proposed: secret ? MASK : (next ?? null),
+      ...(FIELD_IMPACT_NOTES[path] ? { impact: FIELD_IMPACT_NOTES[path] } : {}),
+    });
+  };
+
+  walk(current, proposed, '');
+  return changes;
+};
+
+// ============================================================================
+// PROPOSALS
+// ============================================================================
+
+/**
+ * Token binding an approval to the proposal content
+ */
+export const computeApprovalToken = (
+  proposal: Omit<ConfigurationProposal, 'approvalToken'>
+): string =>
+  hashCanonical({
+    id: proposal.id,
+    ruc: proposal.ruc,
+    createdAt: proposal.createdAt,
+    reason: proposal.reason,
+    source: proposal.source,
+    current: proposal.current,
+    proposed: proposal.proposed,
+    changes: proposal.changes,
+  });
+
+/**
+ * Build a proposal from a change request and the active configuration
+ */
+export const createConfigurationProposal = (
+  request: ConfigurationChangeRequest,
+  current: EkuatiaConfig
+): ConfigurationProposal => {
+  const proposed = applyConfigurationChanges(current, request.changes);
+  const content = {
+    id: randomUUID(),
+    ruc: request.ruc,
+    createdAt: new Date().toISOString(),
+    reason: request.reason,
+    source: request.source,
+    current,
+    proposed,
+    changes: diffConfiguration(current, proposed),
+  };
+  return { ...content, approvalToken: computeApprovalToken(content) };
+};
+
+/**
+ * Ensure the token was issued for this exact proposal
+ *
+ * @throws {ConfigurationError} PROPOSAL_NOT_APPROVED when the token or the content does not match
+ */
+export const verifyApprovalToken = (proposal: ConfigurationProposal, token: string): void => {
+  const expected = computeApprovalToken(proposal);
+  if (token !== expected || proposal.approvalToken !== expected) {
+    throw new ConfigurationError(
+      `El token de aprobación no corresponde a la propuesta ${proposal.id}`,
+      'PROPOSAL_NOT_APPROVED',
+      { ruc: proposal.ruc, configStep: 'proposal', invalidFields: ['approvalToken'] }
+    );
+  }
+};
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+const formatValue = (value: unknown): string =>
+  typeof value === 'string' ? value : JSON.stringify(value);
+
+/**
+ * Plain-text rendering for a terminal confirmation
+ */
+export const renderProposalText = (proposal: ConfigurationProposal): string => {
+  const lines = [
+    '=== SOLICITUD DE MODIFICACIÓN DE CONFIGURACIÓN ===',
+    `Propuesta: ${proposal.id}`,
+    `RUC: ${proposal.ruc}`,
+    `Origen: ${proposal.source}`,
+    `Motivo: ${proposal.reason}`,
+    '',
+    'Cambios:',
+  ];
+  for (const change of proposal.changes) {
+    lines.push(
+      `  - ${change.field}: ${formatValue(change.previous)} -> ${formatValue(change.proposed)}`
+    );
+    if (change.impact) {
+      lines.push(`      Impacto: ${change.impact}`);
+    }
+  }
+  lines.push(
+    '',
+    'ADVERTENCIA: los cambios afectan a todas las facturas emitidas a partir de ahora.',
+    `Token de aprobación: ${proposal.approvalToken}`
+  );
+  return lines.join('\n');
+};
+
+/**
+ * JSON rendering for automated review (configurations are omitted, secrets stay masked)
+ */
+export const renderProposalJson = (proposal: ConfigurationProposal): string =>
+  JSON.stringify(
+    {
+      id: proposal.id,
+      ruc: proposal.ruc,
+      createdAt: proposal.createdAt,
+      source: proposal.source,
+      reason: proposal.reason,
+      changes: proposal.changes,
+      approvalToken: proposal.approvalToken,
+    },
+    null,
+    2
+  );
+
+/**
+ * Render a proposal in the requested format
+ */
+export const renderProposal = (
+  proposal: ConfigurationProposal,
+  format: ProposalFormat = 'text'
+): string => (format === 'json' ? renderProposalJson(proposal) : renderProposalText(proposal));
+
+// ============================================================================
+// CONFIRMATION FLOW
+// ============================================================================
+
+/**
+ * Turns change requests into proposals, asks for approval and saves approved ones
+ */
+export class ConfigurationProposalFlow {
+  private readonly format: ProposalFormat;
+  private readonly logger: Logger;
+
+  constructor(
+    private readonly configAgent: Pick<
+      ConfigurationAgent,
+      'getCachedConfiguration' | 'applyProposal'
+    >,
+    private readonly confirm: ProposalConfirmation,
+    options: ConfigurationProposalFlowOptions = {}
+  ) {
+    this.format = options.format ?? 'text';
+    this.logger = options.logger ?? getLogger().child('proposal');
+  }
+
+  /**
+   * Handle a change request (usable as a ConfigurationChangeHandler)
+   *
+   * @returns The saved configuration, or null when nothing changed or the proposal was rejected
+   * @throws {ConfigurationError} PROPOSAL_STALE when no configuration is cached
+   */
+  readonly handle = async (
+    request: ConfigurationChangeRequest
+  ): Promise<ConfigurationResult | null> => {
+    const stored = await this.configAgent.getCachedConfiguration(request.ruc);
+    if (!stored) {
+      throw new ConfigurationError(
+        `No hay configuración guardada para el RUC ${request.ruc}`,
+        'PROPOSAL_STALE',
+        { ruc: request.ruc, configStep: 'proposal' }
+      );
+    }
+
+    const proposal = createConfigurationProposal(request, stored.config);
+    if (proposal.changes.length === 0) {
+      this.logger.debug('Change request matches the saved configuration', { ruc: request.ruc });
+      return null;
+    }
+
+    const token = await this.confirm(proposal, renderProposal(proposal, this.format));
+    if (token === null) {
+      this.logger.info('Configuration proposal rejected', {
+        ruc: request.ruc,
+        proposalId: proposal.id,
+        fields: proposal.changes.map((change) => change.field),
+      });
+      return null;
+    }
+    return this.configAgent.applyProposal(request.ruc, proposal, token);
+  };
+}
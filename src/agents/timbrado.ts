@@ -0,0 +1,353 @@
+/**
+ * PURPOSE: Track the validity window of the active timbrado and pre-check invoice dates against it
+ *
+ * REASONING:
+ * - Today an expired timbrado is only discovered when DNIT rejects an invoice
+ * - The window starts at fecha_inicio_vigencia; its end is either recorded or derived from a validity
+ *   period, so every tracked timbrado can expire
+ * - Operators need a warning days before expiry, not on the day invoices start failing
+ * - Expiry is announced on the cache event bus so the stale configuration is dropped
+ * - Windows are kept in a CacheService directory so a recorded end date, the expiry warnings and
+ *   whether expiry was already announced survive a restart
+ *
+ * AGENT DECISION PROCESS:
+ * - Requirements analyzed from TIMBRADO_EXPIRED and the timbrado_expiration invalidation trigger
+ * - Considered: checking only at submission vs a tracker queried before building the payload
+ * - Selected a tracker so the same window serves pre-checks, warnings and expiry events
+ * - Implementation constraints: Dates are Asunción calendar days, both window ends inclusive
+ */
+
+import { z } from 'zod';
+import type { CacheKey } from '../types/common';
+import type { EkuatiaConfig, InvoiceData } from '../types/ekuatia';
+import { InvoiceCreationError } from '../types/errors';
+import { CacheService } from '../services/cache';
+import type { CacheEventBus } from '../services/events';
+import { getLogger, type Logger } from '../services/logger';
+import {
+  addDays,
+  daysBetween,
+  formatDisplayDate,
+  parseDisplayDate,
+  toCalendarDay,
+} from '../utils/date';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Days before expiry from which a timbrado is reported as expiring */
+export const DEFAULT_TIMBRADO_WARNING_DAYS = 30;
+
+/** Validity period applied when no end date is recorded (one year from fecha_inicio_vigencia) */
+export const DEFAULT_TIMBRADO_VALIDITY_DAYS = 365;
+
+/** Directory holding one window file per RUC */
+export const DEFAULT_TIMBRADO_DIRECTORY = '.ekuatia/timbrado';
+
+/** Windows stay until replaced; the TTL only clears RUCs that are no longer used */
+const WINDOW_TTL_MS = 5 * 365 * 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Validity window of a timbrado, in DD/MM/YYYY
+ */
+export interface TimbradoWindow {
+  ruc: string;
+  numero_timbrado: string;
+  /** First valid day (fecha_inicio_vigencia) */
+  validFrom: string;
+  /** Last valid day */
+  validUntil: string;
+  /** ISO timestamp at which expiry was announced (absent until then) */
+  expiryAnnouncedAt?: string;
+}
+
+/**
+ * Shape a stored window must have when read back from disk
+ */
+export const timbradoWindowSchema: z.ZodType<TimbradoWindow> = z.object({
+  ruc: z.string(),
+  numero_timbrado: z.string(),
+  validFrom: z.string(),
+  validUntil: z.string(),
+  expiryAnnouncedAt: z.string().optional(),
+});
+
+/**
+ * Position of a date relative to the window
+ */
+export type TimbradoState = 'not_yet_valid' | 'valid' | 'expiring' | 'expired';
+
+/**
+ * Evaluation of a window on a given day
+ */
+export interface TimbradoStatus {
+  window: TimbradoWindow;
+  state: TimbradoState;
+  /** Day evaluated (DD/MM/YYYY) */
+  date: string;
+  /** Days left including the evaluated day; null before the window starts */
+  daysRemaining: number | null;
+}
+
+/**
+ * Options for constructing a TimbradoTracker
+ */
+export interface TimbradoTrackerOptions {
+  /** Validity period used when no end date is recorded (defaults to DEFAULT_TIMBRADO_VALIDITY_DAYS) */
+  validityDays?: number;
+  /** Days before expiry that trigger a warning */
+  warningDays?: number;
+  /** Directory keeping windows across runs; pass null to keep them in memory only */
+  directory?: string | null;
+  /** Bus notified once when a tracked timbrado expires */
+  events?: CacheEventBus;
+  /** Logger (defaults to the shared logger) */
+  logger?: Logger;
+  /** Clock (defaults to Date.now) */
+  now?: () => Date;
+}
+
+// ============================================================================
+// WINDOW EVALUATION
+// ============================================================================
+
+/**
+ * Store key of a RUC's window
+ */
+const windowKey = (ruc: string): CacheKey => `ekuatia_config_timbrado_${ruc}`;
+
+/**
+ * Parse a DD/MM/YYYY field or fail with FECHA_INVALIDA
+ */
+const requireDate = (value: string, field: string, rucReceptor?: string): Date => {
+  const date = parseDisplayDate(value);
+  if (!date) {
+    throw new InvoiceCreationError(`Fecha inválida en ${field}: "${value}"`, 'FECHA_INVALIDA', {
+      rucReceptor,
+      validationErrors: { [field]: ['Formato esperado DD/MM/AAAA'] },
+    });
+  }
+  return date;
+};
+
+/**
+ * Build the window of the configuration's timbrado
+ *
+ * @param ruc - RUC (without DV) owning the timbrado
+ * @param config - Active configuration
+ * @param validityDays - Validity period applied when validUntil is not given
+ * @param validUntil - Recorded last valid day (DD/MM/YYYY)
+ * @throws {InvoiceCreationError} FECHA_INVALIDA when a date cannot be parsed
+ */
+export const timbradoWindowFromConfig = (
+  ruc: string,
+  config: EkuatiaConfig,
+  validityDays: number = DEFAULT_TIMBRADO_VALIDITY_DAYS,
+  validUntil?: string
+): TimbradoWindow => {
+  const { numero_timbrado, fecha_inicio_vigencia } = config.issuer_data;
+  const start = requireDate(fecha_inicio_vigencia, 'fecha_inicio_vigencia');
+  const end =
+    validUntil === undefined
+      ? addDays(start, validityDays - 1)
+      : requireDate(validUntil, 'validUntil');
+  return {
+    ruc,
+    numero_timbrado,
+    validFrom: formatDisplayDate(start),
+    validUntil: formatDisplayDate(end),
+  };
+};
+
+/**
+ * Evaluate a window on a calendar day
+ *
+ * @param window - Timbrado window
+ * @param day - Day to evaluate (UTC midnight)
+ * @param warningDays - Days before expiry reported as "expiring"
+ */
+export const evaluateTimbrado = (
+  window: TimbradoWindow,
+  day: Date,
+  warningDays: number = DEFAULT_TIMBRADO_WARNING_DAYS
+): TimbradoStatus => {
+  const date = formatDisplayDate(day);
+  const start = requireDate(window.validFrom, 'validFrom');
+  if (day < start) {
+    return { window, state: 'not_yet_valid', date, daysRemaining: null };
+  }
+
+  const daysRemaining = daysBetween(day, requireDate(window.validUntil, 'validUntil')) + 1;
+  let state: TimbradoState = 'valid';
+  if (daysRemaining <= 0) {
+    state = 'expired';
+  } else if (daysRemaining <= warningDays) {
+    state = 'expiring';
+  }
+  return { window, state, date, daysRemaining };
+};
+
+/**
+ * Reject an invoice dated outside the timbrado window
+ *
+ * @throws {InvoiceCreationError} FECHA_INVALIDA when fecha is malformed
+ * @throws {InvoiceCreationError} TIMBRADO_EXPIRED when fecha is outside the window
+ */
+export const assertWithinTimbrado = (
+  window: TimbradoWindow,
+  invoice: Pick<InvoiceData, 'fecha' | 'receptor_ruc'>
+): void => {
+  const day = requireDate(invoice.fecha, 'fecha', invoice.receptor_ruc);
+  const status = evaluateTimbrado(window, day, 0);
+  if (status.state === 'not_yet_valid' || status.state === 'expired') {
+    const range = `${window.validFrom} - ${window.validUntil}`;
+    throw new InvoiceCreationError(
+      `La fecha ${invoice.fecha} está fuera de la vigencia del timbrado ${window.numero_timbrado} (${range})`,
+      'TIMBRADO_EXPIRED',
+      {
+        rucReceptor: invoice.receptor_ruc,
+        validationErrors: { fecha: [`Fuera de la vigencia ${range}`] },
+      }
+    );
+  }
+};
+
+// ============================================================================
+// TRACKER
+// ============================================================================
+
+/**
+ * Keeps the active timbrado window per RUC and reports its state
+ */
+export class TimbradoTracker {
+  private readonly windows: CacheService<TimbradoWindow>;
+  private readonly validityDays: number;
+  private readonly warningDays: number;
+  private readonly events: CacheEventBus | undefined;
+  private readonly logger: Logger;
+  private readonly now: () => Date;
+
+  constructor(options: TimbradoTrackerOptions = {}) {
+    this.validityDays = options.validityDays ?? DEFAULT_TIMBRADO_VALIDITY_DAYS;
+    this.warningDays = options.warningDays ?? DEFAULT_TIMBRADO_WARNING_DAYS;
+    this.events = options.events;
+    this.logger = options.logger ?? getLogger().child('timbrado');
+    this.now = options.now ?? (() => new Date());
+    this.windows = new CacheService<TimbradoWindow>(
+      { ttlMs: WINDOW_TTL_MS },
+      {
+        directory: options.directory === undefined ? DEFAULT_TIMBRADO_DIRECTORY : options.directory,
+        schema: timbradoWindowSchema,
+        invalidationTriggers: [],
+        logger: this.logger,
+      }
+    );
+  }
+
+  /**
+   * Record the window of the configuration's timbrado, replacing any previous one
+   * Re-tracking the same window keeps its expiry announcement
+   *
+   * @param ruc - RUC without DV
+   * @param config - Active configuration
+   * @param validUntil - Last valid day when known (DD/MM/YYYY)
+   */
+  async track(ruc: string, config: EkuatiaConfig, validUntil?: string): Promise<TimbradoWindow> {
+    const window = timbradoWindowFromConfig(ruc, config, this.validityDays, validUntil);
+    const previous = await this.windows.get(windowKey(ruc));
+    if (previous && previous.numero_timbrado !== window.numero_timbrado) {
+      this.logger.info('Timbrado replaced', {
+        ruc,
+        previous: previous.numero_timbrado,
+        current: window.numero_timbrado,
+      });
+    }
+    const unchanged =
+      previous?.numero_timbrado === window.numero_timbrado &&
+      previous.validUntil === window.validUntil;
+    const tracked: TimbradoWindow =
+      unchanged && previous.expiryAnnouncedAt
+        ? { ...window, expiryAnnouncedAt: previous.expiryAnnouncedAt }
+        : window;
+    await this.windows.set(windowKey(ruc), tracked);
+    return tracked;
+  }
+
+  /**
+   * Tracked window for a RUC, if any (including one recorded by a previous run)
+   */
+  async getWindow(ruc: string): Promise<TimbradoWindow | null> {
+    return this.windows.get(windowKey(ruc));
+  }
+
+  /**
+   * Evaluate today's state, warning before expiry and announcing expiry once per window
+   *
+   * @returns The status, or null when no timbrado is tracked for the RUC
+   */
+  async check(ruc: string): Promise<TimbradoStatus | null> {
+    const window = await this.getWindow(ruc);
+    if (!window) {
+      return null;
+    }
+
+    const status = evaluateTimbrado(window, toCalendarDay(this.now()), this.warningDays);
+    if (status.state === 'expiring') {
+      this.logger.warn('Timbrado close to expiry', {
+        ruc,
+        numeroTimbrado: window.numero_timbrado,
+        validUntil: window.validUntil,
+        daysRemaining: status.daysRemaining,
+      });
+    } else if (status.state === 'expired') {
+      await this.announceExpiry(window);
+    }
+    return status;
+  }
+
+  /**
+   * Reject an invoice dated outside the tracked window (no-op when nothing is tracked)
+   *
+   * @throws {InvoiceCreationError} TIMBRADO_EXPIRED or FECHA_INVALIDA
+   */
+  async assertInvoiceDate(
+    ruc: string,
+    invoice: Pick<InvoiceData, 'fecha' | 'receptor_ruc'>
+  ): Promise<void> {
+    const window = await this.getWindow(ruc);
+    if (window) {
+      assertWithinTimbrado(window, invoice);
+    }
+  }
+
+  /**
+   * Log and publish the expiry, recording it in the stored window so a restart stays quiet
+   */
+  private async announceExpiry(window: TimbradoWindow): Promise<void> {
+    if (window.expiryAnnouncedAt) {
+      return;
+    }
+    await this.windows.set(windowKey(window.ruc), {
+      ...window,
+      expiryAnnouncedAt: this.now().toISOString(),
+    });
+    this.logger.error('Timbrado expired', {
+      ruc: window.ruc,
+      numeroTimbrado: window.numero_timbrado,
+      validUntil: window.validUntil,
+    });
+    await this.events?.publish({
+      trigger: 'timbrado_expiration',
+      ruc: window.ruc,
+      field: 'numero_timbrado',
+      previousValue: window.numero_timbrado,
+      reason: `Timbrado ${window.numero_timbrado} venció el ${window.validUntil}`,
+      source: 'timbrado',
+    });
+  }
+}
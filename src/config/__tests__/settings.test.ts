@@ -0,0 +1,136 @@
+/**
+ * PURPOSE: Test suite for the runtime settings loader
+ *
+ * REASONING:
+ * - Plain environment objects keep tests independent of process.env
+ * - Aggregated error reporting is the main behaviour under test
+ */
+
+import { describe, test, expect } from 'vitest';
+import { loadSettings, getLoginCredentials, toRetryConfig } from '../settings';
+import { ConfigurationError } from '../../types/errors';
+
+const VALID_ENV = {
+  EKUATIA_BASE_URL: 'https://ekuatia.set.gov.py/ekuatiai/',
+  RUC: '5452',
+  MARANGATU_ACCESS_KEY: 'test_marangatu_key_12345',
+  EMISSION_MODE: 'SOLUCIÓN GRATUITA',
+  NODE_ENV: 'test',
+  LOG_LEVEL: 'debug',
+  CONFIG_CACHE_TTL: '7776000000',
+  SESSION_EXPIRY: '3600000',
+  API_TIMEOUT: '30000',
+  MAX_RETRY_ATTEMPTS: '3',
+  RETRY_DELAY_MS: '1000',
+  SECURITY_LOGGING: 'true',
+  USE_MOCK_API: 'true',
+  SOURCE_MAP: 'true',
+};
+
+describe('loadSettings', () => {
+  describe('Happy Path', () => {
+    test('should parse every key into typed settings', () => {
+      const settings = loadSettings(VALID_ENV);
+
+      expect(settings).toMatchObject({
+        ruc: '5452',
+        emissionMode: 'SOLUCIÓN GRATUITA',
+        logLevel: 'debug',
+        configCacheTtlMs: 7776000000,
+        sessionExpiryMs: 3600000,
+        apiTimeoutMs: 30000,
+        securityLogging: true,
+        useMockApi: true,
+      });
+    });
+
+    test('should apply defaults for optional keys', () => {
+      const settings = loadSettings({ RUC: '5452', MARANGATU_ACCESS_KEY: 'key' });
+
+      expect(settings.baseUrl).toBe('https://ekuatia.set.gov.py/ekuatiai/');
+      expect(settings.emissionMode).toBe('SOLUCIÓN GRATUITA');
+      expect(settings.apiTimeoutMs).toBe(30000);
+      expect(settings.useMockApi).toBe(false);
+      expect(settings.confirmationLogPath).toBe('.ekuatia/confirmations.jsonl');
+    });
+
+    test('should derive credentials and retry policy', () => {
+      const settings = loadSettings({
+        ...VALID_ENV,
+        MAX_RETRY_ATTEMPTS: '5',
+        MAX_RETRY_AFTER_MS: '60000',
+      });
+
+      expect(getLoginCredentials(settings)).toEqual({
+        username: '5452',
+        password: 'test_marangatu_key_12345',
+        emission_mode: 'SOLUCIÓN GRATUITA',
+      });
+      expect(toRetryConfig(settings)).toMatchObject({
+        maxAttempts: 5,
+        initialDelayMs: 1000,
+        maxRetryAfterMs: 60000,
+      });
+    });
+  });
+
+  describe('Error Scenarios', () => {
+    test('should report every invalid or missing key in one ConfigurationError', () => {
+      let caught: unknown;
+      try {
+        loadSettings({
+          RUC: '5452-1',
+          EMISSION_MODE: 'FACTURADOR PROPIO',
+          API_TIMEOUT: 'fast',
+          USE_MOCK_API: 'maybe',
+        });
+      } catch (error) {
+        caught = error;
+      }
+
+      expect(caught).toBeInstanceOf(ConfigurationError);
+      const error = caught as ConfigurationError;
+      expect(error.code).toBe('INVALID_SETTINGS');
+      expect(error.context?.invalidFields).toEqual(
+        expect.arrayContaining([
+          'RUC',
+          'MARANGATU_ACCESS_KEY',
+          'EMISSION_MODE',
+          'API_TIMEOUT',
+          'USE_MOCK_API',
+        ])
+      );
+      expect(error.message).toContain('sin dígito verificador');
+    });
+
+    test('should reject the placeholder access key from .env.example', () => {
+      expect(() =>
+        loadSettings({ ...VALID_ENV, MARANGATU_ACCESS_KEY: 'your_confidential_access_key' })
+      ).toThrow(/MARANGATU_ACCESS_KEY/);
+    });
+
+    test('should reject a credential vault without its passphrase', () => {
+      expect(() =>
+        loadSettings({ RUC: '5452', CREDENTIAL_VAULT_PATH: '.ekuatia/credentials.vault' })
+      ).toThrow(/CREDENTIAL_VAULT_PASSPHRASE/);
+    });
+  });
+
+  describe('Edge Cases', () => {
+    test('should treat empty values as unset', () => {
+      const settings = loadSettings({ ...VALID_ENV, API_TIMEOUT: '', LOG_LEVEL: '  ' });
+
+      expect(settings.apiTimeoutMs).toBe(30000);
+      expect(settings.logLevel).toBe('info');
+    });
+
+    test('should accept a decomposed-unicode emission mode', () => {
+      const settings = loadSettings({
+        ...VALID_ENV,
+        EMISSION_MODE: 'SOLUCIÓN GRATUITA'.normalize('NFD'),
+      });
+
+      expect(settings.emissionMode).toBe('SOLUCIÓN GRATUITA');
+    });
+  });
+});
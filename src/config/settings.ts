@@ -0,0 +1,451 @@
+/**
+ * PURPOSE: Validated runtime settings loaded from environment variables
+ *
+ * REASONING:
+ * - Every key in .env.example is parsed once into a single typed object
+ * - Misconfiguration is reported all at once instead of one key per deploy
+ * - Numeric and boolean strings are coerced here so consumers never re-parse
+ * - Business constraints (RUC without DV, SOLUCIÓN GRATUITA) are enforced at startup
+ * - The access key may instead live in the encrypted credential vault
+ *
+ * AGENT DECISION PROCESS:
+ * - Requirements analyzed from .env.example and the guide's System Constraints table
+ * - Considered: dotenv + manual checks vs zod schema with transforms
+ * - Selected zod because it is already a dependency and aggregates issues natively
+ * - Implementation constraints: Loading never reads files; callers pass the environment
+ */
+
+import { z } from 'zod';
+import type { EmissionMode, LoginCredentials } from '../types/ekuatia';
+import type { CacheConfig, LoggingConfig, RetryConfig } from '../types/common';
+import { ConfigurationError } from '../types/errors';
+import { DEFAULT_EKUATIA_BASE_URL, type EkuatiaApiServiceOptions } from '../services/api';
+import { DEFAULT_CACHE_DIRECTORY } from '../services/cache';
+import {
+  DEFAULT_CONFIRMATION_LOG_PATH,
+  JsonLinesConfirmationLog,
+  type ConfirmationLog,
+} from '../services/confirmation';
+import {
+  CredentialVault,
+  staticCredentialSource,
+  type CredentialSource,
+} from '../services/credentials';
+import type { LoggerOptions } from '../services/logger';
+import {
+  DEFAULT_TIMBRADO_DIRECTORY,
+  DEFAULT_TIMBRADO_VALIDITY_DAYS,
+  DEFAULT_TIMBRADO_WARNING_DAYS,
+  type TimbradoTrackerOptions,
+} from '../agents/timbrado';
+import { DEFAULT_RATE_LIMIT_RULE, type RateLimiterOptions } from '../services/rate-limiter';
+import type { SessionManagerOptions } from '../services/session';
+import { DEFAULT_LEDGER_DIRECTORY, type SubmissionLedgerOptions } from '../services/ledger';
+import { DEFAULT_RETRY_CONFIG } from '../utils/retry';
+import { parseRucWithoutDV } from '../utils/ruc';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** The only emission mode supported for direct taxpayer access */
+const SUPPORTED_EMISSION_MODE: EmissionMode = 'SOLUCIÓN GRATUITA';
+
+/** Interval between sweeps of expired cache entries (24 hours) */
+const CACHE_SWEEP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/** Placeholder values shipped in .env.example that must never reach production */
+const PLACEHOLDER_VALUES = ['your_ruc_without_dv', 'your_confidential_access_key'];
+
+// ============================================================================
+// SCHEMA BUILDING BLOCKS
+// ============================================================================
+
+/**
+ * Treat empty or whitespace-only variables as unset
+ */
+const emptyAsUndefined = (value: unknown): unknown => {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  const trimmed = value.trim();
+  return trimmed === '' ? undefined : trimmed;
+};
+
+/**
+ * Positive integer read from a string, with a default when unset
+ */
+const positiveInteger = (key: string, defaultValue: number) =>
+  z.preprocess(
+    emptyAsUndefined,
+    z.coerce
+      .number({ invalid_type_error: `${key} debe ser un número` })
+      .int(`${key} debe ser un entero`)
+      .positive(`${key} debe ser mayor que 0`)
+      .default(defaultValue)
+  );
+
+/**
+ * Boolean flag accepting true/false, 1/0 and yes/no
+ */
+const booleanFlag = (key: string, defaultValue: boolean) =>
+  z.preprocess(
+    (value) => {
+      const normalized = emptyAsUndefined(value);
+      return typeof normalized === 'string' ? normalized.toLowerCase() : normalized;
+    },
+    z
+      .enum(['true', 'false', '1', '0', 'yes', 'no'], {
+        errorMap: () => ({ message: `${key} debe ser true o false` }),
+      })
+      .default(defaultValue ? 'true' : 'false')
+      .transform((value) => value === 'true' || value === '1' || value === 'yes')
+  );
+
+/**
+ * Raw environment schema, one entry per key in .env.example
+ */
+const environmentSchema = z.object({
+  EKUATIA_BASE_URL: z.preprocess(
+    emptyAsUndefined,
+    z.string().url('EKUATIA_BASE_URL debe ser una URL válida').default(DEFAULT_EKUATIA_BASE_URL)
+  ),
+  RUC: z.preprocess(
+    emptyAsUndefined,
+    z.string({ required_error: 'RUC es obligatorio' }).transform((value, ctx) => {
+      const ruc = parseRucWithoutDV(value);
+      if (!ruc.success) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: ruc.error });
+        return z.NEVER;
+      }
+      return ruc.data;
+    })
+  ),
+  MARANGATU_ACCESS_KEY: z.preprocess(
+    emptyAsUndefined,
+    z
+      .string()
+      .refine(
+        (value) => !PLACEHOLDER_VALUES.includes(value),
+        'MARANGATU_ACCESS_KEY conserva el valor de ejemplo de .env.example'
+      )
+      .optional()
+  ),
+  CREDENTIAL_VAULT_PATH: z.preprocess(emptyAsUndefined, z.string().optional()),
+  CREDENTIAL_VAULT_PASSPHRASE: z.preprocess(emptyAsUndefined, z.string().optional()),
+  EMISSION_MODE: z.preprocess(
+    (value) => {
+      const normalized = emptyAsUndefined(value);
+      return typeof normalized === 'string' ? normalized.normalize('NFC') : normalized;
+    },
+    z
+      .literal(SUPPORTED_EMISSION_MODE, {
+        errorMap: () => ({
+          message: `EMISSION_MODE debe ser "${SUPPORTED_EMISSION_MODE}"`,
+        }),
+      })
+      .default(SUPPORTED_EMISSION_MODE)
+  ),
+  NODE_ENV: z.preprocess(
+    emptyAsUndefined,
+    z
+      .enum(['development', 'production', 'test'], {
+        errorMap: () => ({ message: 'NODE_ENV debe ser development, production o test' }),
+      })
+      .default('development')
+  ),
+  LOG_LEVEL: z.preprocess(
+    emptyAsUndefined,
+    z
+      .enum(['error', 'warn', 'info', 'debug'], {
+        errorMap: () => ({ message: 'LOG_LEVEL debe ser error, warn, info o debug' }),
+      })
+      .default('info')
+  ),
+  CONFIG_CACHE_TTL: positiveInteger('CONFIG_CACHE_TTL', 7776000000),
+  CONFIG_CACHE_DIR: z.preprocess(emptyAsUndefined, z.string().default(DEFAULT_CACHE_DIRECTORY)),
+  SESSION_EXPIRY: positiveInteger('SESSION_EXPIRY', 3600000),
+  API_TIMEOUT: positiveInteger('API_TIMEOUT', 30000),
+  MAX_RETRY_ATTEMPTS: positiveInteger('MAX_RETRY_ATTEMPTS', DEFAULT_RETRY_CONFIG.maxAttempts),
+  RETRY_DELAY_MS: positiveInteger('RETRY_DELAY_MS', DEFAULT_RETRY_CONFIG.initialDelayMs),
+  MAX_RETRY_AFTER_MS: z.preprocess(
+    emptyAsUndefined,
+    z.coerce
+      .number({ invalid_type_error: 'MAX_RETRY_AFTER_MS debe ser un número' })
+      .int('MAX_RETRY_AFTER_MS debe ser un entero')
+      .positive('MAX_RETRY_AFTER_MS debe ser mayor que 0')
+      .optional()
+  ),
+  RATE_LIMIT_RPS: positiveInteger('RATE_LIMIT_RPS', DEFAULT_RATE_LIMIT_RULE.refillPerSecond),
+  RATE_LIMIT_BURST: positiveInteger('RATE_LIMIT_BURST', DEFAULT_RATE_LIMIT_RULE.capacity),
+  MAX_CONCURRENT_REQUESTS: positiveInteger('MAX_CONCURRENT_REQUESTS', 4),
+  RATE_LIMIT_QUEUE_SIZE: positiveInteger('RATE_LIMIT_QUEUE_SIZE', 100),
+  TIMBRADO_VALIDITY_DAYS: positiveInteger('TIMBRADO_VALIDITY_DAYS', DEFAULT_TIMBRADO_VALIDITY_DAYS),
+  TIMBRADO_WARNING_DAYS: positiveInteger('TIMBRADO_WARNING_DAYS', DEFAULT_TIMBRADO_WARNING_DAYS),
+  TIMBRADO_DIR: z.preprocess(emptyAsUndefined, z.string().default(DEFAULT_TIMBRADO_DIRECTORY)),
+  CONFIRMATION_LOG_PATH: z.preprocess(
+    emptyAsUndefined,
+    z.string().default(DEFAULT_CONFIRMATION_LOG_PATH)
+  ),
+  SUBMISSION_LEDGER_DIR: z.preprocess(
+    emptyAsUndefined,
+    z.string().default(DEFAULT_LEDGER_DIRECTORY)
+  ),
+  LOG_FILE_PATH: z.preprocess(emptyAsUndefined, z.string().optional()),
+  SECURITY_LOGGING: booleanFlag('SECURITY_LOGGING', true),
+  USE_MOCK_API: booleanFlag('USE_MOCK_API', false),
+  SOURCE_MAP: booleanFlag('SOURCE_MAP', false),
+});
+
+/**
+ * Cross-field rules: the access key must come from .env or from the credential vault, and a
+ * vault needs its passphrase (an empty one would fail to decrypt or encrypt under an empty key)
+ * Checked before field parsing so they are reported together with every other problem
+ */
+const credentialsSchema = z.preprocess((env, ctx) => {
+  const raw = (typeof env === 'object' && env !== null ? env : {}) as EnvironmentSource;
+  if (
+    emptyAsUndefined(raw.MARANGATU_ACCESS_KEY) === undefined &&
+    emptyAsUndefined(raw.CREDENTIAL_VAULT_PATH) === undefined
+  ) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['MARANGATU_ACCESS_KEY'],
+      message:
+        'MARANGATU_ACCESS_KEY es obligatorio salvo que se use un almacén (CREDENTIAL_VAULT_PATH)',
+    });
+  }
+  if (
+    emptyAsUndefined(raw.CREDENTIAL_VAULT_PATH) !== undefined &&
+    emptyAsUndefined(raw.CREDENTIAL_VAULT_PASSPHRASE) === undefined
+  ) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['CREDENTIAL_VAULT_PASSPHRASE'],
+      message:
+        'CREDENTIAL_VAULT_PASSPHRASE es obligatorio con CREDENTIAL_VAULT_PATH; defínalo en el entorno del proceso, no en .env',
+    });
+  }
+  return env;
+}, environmentSchema);
+
+/**
+ * Settings schema: validates the environment and reshapes it for consumers
+ */
+export const settingsSchema = credentialsSchema.transform((env) => ({
+  baseUrl: env.EKUATIA_BASE_URL,
+  ruc: env.RUC,
+  accessKey: env.MARANGATU_ACCESS_KEY,
+  credentialVaultPath: env.CREDENTIAL_VAULT_PATH,
+  credentialVaultPassphrase: env.CREDENTIAL_VAULT_PASSPHRASE,
+  emissionMode: env.EMISSION_MODE,
+  nodeEnv: env.NODE_ENV,
+  logLevel: env.LOG_LEVEL,
+  logFilePath: env.LOG_FILE_PATH,
+  configCacheTtlMs: env.CONFIG_CACHE_TTL,
+  configCacheDirectory: env.CONFIG_CACHE_DIR,
+  sessionExpiryMs: env.SESSION_EXPIRY,
+  apiTimeoutMs: env.API_TIMEOUT,
+  maxRetryAttempts: env.MAX_RETRY_ATTEMPTS,
+  retryDelayMs: env.RETRY_DELAY_MS,
+  maxRetryAfterMs: env.MAX_RETRY_AFTER_MS,
+  rateLimitRps: env.RATE_LIMIT_RPS,
+  rateLimitBurst: env.RATE_LIMIT_BURST,
+  maxConcurrentRequests: env.MAX_CONCURRENT_REQUESTS,
+  rateLimitQueueSize: env.RATE_LIMIT_QUEUE_SIZE,
+  timbradoValidityDays: env.TIMBRADO_VALIDITY_DAYS,
+  timbradoWarningDays: env.TIMBRADO_WARNING_DAYS,
+  timbradoDirectory: env.TIMBRADO_DIR,
+  confirmationLogPath: env.CONFIRMATION_LOG_PATH,
+  submissionLedgerDirectory: env.SUBMISSION_LEDGER_DIR,
+  securityLogging: env.SECURITY_LOGGING,
+  useMockApi: env.USE_MOCK_API,
+  sourceMap: env.SOURCE_MAP,
+}));
+
+/**
+ * Typed runtime settings
+ */
+export type EkuatiaSettings = z.output<typeof settingsSchema>;
+
+/**
+ * Environment variable source (process.env or a plain object in tests)
+ */
+export type EnvironmentSource = Record<string, string | undefined>;
+
+// ============================================================================
+// LOADER
+// ============================================================================
+
+/**
+ * Parse and validate the environment into EkuatiaSettings
+ *
+ * @param env - Environment variables (defaults to process.env)
+ * @returns Fully typed settings with defaults applied
+ * @throws {ConfigurationError} INVALID_SETTINGS listing every invalid or missing key
+ */
+export const loadSettings = (env: EnvironmentSource = process.env): EkuatiaSettings => {
+  const result = settingsSchema.safeParse(env);
+  if (result.success) {
+    return result.data;
+  }
+
+  const problems = result.error.issues.map((issue) => ({
+    key: issue.path.join('.'),
+    message: issue.message,
+  }));
+  const invalidFields = [...new Set(problems.map((problem) => problem.key))];
+  const details = problems.map((problem) => `  - ${problem.key}: ${problem.message}`).join('\n');
+
+  throw new ConfigurationError(
+    `Configuración inválida (${invalidFields.length} variable(s)):\n${details}`,
+    'INVALID_SETTINGS',
+    { configStep: 'environment', invalidFields }
+  );
+};
+
+// ============================================================================
+// SETTINGS ADAPTERS - Derive component options from settings
+// ============================================================================
+
+/**
+ * Login credentials for the configured RUC, taken from MARANGATU_ACCESS_KEY
+ *
+ * @throws {ConfigurationError} INVALID_SETTINGS when the key lives in the vault instead
+ */
+export const getLoginCredentials = (settings: EkuatiaSettings): LoginCredentials => {
+  if (settings.accessKey === undefined) {
+    throw new ConfigurationError(
+      'MARANGATU_ACCESS_KEY no está definido; use createCredentialSource para leer el almacén',
+      'INVALID_SETTINGS',
+      { configStep: 'environment', invalidFields: ['MARANGATU_ACCESS_KEY'] }
+    );
+  }
+  return {
+    username: settings.ruc,
+    password: settings.accessKey,
+    emission_mode: settings.emissionMode,
+  };
+};
+
+/**
+ * Credential source for the configured RUC
+ * Uses the encrypted vault when CREDENTIAL_VAULT_PATH is set, otherwise MARANGATU_ACCESS_KEY
+ *
+ * @param settings - Loaded settings
+ * @param passphrase - Vault passphrase (defaults to CREDENTIAL_VAULT_PASSPHRASE)
+ * @throws {ConfigurationError} INVALID_SETTINGS when the vault has no passphrase
+ * @throws {ConfigurationError} CREDENTIALS_UNAVAILABLE when the vault holds another RUC
+ */
+export const createCredentialSource = (
+  settings: EkuatiaSettings,
+  passphrase: string | undefined = settings.credentialVaultPassphrase
+): CredentialSource => {
+  if (settings.credentialVaultPath === undefined) {
+    return staticCredentialSource(getLoginCredentials(settings));
+  }
+
+  if (!passphrase) {
+    throw new ConfigurationError(
+      'CREDENTIAL_VAULT_PASSPHRASE es obligatorio cuando se usa CREDENTIAL_VAULT_PATH',
+      'INVALID_SETTINGS'
+    );
+  }
+  const vault = new CredentialVault({ filePath: settings.credentialVaultPath, passphrase });
+  return {
+    getCredentials: async () => {
+      const credentials = await vault.load();
+      if (credentials.username !== settings.ruc) {
+        throw new ConfigurationError(
+          `El almacén contiene credenciales del RUC ${credentials.username}, no de ${settings.ruc}`,
+          'CREDENTIALS_UNAVAILABLE',
+          { ruc: settings.ruc, configStep: 'credential_vault' }
+        );
+      }
+      return credentials;
+    },
+  };
+};
+
+/**
+ * EkuatiaApiService options (base URL and per-request timeout)
+ */
+export const toApiServiceOptions = (settings: EkuatiaSettings): EkuatiaApiServiceOptions => ({
+  baseUrl: settings.baseUrl,
+  timeoutMs: settings.apiTimeoutMs,
+});
+
+/**
+ * CacheConfig for the persistent configuration cache (CONFIG_CACHE_TTL)
+ * Expired entries are swept once a day
+ */
+export const toCacheConfig = (settings: EkuatiaSettings): CacheConfig => ({
+  ttlMs: settings.configCacheTtlMs,
+  cleanupIntervalMs: CACHE_SWEEP_INTERVAL_MS,
+});
+
+/**
+ * SessionManager options (session lifetime)
+ */
+export const toSessionOptions = (settings: EkuatiaSettings): SessionManagerOptions => ({
+  sessionExpiryMs: settings.sessionExpiryMs,
+});
+
+/**
+ * Retry policy using MAX_RETRY_ATTEMPTS, RETRY_DELAY_MS and MAX_RETRY_AFTER_MS
+ */
+export const toRetryConfig = (settings: EkuatiaSettings): RetryConfig => ({
+  ...DEFAULT_RETRY_CONFIG,
+  maxAttempts: settings.maxRetryAttempts,
+  initialDelayMs: settings.retryDelayMs,
+  maxRetryAfterMs: settings.maxRetryAfterMs,
+});
+
+/**
+ * RateLimiter options from RATE_LIMIT_RPS, RATE_LIMIT_BURST, MAX_CONCURRENT_REQUESTS
+ * and RATE_LIMIT_QUEUE_SIZE
+ */
+export const toRateLimiterOptions = (settings: EkuatiaSettings): RateLimiterOptions => ({
+  defaultRule: { capacity: settings.rateLimitBurst, refillPerSecond: settings.rateLimitRps },
+  maxConcurrent: settings.maxConcurrentRequests,
+  maxQueueSize: settings.rateLimitQueueSize,
+});
+
+/**
+ * TimbradoTracker options from TIMBRADO_VALIDITY_DAYS, TIMBRADO_WARNING_DAYS and TIMBRADO_DIR
+ */
+export const toTimbradoTrackerOptions = (settings: EkuatiaSettings): TimbradoTrackerOptions => ({
+  validityDays: settings.timbradoValidityDays,
+  warningDays: settings.timbradoWarningDays,
+  directory: settings.timbradoDirectory,
+});
+
+/**
+ * Audit log of invoice confirmation decisions at CONFIRMATION_LOG_PATH
+ */
+export const toConfirmationLog = (settings: EkuatiaSettings): ConfirmationLog =>
+  new JsonLinesConfirmationLog(settings.confirmationLogPath);
+
+/**
+ * SubmissionLedger options from SUBMISSION_LEDGER_DIR
+ */
+export const toSubmissionLedgerOptions = (settings: EkuatiaSettings): SubmissionLedgerOptions => ({
+  directory: settings.submissionLedgerDirectory,
+});
+
+/**
+ * LoggingConfig from LOG_LEVEL and LOG_FILE_PATH
+ */
+export const toLoggingConfig = (settings: EkuatiaSettings): LoggingConfig => ({
+  level: settings.logLevel,
+  includeTimestamp: true,
+  logToFile: settings.logFilePath !== undefined,
+  logFilePath: settings.logFilePath,
+});
+
+/**
+ * Logger options from SECURITY_LOGGING
+ */
+export const toLoggerOptions = (settings: EkuatiaSettings): LoggerOptions => ({
+  securityLogging: settings.securityLogging,
+});
@@ -36,8 +36,21 @@ export type {
   GruposUtilizables,
   EkuatiaConfig,
   InvoiceItem,
+  InvoiceItemInput,
+  IvaCategory,
   InvoiceSummary,
   InvoiceData,
+  DncpData,
+  InvoiceCreationPayload,
+  ProfileResponse,
+  ToolsResponse,
+  ConfigurationFormResponse,
+  ConfigurationSaveResponse,
+  DocumentTypesResponse,
+  DocumentCreationResponse,
+  DocumentResponse,
+  DocumentSignatureRequest,
+  DocumentSignatureResponse,
   EkuatiaError,
   AuthenticationErrorCode,
   ConfigurationErrorCode,
@@ -48,6 +61,46 @@ export type {
   CacheInvalidationTrigger,
 } from './types/ekuatia';
 
+// Ekuatia API runtime schemas (types above are inferred from these)
+export {
+  documentTypeSchema,
+  taxpayerTypeSchema,
+  modalityTypeSchema,
+  emissionModeSchema,
+  rucStatusSchema,
+  loginCredentialsSchema,
+  profileDataSchema,
+  establishmentDataSchema,
+  loginResponseSchema,
+  issuerDataSchema,
+  gruposUtilizablesSchema,
+  ekuatiaConfigSchema,
+  invoiceItemSchema,
+  invoiceItemInputSchema,
+  ivaCategorySchema,
+  invoiceSummarySchema,
+  invoiceDataSchema,
+  dncpDataSchema,
+  invoiceCreationPayloadSchema,
+  profileResponseSchema,
+  toolsResponseSchema,
+  configurationFormResponseSchema,
+  configurationSaveResponseSchema,
+  documentTypesResponseSchema,
+  documentCreationResponseSchema,
+  documentResponseSchema,
+  documentSignatureRequestSchema,
+  documentSignatureResponseSchema,
+  ekuatiaErrorSchema,
+  authenticationErrorCodeSchema,
+  configurationErrorCodeSchema,
+  invoiceErrorCodeSchema,
+  apiResponseSchema,
+  apiErrorResponseSchema,
+  cacheEntrySchema,
+  cacheInvalidationTriggerSchema,
+} from './types/ekuatia';
+
 // Common utility types
 export type {
   Result,
@@ -70,6 +123,7 @@ export type {
   RucWithoutDV,
   RucWithDV,
   SessionToken,
+  SessionInfo,
   DocumentId,
   CacheKey,
   NonEmptyArray,
@@ -85,11 +139,15 @@ export {
   ConfigurationRetrievalError,
   InvoiceCreationError,
   SystemError,
+  InvalidResponseError,
   TimeoutError,
+  RateLimitError,
   createAuthenticationError,
   createConfigurationError,
   createInvoiceError,
   createSystemError,
+  createErrorFromApiResponse,
+  toAuthenticationError,
   isAuthenticationError,
   isConfigurationError,
   isInvoiceError,
@@ -98,6 +156,28 @@ export {
   getUserErrorMessage,
 } from './types/errors';
 
+// ============================================================================
+// CONFIGURATION EXPORTS - Runtime settings
+// ============================================================================
+
+export {
+  loadSettings,
+  settingsSchema,
+  getLoginCredentials,
+  createCredentialSource,
+  toApiServiceOptions,
+  toSessionOptions,
+  toRetryConfig,
+  toLoggingConfig,
+  toLoggerOptions,
+  toRateLimiterOptions,
+  toCacheConfig,
+  toTimbradoTrackerOptions,
+  toConfirmationLog,
+  toSubmissionLedgerOptions,
+} from './config/settings';
+export type { EkuatiaSettings, EnvironmentSource } from './config/settings';
+
 // ============================================================================
 // UTILITY EXPORTS - Helper functions and tools
 // ============================================================================
@@ -130,21 +210,341 @@ export {
   expectExecutionWithinTimeLimit,
 } from './utils/test-helpers';
 
+// Retry executor
+export {
+  withRetry,
+  createRetryExecutor,
+  computeBackoffDelay,
+  isRetryableFailure,
+  parseRetryAfter,
+  getRetryAfterMs,
+  DEFAULT_RETRY_CONFIG,
+} from './utils/retry';
+export type { RetryAttemptInfo, RetryOptions, RetryableOperation } from './utils/retry';
+
+// Schema validation
+export {
+  toValidationResult,
+  validateWithSchema,
+  parseWithSchema,
+  formatValidationErrors,
+} from './utils/validation';
+
+// RUC parsing and check digits
+export {
+  calculateRucCheckDigit,
+  normalizeRuc,
+  parseRuc,
+  parseRucWithoutDV,
+  parseRucWithDV,
+  parseReceptorRuc,
+  isRucWithoutDV,
+  isRucWithDV,
+  withCheckDigit,
+  stripCheckDigit,
+} from './utils/ruc';
+export type { ParsedRuc } from './utils/ruc';
+
+// Canonical hashing
+export { canonicalJson, sha256Hex, hashCanonical } from './utils/hash';
+
+// DD/MM/YYYY calendar dates
+export {
+  parseDisplayDate,
+  formatDisplayDate,
+  toCalendarDay,
+  addDays,
+  daysBetween,
+  EKUATIA_TIMEZONE,
+} from './utils/date';
+
+// DNCP public-procurement data
+export { isDncpEnabled, normalizeDncpData, resolveDncpData } from './utils/dncp';
+
+// IVA calculation
+export {
+  IVA_DIVISORS,
+  ivaIncluded,
+  calculateInvoiceItem,
+  summarizeItems,
+  calculateIvaBreakdown,
+  calculateInvoiceTaxes,
+  findAmountMismatches,
+  resolveInvoiceTotals,
+} from './utils/iva';
+export type { TaxableItem, IvaBreakdown, IvaBreakdownEntry, InvoiceTaxes } from './utils/iva';
+
+// Logo assets
+export {
+  DEFAULT_LOGO_LIMITS,
+  detectLogoFormat,
+  readImageDimensions,
+  createLogoAsset,
+  loadLogo,
+  parseLogoDataUri,
+  logoFingerprint,
+  describeLogo,
+} from './utils/logo';
+export type { LogoAsset, LogoFormat, LogoLimits } from './utils/logo';
+
+// ============================================================================
+// AGENT EXPORTS - Business logic agents
+// ============================================================================
+
+// Authentication agent
+export { AuthenticationAgent, assertActiveRuc, assertProfileRuc } from './agents/auth';
+
+// Configuration agent (Steps 2.1-2.5)
+export {
+  ConfigurationAgent,
+  configurationCacheKey,
+  assertSingleEstablishment,
+  assertRequestMatchesConfiguration,
+  buildConfigurationFromProfile,
+  createConfigurationCache,
+  storedConfigurationSchema,
+} from './agents/config';
+export type {
+  ConfigurationAgentOptions,
+  ConfigurationCache,
+  ConfigurationChanges,
+  ConfigurationChangeHandler,
+  ConfigurationChangeRequest,
+  ConfigurationRequest,
+  ConfigurationResult,
+  ConfigurationStep,
+  StoredConfiguration,
+} from './agents/config';
+
+// Modality selection
+export {
+  recommendModality,
+  assertModalityGroups,
+  enabledGroups,
+  UNAVAILABLE_GROUPS,
+} from './agents/modality';
+export type { BusinessFacts, GroupName, ModalityRecommendation } from './agents/modality';
+
+// Configuration-change proposals
+export {
+  ConfigurationProposalFlow,
+  applyConfigurationChanges,
+  diffConfiguration,
+  createConfigurationProposal,
+  computeApprovalToken,
+  verifyApprovalToken,
+  renderProposal,
+  renderProposalText,
+  renderProposalJson,
+  FIELD_IMPACT_NOTES,
+} from './agents/proposal';
+export type {
+  ConfigurationFieldChange,
+  ConfigurationProposal,
+  ConfigurationProposalFlowOptions,
+  ProposalConfirmation,
+  ProposalFormat,
+} from './agents/proposal';
+
+// Primary document type analysis
+export {
+  DocumentTypeAnalyzer,
+  analyzeDocumentTypes,
+  normalizeDocumentType,
+  DEFAULT_DOCUMENT_TYPE_THRESHOLDS,
+} from './agents/document-type';
+export type {
+  DocumentTypeAnalysis,
+  DocumentTypeAnalyzerOptions,
+  DocumentTypeShare,
+  DocumentTypeThresholds,
+  IssuedDocumentRecord,
+  IssuedDocumentSource,
+} from './agents/document-type';
+
+// Configuration drift detection
+export {
+  ConfigurationDriftChecker,
+  detectConfigurationDrift,
+  DEFAULT_DRIFT_POLICY,
+  DRIFT_TRIGGERS,
+} from './agents/drift';
+export type {
+  DriftAction,
+  DriftCheckResult,
+  DriftCheckerOptions,
+  DriftField,
+  DriftPolicy,
+  DriftReport,
+  FieldDrift,
+} from './agents/drift';
+
+// Timbrado validity tracking
+export {
+  TimbradoTracker,
+  timbradoWindowSchema,
+  timbradoWindowFromConfig,
+  evaluateTimbrado,
+  assertWithinTimbrado,
+  DEFAULT_TIMBRADO_VALIDITY_DAYS,
+  DEFAULT_TIMBRADO_WARNING_DAYS,
+  DEFAULT_TIMBRADO_DIRECTORY,
+} from './agents/timbrado';
+export type {
+  TimbradoState,
+  TimbradoStatus,
+  TimbradoTrackerOptions,
+  TimbradoWindow,
+} from './agents/timbrado';
+
+// Pre-invoice validation checklist
+export { InvoiceChecklist, DEFAULT_CHECKLIST_RULES } from './agents/checklist';
+export type {
+  ChecklistContext,
+  ChecklistInput,
+  ChecklistIssue,
+  ChecklistRule,
+  ChecklistSection,
+  InvoiceChecklistOptions,
+} from './agents/checklist';
+
+// Invoice agent and payload builder
+export {
+  InvoiceAgent,
+  buildInvoicePayload,
+  assertIssuerOverrides,
+  invoicePayloadHash,
+} from './agents/invoice';
+export type { InvoiceAgentOptions, InvoiceResult } from './agents/invoice';
+
 // ============================================================================
-// FUTURE AGENT EXPORTS - Will be implemented in later checkpoints
+// SERVICE EXPORTS - Shared infrastructure services
 // ============================================================================
 
-// TODO: Export authentication agent once implemented
-// export { AuthenticationAgent } from './agents/auth';
+// Ekuatia API client
+export {
+  EkuatiaApiService,
+  EKUATIA_ENDPOINTS,
+  DEFAULT_EKUATIA_BASE_URL,
+  isApiErrorResponse,
+} from './services/api';
+export type { EkuatiaApiServiceOptions, ResponseSchema } from './services/api';
+
+// Structured logging
+export {
+  Logger,
+  RotatingFileSink,
+  consoleSink,
+  getLogger,
+  configureLogger,
+  redact,
+  isSensitiveKey,
+  REDACTED,
+} from './services/logger';
+export type {
+  LogLevel,
+  LogMetadata,
+  LogEntry,
+  LogSink,
+  LoggerOptions,
+  LoggerState,
+} from './services/logger';
+
+// Encrypted credential storage
+export {
+  CredentialVault,
+  staticCredentialSource,
+  isCredentialSource,
+  DEFAULT_SCRYPT_PARAMS,
+} from './services/credentials';
+export type {
+  CredentialSource,
+  CredentialVaultOptions,
+  CredentialVaultMetadata,
+  ScryptParams,
+} from './services/credentials';
+
+// Two-level cache
+export {
+  CacheService,
+  DEFAULT_CACHE_DIRECTORY,
+  DEFAULT_CACHE_TTL_MS,
+  getEntryExpiry,
+  isEntryExpired,
+} from './services/cache';
+export type { CacheServiceOptions, CacheSetOptions, CacheStats } from './services/cache';
+
+// Cache invalidation events
+export {
+  CacheEventBus,
+  ALL_TRIGGERS,
+  bindCacheInvalidation,
+  detectProfileChanges,
+} from './services/events';
+export type {
+  CacheInvalidationEvent,
+  CacheInvalidationEventInput,
+  CacheInvalidationListener,
+  CacheInvalidationTopic,
+  CacheInvalidationBinding,
+  InvalidatableCache,
+  InvalidationRecord,
+  ProfileSnapshot,
+  PublishResult,
+} from './services/events';
 
-// TODO: Export configuration agent once implemented
-// export { ConfigurationAgent } from './agents/config';
+// Client-side rate limiting
+export { RateLimiter, DEFAULT_RATE_LIMIT_RULE } from './services/rate-limiter';
+export type {
+  RateLimitRule,
+  RateLimiterOptions,
+  RateLimiterStats,
+  BucketStats,
+} from './services/rate-limiter';
 
-// TODO: Export invoice agent once implemented
-// export { InvoiceAgent } from './agents/invoice';
+// Invoice confirmation
+export {
+  TerminalConfirmationProvider,
+  FileConfirmationProvider,
+  callbackConfirmationProvider,
+  MemoryConfirmationLog,
+  JsonLinesConfirmationLog,
+  DEFAULT_CONFIRMATION_LOG_PATH,
+  renderInvoiceSummary,
+  requireConfirmation,
+} from './services/confirmation';
+export type {
+  ConfirmationCallback,
+  ConfirmationDecision,
+  ConfirmationLog,
+  ConfirmationProvider,
+  ConfirmationRecord,
+  ConfirmationRequest,
+  TerminalConfirmationProviderOptions,
+} from './services/confirmation';
 
-// TODO: Export API service once implemented
-// export { EkuatiaApiService } from './services/api';
+// Submission ledger
+export {
+  SubmissionLedger,
+  MemorySubmissionStore,
+  FileSubmissionStore,
+  classifySubmissionFailure,
+  submissionEntrySchema,
+  submissionStateSchema,
+  DEFAULT_LEDGER_DIRECTORY,
+} from './services/ledger';
+export type {
+  DocumentLookup,
+  DocumentLookupResult,
+  DocumentSearch,
+  SubmissionEntry,
+  SubmissionLedgerOptions,
+  SubmissionOutcome,
+  SubmissionRequest,
+  SubmissionState,
+  SubmissionStore,
+} from './services/ledger';
 
-// TODO: Export cache service once implemented
-// export { CacheService } from './services/cache';
+// Session management
+export { SessionManager, isUnauthorizedError } from './services/session';
+export type { SessionManagerOptions, AuthenticatedRequest } from './services/session';
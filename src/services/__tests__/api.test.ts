@@ -0,0 +1,198 @@
+/**
+ * PURPOSE: Test suite for EkuatiaApiService endpoint methods and error mapping
+ *
+ * REASONING:
+ * - Asserts the exact request each endpoint method sends
+ * - Covers envelope unwrapping and every error translation path
+ */
+
+import { describe, test, expect, beforeEach } from 'vitest';
+import { AxiosError, type AxiosInstance, type InternalAxiosRequestConfig } from 'axios';
+import { EkuatiaApiService, EKUATIA_ENDPOINTS } from '../api';
+import {
+  AuthenticationError,
+  ConfigurationError,
+  InvoiceCreationError,
+  InvalidResponseError,
+  SystemError,
+  TimeoutError,
+} from '../../types/errors';
+import {
+  createMockAxios,
+  createMockEkuatiaConfig,
+  createMockHttpResponse,
+} from '../../utils/test-helpers';
+import {
+  MOCK_ERROR_CSC_INVALID,
+  MOCK_ERROR_DOCUMENTO_DUPLICADO,
+  MOCK_ESTABLISHMENT,
+  MOCK_PROFILE,
+} from '@tests/mocks/ekuatia';
+
+const TOKEN = 'session_token_abcdef123456789';
+
+const envelope = <T>(data: T) => ({ success: true, data, timestamp: '2026-01-27T01:30:00Z' });
+
+const createAxiosError = (
+  status: number | undefined,
+  data?: unknown,
+  code?: string,
+  headers: Record<string, string> = {}
+) => {
+  const config = { headers: {} } as InternalAxiosRequestConfig;
+  const response =
+    status === undefined ? undefined : { status, statusText: 'Error', data, headers, config };
+  return new AxiosError('Request failed', code, config, undefined, response);
+};
+
+describe('EkuatiaApiService', () => {
+  let mockAxios: ReturnType<typeof createMockAxios>;
+  let api: EkuatiaApiService;
+
+  beforeEach(() => {
+    mockAxios = createMockAxios();
+    api = new EkuatiaApiService({
+      baseUrl: 'https://ekuatia.test/ekuatiai/',
+      timeoutMs: 4000,
+      httpClient: mockAxios as unknown as AxiosInstance,
+    });
+  });
+
+  describe('Happy Path', () => {
+    test('should unwrap the profile envelope and send the bearer token', async () => {
+      const body = { profile: MOCK_PROFILE, establishment_data: MOCK_ESTABLISHMENT };
+      mockAxios.request.mockResolvedValue(createMockHttpResponse(envelope(body)));
+
+      const result = await api.getProfile(TOKEN);
+
+      expect(result).toEqual(body);
+      expect(mockAxios.request).toHaveBeenCalledWith(
+        expect.objectContaining({
+          method: 'GET',
+          url: '/perfil',
+          headers: { Authorization: `Bearer ${TOKEN}` },
+          timeout: 4000,
+        })
+      );
+    });
+
+    test('should post the configuration to /configuracion/guardar', async () => {
+      const config = createMockEkuatiaConfig();
+      mockAxios.request.mockResolvedValue(
+        createMockHttpResponse(envelope({ configuration_id: 'CFG-1', success_status: 'SUCCESS' }))
+      );
+
+      const result = await api.saveConfiguration(TOKEN, config);
+
+      expect(result.configuration_id).toBe('CFG-1');
+      expect(mockAxios.request).toHaveBeenCalledWith(
+        expect.objectContaining({ method: 'POST', url: '/configuracion/guardar', data: config })
+      );
+    });
+
+    test('should encode document identifiers in the URL', async () => {
+      mockAxios.request.mockResolvedValue(
+        createMockHttpResponse(envelope({ signed_document: '<xml/>', timestamp: 'now' }))
+      );
+
+      await api.signDocument(TOKEN, 'DOC/1', { electronic_signature: 'sig' });
+
+      expect(mockAxios.request).toHaveBeenCalledWith(
+        expect.objectContaining({ url: '/documento/DOC%2F1/firmar' })
+      );
+      expect(EKUATIA_ENDPOINTS.document('42')).toBe('/documento/42');
+    });
+
+    test('should let a request override the default timeout', async () => {
+      mockAxios.request.mockResolvedValue(createMockHttpResponse(envelope([])));
+
+      const response = await api.request({ method: 'GET', url: '/herramientas', timeout: 100 });
+
+      expect(response.config.timeout).toBe(100);
+      expect(mockAxios.request).toHaveBeenCalledWith(expect.objectContaining({ timeout: 100 }));
+    });
+  });
+
+  describe('Error Scenarios', () => {
+    test('should surface request timeouts as TimeoutError', async () => {
+      mockAxios.request.mockRejectedValue(createAxiosError(undefined, undefined, 'ECONNABORTED'));
+
+      const error = await api.getTools(TOKEN).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect((error as TimeoutError).context).toMatchObject({
+        endpoint: '/herramientas',
+        timeoutMs: 4000,
+      });
+    });
+
+    test('should classify configuration error bodies', async () => {
+      mockAxios.request.mockResolvedValue(createMockHttpResponse(MOCK_ERROR_CSC_INVALID));
+
+      await expect(api.getConfigurationForm(TOKEN)).rejects.toBeInstanceOf(ConfigurationError);
+    });
+
+    test('should classify invoice error bodies sent with an HTTP error status', async () => {
+      mockAxios.request.mockRejectedValue(createAxiosError(409, MOCK_ERROR_DOCUMENTO_DUPLICADO));
+
+      const error = await api.createDocument(TOKEN, {} as never).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(InvoiceCreationError);
+      expect((error as InvoiceCreationError).code).toBe('DOCUMENTO_DUPLICADO');
+    });
+
+    test('should report 401 on authenticated endpoints as SESSION_EXPIRED', async () => {
+      mockAxios.request.mockRejectedValue(createAxiosError(401));
+
+      const error = await api.getDocumentTypes(TOKEN).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(AuthenticationError);
+      expect((error as AuthenticationError).code).toBe('SESSION_EXPIRED');
+    });
+
+    test('should reject bodies without the ApiResponse envelope', async () => {
+      mockAxios.request.mockResolvedValue(createMockHttpResponse({ documento_id: '1' }));
+
+      await expect(api.getDocument(TOKEN, '1')).rejects.toBeInstanceOf(InvalidResponseError);
+    });
+
+    test('should record the Retry-After delay on throttled responses', async () => {
+      mockAxios.request.mockRejectedValue(
+        createAxiosError(429, 'Too Many Requests', undefined, { 'retry-after': '7' })
+      );
+
+      const error = await api.getProfile(TOKEN).catch((e: unknown) => e);
+
+      expect((error as SystemError).context).toMatchObject({
+        statusCode: '429',
+        retryAfterMs: 7000,
+      });
+    });
+
+    test('should reject payloads that do not match the endpoint schema', async () => {
+      mockAxios.request.mockResolvedValue(
+        createMockHttpResponse(
+          envelope({ profile: { ...MOCK_PROFILE, ruc_status: 'Baja' }, establishment_data: {} })
+        )
+      );
+
+      const error = await api.getProfile(TOKEN).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(InvalidResponseError);
+      expect((error as InvalidResponseError).isRetryable()).toBe(false);
+      expect((error as InvalidResponseError).context?.validationErrors).toMatchObject({
+        'profile.ruc_status': [expect.any(String)],
+        'establishment_data.city': ['Required'],
+      });
+    });
+
+    test('should keep the HTTP status of unexpected server failures', async () => {
+      mockAxios.request.mockRejectedValue(createAxiosError(502, 'Bad Gateway'));
+
+      const error = await api.getProfile(TOKEN).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(SystemError);
+      expect((error as SystemError).context?.statusCode).toBe('502');
+    });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * PURPOSE: Test suite for the two-level CacheService
+ *
+ * REASONING:
+ * - Level 2 runs against a temp directory so persistence is real but isolated
+ * - Fake Date.now() drives TTL expiry without waiting
+ * - Corrupted and half-written files must never surface as cached data
+ */
+
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CacheService } from '../cache';
+import { storedConfigurationSchema, type StoredConfiguration } from '../../agents/config';
+import { createMockEkuatiaConfig } from '../../utils/test-helpers';
+
+const KEY = 'ekuatia_config_5452' as const;
+
+const stored = (configurationId = 'CFG-001'): StoredConfiguration => ({
+  configuration_id: configurationId,
+  config: createMockEkuatiaConfig('BASICA'),
+  saved_timestamp: '2026-01-25T15:51:22.869Z',
+});
+
+describe('CacheService', () => {
+  let directory: string;
+
+  const createCache = (config: { ttlMs: number; maxSize?: number } = { ttlMs: 60000 }) =>
+    new CacheService<StoredConfiguration>(config, {
+      directory,
+      schema: storedConfigurationSchema,
+    });
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'ekuatia-cache-'));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  describe('Happy Path', () => {
+    test('should store CacheEntry metadata and read it back', async () => {
+      const cache = createCache();
+
+      await cache.set(KEY, stored(), { invalidationTriggers: ['csc_update'] });
+      const entry = await cache.getEntry(KEY);
+
+      expect(entry?.data).toEqual(stored());
+      expect(entry?.cache_duration).toBe('60000');
+      expect(entry?.invalidation_triggers).toEqual(['csc_update']);
+      expect(Number.isNaN(Date.parse(entry?.stored_timestamp ?? ''))).toBe(false);
+    });
+
+    test('should serve a new instance from level 2 and promote it to level 1', async () => {
+      await createCache().set(KEY, stored());
+
+      const fresh = createCache();
+      expect(await fresh.get(KEY)).toEqual(stored());
+      expect(await fresh.get(KEY)).toEqual(stored());
+
+      expect(fresh.getStats()).toMatchObject({ diskHits: 1, memoryHits: 1, memoryEntries: 1 });
+    });
+
+    test('should keep entries in memory only when the directory is null', async () => {
+      const cache = new CacheService<string>({ ttlMs: 60000 }, { directory: null });
+
+      await cache.set(KEY, 'value');
+
+      expect(await cache.get(KEY)).toBe('value');
+      expect(await readdir(directory)).toEqual([]);
+    });
+  });
+
+  describe('Expiry and Eviction', () => {
+    test('should treat entries past their TTL as misses and remove the file', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+      const cache = createCache({ ttlMs: 1000 });
+      await cache.set(KEY, stored());
+
+      vi.setSystemTime(new Date('2026-01-01T00:00:01Z'));
+
+      expect(await cache.get(KEY)).toBeNull();
+      expect(await readdir(directory)).toEqual([]);
+    });
+
+    test('should sweep expired entries from both levels', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+      const cache = createCache({ ttlMs: 1000 });
+      await cache.set(KEY, stored());
+      await cache.set('ekuatia_config_80000005', stored('CFG-002'), { ttlMs: 10000 });
+
+      vi.setSystemTime(new Date('2026-01-01T00:00:05Z'));
+
+      expect(await cache.cleanup()).toBe(2);
+      expect(await cache.get('ekuatia_config_80000005')).toEqual(stored('CFG-002'));
+    });
+
+    test('should evict the oldest entries beyond maxSize', async () => {
+      const cache = createCache({ ttlMs: 60000, maxSize: 2 });
+
+      await cache.set('ekuatia_config_1', stored('A'));
+      await cache.set('ekuatia_config_2', stored('B'));
+      await cache.get('ekuatia_config_1');
+      await cache.set('ekuatia_config_3', stored('C'));
+
+      expect(cache.getStats().memoryEntries).toBe(2);
+      expect((await readdir(directory)).length).toBe(2);
+      expect(await cache.get('ekuatia_config_3')).toEqual(stored('C'));
+    });
+  });
+
+  describe('Invalidation', () => {
+    test('should remove only entries listing the trigger', async () => {
+      const cache = createCache();
+      await cache.set(KEY, stored(), { invalidationTriggers: ['csc_update'] });
+      await cache.set('ekuatia_config_80000005', stored('CFG-002'), {
+        invalidationTriggers: ['timbrado_expiration'],
+      });
+
+      const removed = await cache.invalidateByTrigger('csc_update');
+
+      expect(removed).toEqual([KEY]);
+      expect(await cache.get(KEY)).toBeNull();
+      expect(await createCache().get('ekuatia_config_80000005')).toEqual(stored('CFG-002'));
+    });
+  });
+
+  describe('Durability', () => {
+    test('should write through a temp file and leave no temp files behind', async () => {
+      const cache = createCache();
+
+      await cache.set(KEY, stored());
+
+      const files = await readdir(directory);
+      expect(files).toEqual([`${KEY}.json`]);
+      const entry = JSON.parse(await readFile(join(directory, files[0] ?? ''), 'utf8')) as {
+        data: StoredConfiguration;
+      };
+      expect(entry.data.configuration_id).toBe('CFG-001');
+    });
+
+    test('should discard corrupted or mismatching files as a miss', async () => {
+      await writeFile(join(directory, `${KEY}.json`), '{"data": {"configuration_id"');
+      await writeFile(
+        join(directory, 'ekuatia_config_2.json'),
+        JSON.stringify({
+          data: { unexpected: true },
+          stored_timestamp: new Date().toISOString(),
+          cache_duration: '60000',
+          invalidation_triggers: [],
+        })
+      );
+      const cache = createCache();
+
+      expect(await cache.get(KEY)).toBeNull();
+      expect(await cache.get('ekuatia_config_2')).toBeNull();
+      expect(await readdir(directory)).toEqual([]);
+    });
+  });
+});
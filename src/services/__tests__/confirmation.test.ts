@@ -0,0 +1,156 @@
+/**
+ * PURPOSE: Test suite for invoice confirmation providers and decision logs
+ *
+ * REASONING:
+ * - Each built-in provider must answer with the hash it actually approved and who approved it
+ * - The file provider is the CI path, so missing and malformed approval files must be explicit
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'vitest';
+import { PassThrough } from 'node:stream';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  FileConfirmationProvider,
+  JsonLinesConfirmationLog,
+  TerminalConfirmationProvider,
+  renderInvoiceSummary,
+  requireConfirmation,
+  type ConfirmationRequest,
+} from '../confirmation';
+import { Logger } from '../logger';
+import { buildInvoicePayload, invoicePayloadHash } from '../../agents/invoice';
+import type { RucWithoutDV } from '../../types/common';
+import { createMockEkuatiaConfig, createMockInvoiceData } from '../../utils/test-helpers';
+
+const RUC = '5452' as RucWithoutDV;
+const silent = new Logger({ level: 'error', includeTimestamp: false }, { sinks: [] });
+
+const request = (): ConfirmationRequest => {
+  const payload = buildInvoicePayload(createMockInvoiceData(), createMockEkuatiaConfig(), RUC);
+  const payloadHash = invoicePayloadHash(payload);
+  return { ruc: RUC, payload, payloadHash, summary: renderInvoiceSummary(payload, payloadHash) };
+};
+
+describe('renderInvoiceSummary', () => {
+  test('should show the receptor, totals and payload hash', () => {
+    const { summary, payloadHash } = request();
+
+    expect(summary).toContain('Receptor: Cliente S.A. (1234567)');
+    expect(summary).toContain('Total: 500.000 PYG');
+    expect(summary).toContain(`Hash del documento: ${payloadHash}`);
+  });
+});
+
+describe('TerminalConfirmationProvider', () => {
+  const ask = async (answer: string) => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const provider = new TerminalConfirmationProvider({ input, output, approver: 'ana' });
+    const decision = provider.confirm(request());
+    input.end(`${answer}\n`);
+    return decision;
+  };
+
+  test('should approve only on an explicit yes', async () => {
+    await expect(ask('Sí')).resolves.toMatchObject({ approved: true, approvedBy: 'ana' });
+    await expect(ask('')).resolves.toMatchObject({ approved: false });
+    await expect(ask('tal vez')).resolves.toMatchObject({ approved: false });
+  });
+
+  test('should reject when the input ends without an answer', async () => {
+    const input = new PassThrough();
+    const provider = new TerminalConfirmationProvider({
+      input,
+      output: new PassThrough(),
+      approver: 'ana',
+    });
+
+    const decision = provider.confirm(request());
+    input.end();
+
+    await expect(decision).resolves.toMatchObject({
+      approved: false,
+      note: 'Entrada cerrada sin respuesta',
+    });
+  });
+
+  test('should reject when the input already ended', async () => {
+    const input = new PassThrough();
+    input.end();
+    input.resume();
+    await new Promise((resolve) => input.once('end', resolve));
+    const provider = new TerminalConfirmationProvider({ input, output: new PassThrough() });
+
+    await expect(provider.confirm(request())).resolves.toMatchObject({ approved: false });
+  });
+});
+
+describe('FileConfirmationProvider', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ekuatia-confirm-'));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('should approve payloads listed by hash', async () => {
+    const pending = request();
+    const file = join(dir, 'approvals.json');
+    await writeFile(
+      file,
+      JSON.stringify({
+        approvals: [{ payloadHash: pending.payloadHash, approvedBy: 'ci:release' }],
+      })
+    );
+
+    await expect(new FileConfirmationProvider(file).confirm(pending)).resolves.toMatchObject({
+      approved: true,
+      approvedBy: 'ci:release',
+      payloadHash: pending.payloadHash,
+    });
+  });
+
+  test('should reject unlisted payloads and a missing file', async () => {
+    const file = join(dir, 'other.json');
+    await writeFile(file, JSON.stringify({ approvals: [] }));
+
+    await expect(new FileConfirmationProvider(file).confirm(request())).resolves.toMatchObject({
+      approved: false,
+    });
+    await expect(
+      new FileConfirmationProvider(join(dir, 'missing.json')).confirm(request())
+    ).resolves.toMatchObject({ approved: false, note: 'Archivo de aprobaciones no encontrado' });
+  });
+
+  test('should fail on a malformed approvals file', async () => {
+    const file = join(dir, 'broken.json');
+    await writeFile(file, JSON.stringify({ approvals: [{ payloadHash: 'abc' }] }));
+
+    await expect(new FileConfirmationProvider(file).confirm(request())).rejects.toMatchObject({
+      code: 'INVALID_SETTINGS',
+    });
+  });
+
+  test('should append every decision to the JSON-lines log', async () => {
+    const pending = request();
+    const log = new JsonLinesConfirmationLog(join(dir, 'audit', 'confirmations.jsonl'));
+    const file = join(dir, 'approvals.json');
+    const provider = new FileConfirmationProvider(file);
+
+    await requireConfirmation(provider, pending, log, silent);
+    await writeFile(file, JSON.stringify({ approvals: [] }));
+    await expect(requireConfirmation(provider, pending, log, silent)).rejects.toMatchObject({
+      code: 'CONFIRMATION_REJECTED',
+    });
+
+    expect((await log.read()).map((record) => [record.approvedBy, record.accepted])).toEqual([
+      ['ci:release', true],
+      [`file:${file}`, false],
+    ]);
+  });
+});
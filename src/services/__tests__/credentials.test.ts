@@ -0,0 +1,159 @@
+/**
+ * PURPOSE: Test suite for the encrypted credential vault
+ *
+ * REASONING:
+ * - Runs against a throwaway temp directory with MOCK_CREDENTIALS
+ * - Lowered scrypt cost keeps the suite fast without changing the code path
+ */
+
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CredentialVault, type ScryptParams } from '../credentials';
+import { SessionManager } from '../session';
+import { createCredentialSource, loadSettings } from '../../config/settings';
+import { AuthenticationError, ConfigurationError } from '../../types/errors';
+import { MOCK_CREDENTIALS, MOCK_LOGIN_RESPONSE } from '@tests/mocks/ekuatia';
+
+const FAST_SCRYPT: ScryptParams = { N: 1024, r: 8, p: 1 };
+const PASSPHRASE = 'correct horse battery staple';
+
+describe('CredentialVault', () => {
+  let dir: string;
+  let filePath: string;
+  let vault: CredentialVault;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ekuatia-vault-'));
+    filePath = join(dir, 'nested', 'credentials.vault');
+    vault = new CredentialVault({ filePath, passphrase: PASSPHRASE, scryptParams: FAST_SCRYPT });
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe('Happy Path', () => {
+    test('should round-trip credentials without storing the key in plaintext', async () => {
+      await vault.save(MOCK_CREDENTIALS);
+
+      const raw = await readFile(filePath, 'utf8');
+      expect(raw).not.toContain(MOCK_CREDENTIALS.password);
+      expect(await vault.load()).toEqual(MOCK_CREDENTIALS);
+      expect((await stat(filePath)).mode & 0o777).toBe(0o600);
+    });
+
+    test('should rotate the access key and keep the creation date', async () => {
+      await vault.save(MOCK_CREDENTIALS);
+      const before = await vault.getMetadata();
+
+      const rotated = await vault.rotate({ password: 'new_marangatu_key' });
+
+      expect(rotated.password).toBe('new_marangatu_key');
+      expect((await vault.load()).password).toBe('new_marangatu_key');
+      expect((await vault.getMetadata()).createdAt).toBe(before.createdAt);
+    });
+
+    test('should re-encrypt under a new passphrase', async () => {
+      await vault.save(MOCK_CREDENTIALS);
+
+      await vault.changePassphrase('another passphrase');
+
+      const reopened = new CredentialVault({ filePath, passphrase: 'another passphrase' });
+      expect(await reopened.load()).toEqual(MOCK_CREDENTIALS);
+    });
+
+    test('should feed a SessionManager through the settings credential source', async () => {
+      await vault.save(MOCK_CREDENTIALS);
+      const settings = loadSettings({
+        RUC: MOCK_CREDENTIALS.username,
+        CREDENTIAL_VAULT_PATH: filePath,
+        CREDENTIAL_VAULT_PASSPHRASE: PASSPHRASE,
+      });
+      const authAgent = { login: vi.fn().mockResolvedValue(MOCK_LOGIN_RESPONSE.data) };
+
+      const session = new SessionManager(authAgent, createCredentialSource(settings));
+      await session.getToken();
+
+      expect(authAgent.login).toHaveBeenCalledWith(MOCK_CREDENTIALS);
+    });
+  });
+
+  describe('Error Scenarios', () => {
+    test('should reject a wrong passphrase', async () => {
+      await vault.save(MOCK_CREDENTIALS);
+      const locked = new CredentialVault({ filePath, passphrase: 'wrong' });
+
+      const error = await locked.load().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ConfigurationError);
+      expect((error as ConfigurationError).code).toBe('CREDENTIALS_UNAVAILABLE');
+    });
+
+    test('should detect a tampered ciphertext', async () => {
+      await vault.save(MOCK_CREDENTIALS);
+      const file = JSON.parse(await readFile(filePath, 'utf8')) as {
+        cipher: { ciphertext: string };
+      };
+      file.cipher.ciphertext = Buffer.from('tampered').toString('base64');
+      await writeFile(filePath, JSON.stringify(file));
+
+      await expect(vault.load()).rejects.toMatchObject({ code: 'CREDENTIALS_UNAVAILABLE' });
+    });
+
+    test('should not replace a vault that the passphrase cannot unlock', async () => {
+      await vault.save(MOCK_CREDENTIALS);
+      const other = new CredentialVault({
+        filePath,
+        passphrase: 'wrong',
+        scryptParams: FAST_SCRYPT,
+      });
+
+      await expect(
+        other.save({ ...MOCK_CREDENTIALS, password: 'other_key' })
+      ).rejects.toMatchObject({ code: 'CREDENTIALS_UNAVAILABLE' });
+      expect(await vault.load()).toEqual(MOCK_CREDENTIALS);
+
+      await other.save({ ...MOCK_CREDENTIALS, password: 'other_key' }, { overwrite: true });
+      expect((await other.load()).password).toBe('other_key');
+    });
+
+    test('should refuse to store a RUC with check digit', async () => {
+      await expect(vault.save({ ...MOCK_CREDENTIALS, username: '5452-6' })).rejects.toBeInstanceOf(
+        AuthenticationError
+      );
+      expect(await vault.exists()).toBe(false);
+    });
+  });
+
+  describe('Edge Cases', () => {
+    test('should report a missing vault file', async () => {
+      await expect(vault.load()).rejects.toMatchObject({ code: 'CREDENTIALS_UNAVAILABLE' });
+    });
+
+    test('should keep concurrent saves from sharing a temp file', async () => {
+      await vault.save(MOCK_CREDENTIALS);
+
+      await Promise.all([
+        vault.save({ ...MOCK_CREDENTIALS, password: 'key_a' }),
+        vault.save({ ...MOCK_CREDENTIALS, password: 'key_b' }),
+      ]);
+
+      expect(['key_a', 'key_b']).toContain((await vault.load()).password);
+    });
+
+    test('should reject vault credentials that belong to another RUC', async () => {
+      await vault.save({ ...MOCK_CREDENTIALS, username: '1234567' });
+      const settings = loadSettings({
+        RUC: '5452',
+        CREDENTIAL_VAULT_PATH: filePath,
+        CREDENTIAL_VAULT_PASSPHRASE: PASSPHRASE,
+      });
+
+      await expect(createCredentialSource(settings).getCredentials()).rejects.toMatchObject({
+        code: 'CREDENTIALS_UNAVAILABLE',
+      });
+    });
+  });
+});
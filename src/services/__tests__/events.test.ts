@@ -0,0 +1,175 @@
+/**
+ * PURPOSE: Test suite for the cache invalidation event bus
+ *
+ * REASONING:
+ * - Profile diffs must map each changed field to the documented trigger
+ * - A real memory-only CacheService proves entries are dropped only for matching triggers
+ * - SessionManager must publish when a re-login returns a changed profile
+ */
+
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+import {
+  CacheEventBus,
+  bindCacheInvalidation,
+  detectProfileChanges,
+  type CacheInvalidationEvent,
+} from '../events';
+import { CacheService } from '../cache';
+import { Logger } from '../logger';
+import { SessionManager } from '../session';
+import { MOCK_CREDENTIALS, MOCK_LOGIN_RESPONSE } from '@tests/mocks/ekuatia';
+
+const KEY = 'ekuatia_config_5452' as const;
+const snapshot = MOCK_LOGIN_RESPONSE.data;
+
+describe('CacheEventBus', () => {
+  let bus: CacheEventBus;
+
+  beforeEach(() => {
+    bus = new CacheEventBus();
+  });
+
+  describe('Happy Path', () => {
+    test('should deliver events to trigger and wildcard subscribers', async () => {
+      const specific = vi.fn();
+      const all = vi.fn();
+      const other = vi.fn();
+      bus.subscribe('csc_update', specific);
+      bus.subscribe('*', all);
+      bus.subscribe('ruc_status_change', other);
+
+      const result = await bus.publish({ trigger: 'csc_update', ruc: '5452', reason: 'CSC' });
+
+      expect(result).toEqual({ delivered: 2, errors: [] });
+      expect(specific).toHaveBeenCalledWith(
+        expect.objectContaining({ trigger: 'csc_update', occurredAt: expect.any(String) })
+      );
+      expect(all).toHaveBeenCalledTimes(1);
+      expect(other).not.toHaveBeenCalled();
+    });
+
+    test('should stop delivering after unsubscribe', async () => {
+      const listener = vi.fn();
+      const unsubscribe = bus.subscribe('*', listener);
+
+      unsubscribe();
+      await bus.publish({ trigger: 'csc_update', ruc: '5452', reason: 'CSC' });
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(bus.listenerCount()).toBe(0);
+    });
+  });
+
+  describe('Error Scenarios', () => {
+    test('should keep delivering when one listener fails', async () => {
+      bus = new CacheEventBus(
+        new Logger({ level: 'error', includeTimestamp: false }, { sinks: [] })
+      );
+      const healthy = vi.fn();
+      bus.subscribe('*', () => Promise.reject(new Error('boom')));
+      bus.subscribe('*', healthy);
+
+      const result = await bus.publish({ trigger: 'csc_update', ruc: '5452', reason: 'CSC' });
+
+      expect(healthy).toHaveBeenCalled();
+      expect(result.delivered).toBe(1);
+      expect(result.errors).toHaveLength(1);
+    });
+  });
+});
+
+describe('detectProfileChanges', () => {
+  test('should report nothing for identical snapshots', () => {
+    expect(detectProfileChanges('5452', snapshot, snapshot)).toEqual([]);
+  });
+
+  test('should map each changed field to its trigger', () => {
+    const current = {
+      profile: {
+        ...snapshot.profile,
+        ruc_status: 'Suspendido' as const,
+        csc: 'NEW_CSC',
+        numero_timbrado: '99999999',
+      },
+      establishment_data: { ...snapshot.establishment_data, address: 'Calle Nueva 456' },
+    };
+
+    const events = detectProfileChanges('5452', snapshot, current);
+
+    expect(events.map((event) => event.trigger)).toEqual([
+      'ruc_status_change',
+      'csc_update',
+      'timbrado_expiration',
+      'establishment_update',
+    ]);
+    expect(events[3]?.reason).toContain('address');
+  });
+
+  test('should never copy CSC values into the event', () => {
+    const current = { ...snapshot, profile: { ...snapshot.profile, csc: 'NEW_CSC' } };
+
+    const [event] = detectProfileChanges('5452', snapshot, current);
+
+    expect(JSON.stringify(event)).not.toContain('NEW_CSC');
+    expect(JSON.stringify(event)).not.toContain(snapshot.profile.csc);
+  });
+});
+
+describe('bindCacheInvalidation', () => {
+  test('should drop entries listing the trigger and record the reason', async () => {
+    const bus = new CacheEventBus();
+    const cache = new CacheService<string>({ ttlMs: 60000 }, { directory: null });
+    await cache.set(KEY, 'config', { invalidationTriggers: ['csc_update'] });
+    const binding = bindCacheInvalidation(bus, cache);
+
+    await bus.publish({ trigger: 'ruc_status_change', ruc: '5452', reason: 'Estado' });
+    expect(await cache.get(KEY)).toBe('config');
+
+    await bus.publish({ trigger: 'csc_update', ruc: '5452', reason: 'CSC nuevo', source: 'test' });
+    expect(await cache.get(KEY)).toBeNull();
+    expect(binding.getHistory()).toEqual([
+      expect.objectContaining({ key: KEY, trigger: 'csc_update', reason: 'CSC nuevo' }),
+    ]);
+  });
+
+  test('should leave other RUCs untouched', async () => {
+    const bus = new CacheEventBus();
+    const cache = new CacheService<string>({ ttlMs: 60000 }, { directory: null });
+    await cache.set(KEY, 'config');
+    bindCacheInvalidation(bus, cache);
+
+    await bus.publish({ trigger: 'csc_update', ruc: '80000005', reason: 'CSC' });
+
+    expect(await cache.get(KEY)).toBe('config');
+  });
+});
+
+describe('SessionManager profile change publishing', () => {
+  test('should publish changes detected on re-login', async () => {
+    const bus = new CacheEventBus();
+    const received: CacheInvalidationEvent[] = [];
+    bus.subscribe('*', (event) => {
+      received.push(event);
+    });
+    const login = vi
+      .fn()
+      .mockResolvedValueOnce(snapshot)
+      .mockResolvedValueOnce({
+        ...snapshot,
+        profile: { ...snapshot.profile, ruc_status: 'Suspendido' },
+      });
+    const manager = new SessionManager({ login }, MOCK_CREDENTIALS, { events: bus });
+
+    await manager.refresh();
+    expect(received).toEqual([]);
+
+    await manager.refresh();
+    expect(received).toEqual([
+      expect.objectContaining({
+        trigger: 'ruc_status_change',
+        ruc: MOCK_CREDENTIALS.username,
+        source: 'session',
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * PURPOSE: Test suite for the invoice submission ledger
+ *
+ * REASONING:
+ * - A lost response must never lead to a second POST unless the server proves the document is absent
+ * - Refused requests (rate limit, validation) must stay resubmittable
+ * - Entries must survive a restart, so the file store is exercised as well as the memory one
+ * - Concurrent submissions of one payload must not both reach the server
+ */
+
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  SubmissionLedger,
+  classifySubmissionFailure,
+  type DocumentLookup,
+  type SubmissionRequest,
+} from '../ledger';
+import { buildInvoicePayload } from '../../agents/invoice';
+import { Logger } from '../logger';
+import {
+  ConfigurationError,
+  InvalidResponseError,
+  InvoiceCreationError,
+  RateLimitError,
+  SystemError,
+  TimeoutError,
+} from '../../types/errors';
+import type { RucWithoutDV } from '../../types/common';
+import type { DocumentCreationResponse } from '../../types/ekuatia';
+import { hashCanonical } from '../../utils/hash';
+import { DEFAULT_RETRY_CONFIG, withRetry } from '../../utils/retry';
+import { createMockEkuatiaConfig, createMockInvoiceData } from '../../utils/test-helpers';
+
+const RUC = '5452' as RucWithoutDV;
+const DOCUMENT: DocumentCreationResponse = {
+  documento_id: 'DOC-001',
+  cdc: '01800054520010010000001202601251',
+};
+
+describe('SubmissionLedger', () => {
+  const silent = new Logger({ level: 'error', includeTimestamp: false }, { sinks: [] });
+  const payload = buildInvoicePayload(
+    createMockInvoiceData(),
+    createMockEkuatiaConfig('BASICA'),
+    RUC
+  );
+  const payloadHash = hashCanonical(payload);
+  const request: SubmissionRequest = { ruc: RUC, payload, payloadHash };
+  const unknown: DocumentLookup = () => Promise.resolve({ status: 'unknown' });
+
+  let ledger: SubmissionLedger;
+
+  beforeEach(() => {
+    ledger = new SubmissionLedger({ directory: null, logger: silent });
+  });
+
+  test('should record a successful submission with its document', async () => {
+    const send = vi.fn().mockResolvedValue(DOCUMENT);
+
+    const outcome = await ledger.submit(request, send, unknown);
+
+    expect(outcome).toMatchObject({ document: DOCUMENT, reused: false });
+    expect(await ledger.get(payloadHash)).toMatchObject({
+      state: 'submitted',
+      attempts: 1,
+      documento_id: 'DOC-001',
+      ruc_receptor: payload.datos_receptor.ruc_receptor,
+    });
+  });
+
+  test('should record the pending state before calling the server', async () => {
+    let seen: unknown;
+    await ledger.submit(
+      request,
+      async () => {
+        seen = (await ledger.get(payloadHash))?.state;
+        return DOCUMENT;
+      },
+      unknown
+    );
+
+    expect(seen).toBe('pending');
+  });
+
+  test('should return a registered document without sending it again', async () => {
+    await ledger.submit(request, () => Promise.resolve(DOCUMENT), unknown);
+    const send = vi.fn();
+    const lookup = vi
+      .fn<DocumentLookup>()
+      .mockResolvedValue({ status: 'found', document: DOCUMENT });
+
+    const outcome = await ledger.submit(request, send, lookup);
+
+    expect(outcome).toMatchObject({ document: DOCUMENT, reused: true });
+    expect(lookup).toHaveBeenCalledWith(expect.objectContaining({ documento_id: 'DOC-001' }));
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  test('should post only once when the same payload is submitted concurrently', async () => {
+    let respond: (document: DocumentCreationResponse) => void = () => undefined;
+    const send = vi.fn(
+      () =>
+        new Promise<DocumentCreationResponse>((resolve) => {
+          respond = resolve;
+        })
+    );
+    const found: DocumentLookup = (entry) =>
+      Promise.resolve({
+        status: 'found',
+        document: { documento_id: entry.documento_id ?? '', cdc: entry.cdc ?? '' },
+      });
+
+    const first = ledger.submit(request, send, found);
+    const second = ledger.submit(request, send, found);
+    await vi.waitFor(() => expect(send).toHaveBeenCalledTimes(1));
+    respond(DOCUMENT);
+
+    await expect(first).resolves.toMatchObject({ document: DOCUMENT, reused: false });
+    await expect(second).resolves.toMatchObject({ document: DOCUMENT, reused: true });
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  test('should refuse to resend after a timeout unless the server can be checked', async () => {
+    const timeout = new TimeoutError('Tiempo agotado', 30000);
+    await expect(ledger.submit(request, () => Promise.reject(timeout), unknown)).rejects.toBe(
+      timeout
+    );
+    expect((await ledger.get(payloadHash))?.state).toBe('uncertain');
+
+    const send = vi.fn();
+    await expect(ledger.submit(request, send, unknown)).rejects.toMatchObject({
+      code: 'SUBMISSION_UNCERTAIN',
+    });
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  test('should adopt a document the server registered despite the lost response', async () => {
+    await expect(
+      ledger.submit(request, () => Promise.reject(new SystemError('Conexión reiniciada')), unknown)
+    ).rejects.toThrow();
+
+    const document = await ledger.reconcile(payloadHash, () =>
+      Promise.resolve({ status: 'found', document: DOCUMENT })
+    );
+
+    expect(document).toEqual(DOCUMENT);
+    expect(await ledger.get(payloadHash)).toMatchObject({ state: 'submitted', cdc: DOCUMENT.cdc });
+  });
+
+  test('should return the document found by the next attempt of a retry series', async () => {
+    const send = vi.fn().mockRejectedValueOnce(new TimeoutError('Tiempo agotado', 30000));
+    const lookup = vi
+      .fn<DocumentLookup>()
+      .mockResolvedValue({ status: 'found', document: DOCUMENT });
+
+    const outcome = await withRetry(() => ledger.submit(request, send, lookup), {
+      ...DEFAULT_RETRY_CONFIG,
+      initialDelayMs: 0,
+      maxDelayMs: 0,
+    });
+
+    expect(outcome).toMatchObject({ document: DOCUMENT, reused: true });
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(lookup).toHaveBeenCalledWith(expect.objectContaining({ state: 'uncertain' }));
+  });
+
+  test('should resend once the server confirms the document does not exist', async () => {
+    await expect(
+      ledger.submit(
+        request,
+        () => Promise.reject(new TimeoutError('Tiempo agotado', 30000)),
+        unknown
+      )
+    ).rejects.toThrow();
+
+    const outcome = await ledger.submit(
+      request,
+      () => Promise.resolve(DOCUMENT),
+      () => Promise.resolve({ status: 'not_found' })
+    );
+
+    expect(outcome.reused).toBe(false);
+    expect((await ledger.get(payloadHash))?.attempts).toBe(2);
+  });
+
+  test('should allow resending a request the client refused to send', async () => {
+    await expect(
+      ledger.submit(request, () => Promise.reject(new RateLimitError('Límite excedido')), unknown)
+    ).rejects.toThrow();
+    expect((await ledger.get(payloadHash))?.state).toBe('not_registered');
+
+    const outcome = await ledger.submit(request, () => Promise.resolve(DOCUMENT), unknown);
+
+    expect(outcome.document).toEqual(DOCUMENT);
+  });
+
+  test('should keep reporting a duplicate reported by the server', async () => {
+    const duplicate = new InvoiceCreationError('Documento duplicado', 'DOCUMENTO_DUPLICADO');
+    await expect(ledger.submit(request, () => Promise.reject(duplicate), unknown)).rejects.toBe(
+      duplicate
+    );
+
+    const send = vi.fn();
+    await expect(ledger.submit(request, send, unknown)).rejects.toMatchObject({
+      code: 'DOCUMENTO_DUPLICADO',
+    });
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  test('should settle an uncertain entry resolved by hand', async () => {
+    await expect(
+      ledger.submit(
+        request,
+        () => Promise.reject(new TimeoutError('Tiempo agotado', 30000)),
+        unknown
+      )
+    ).rejects.toThrow();
+
+    await ledger.resolve(payloadHash, null);
+
+    expect((await ledger.get(payloadHash))?.state).toBe('not_registered');
+    expect(await ledger.reconcile(payloadHash, unknown)).toBeNull();
+  });
+
+  describe('classifySubmissionFailure', () => {
+    test('should only treat refused requests as not registered', () => {
+      expect(classifySubmissionFailure(new RateLimitError('Límite'))).toBe('not_registered');
+      expect(classifySubmissionFailure(new ConfigurationError('CSC inválido', 'CSC_INVALID'))).toBe(
+        'not_registered'
+      );
+      expect(classifySubmissionFailure(new TimeoutError('Tiempo agotado', 1000))).toBe('uncertain');
+      expect(classifySubmissionFailure(new SystemError('Error 502'))).toBe('uncertain');
+      expect(classifySubmissionFailure(new InvalidResponseError('Respuesta ilegible'))).toBe(
+        'uncertain'
+      );
+      expect(classifySubmissionFailure(new Error('socket hang up'))).toBe('uncertain');
+    });
+  });
+
+  describe('file store', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'ekuatia-ledger-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    test('should keep entries across ledger instances', async () => {
+      const first = new SubmissionLedger({ directory, logger: silent });
+      await expect(
+        first.submit(
+          request,
+          () => Promise.reject(new TimeoutError('Tiempo agotado', 30000)),
+          unknown
+        )
+      ).rejects.toThrow();
+
+      const second = new SubmissionLedger({ directory, logger: silent });
+
+      expect(await readdir(directory)).toEqual([`${payloadHash}.json`]);
+      await expect(second.submit(request, vi.fn(), unknown)).rejects.toMatchObject({
+        code: 'SUBMISSION_UNCERTAIN',
+      });
+    });
+
+    test('should not treat a damaged entry as never submitted', async () => {
+      await writeFile(join(directory, `${payloadHash}.json`), '{ "state": ');
+      const send = vi.fn();
+
+      await expect(
+        new SubmissionLedger({ directory, logger: silent }).submit(request, send, unknown)
+      ).rejects.toMatchObject({ code: 'SUBMISSION_UNCERTAIN' });
+      expect(send).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * PURPOSE: Test suite for the structured logger
+ *
+ * REASONING:
+ * - A memory sink captures entries without touching stdout
+ * - Redaction is checked on nested payloads shaped like real Ekuatia data
+ * - Rotation runs against a temp directory with a tiny size limit
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Logger, RotatingFileSink, REDACTED, type LogEntry, type LogSink } from '../logger';
+import { AuthenticationError } from '../../types/errors';
+import { createMockEkuatiaConfig } from '../../utils/test-helpers';
+import { MOCK_CREDENTIALS } from '@tests/mocks/ekuatia';
+
+const createMemorySink = () => {
+  const entries: LogEntry[] = [];
+  const lines: string[] = [];
+  const sink: LogSink = {
+    write(entry, line) {
+      entries.push(entry);
+      lines.push(line);
+    },
+  };
+  return { sink, entries, lines };
+};
+
+describe('Logger', () => {
+  let memory: ReturnType<typeof createMemorySink>;
+  let logger: Logger;
+
+  beforeEach(() => {
+    memory = createMemorySink();
+    logger = new Logger(
+      { level: 'info', includeTimestamp: false },
+      { securityLogging: true, sinks: [memory.sink] }
+    );
+  });
+
+  describe('Happy Path', () => {
+    test('should write one JSON object per entry with the component name', () => {
+      logger.child('auth').info('Login ok', { ruc: '5452' });
+
+      expect(JSON.parse(memory.lines[0] ?? '')).toEqual({
+        level: 'info',
+        message: 'Login ok',
+        component: 'auth',
+        ruc: '5452',
+      });
+    });
+
+    test('should serialise EkuatiaBaseError through toJSON()', () => {
+      const error = new AuthenticationError('Rechazado', 'RUC_INACTIVE', { ruc: '5452' });
+
+      logger.error('Login failed', { error });
+
+      expect(memory.entries[0]?.error).toMatchObject({
+        name: 'AuthenticationError',
+        code: 'RUC_INACTIVE',
+        context: { ruc: '5452' },
+        recovery: expect.any(String) as unknown,
+      });
+    });
+  });
+
+  describe('Error Scenarios', () => {
+    test('should mask passwords, tokens, access keys and CSC at any depth', () => {
+      logger.info('Payload', {
+        credentials: MOCK_CREDENTIALS,
+        session: { session_token: 'abc123' },
+        env: { MARANGATU_ACCESS_KEY: 'secret-key' },
+        config: createMockEkuatiaConfig(),
+        items: [{ headers: { Authorization: 'Bearer xyz' } }],
+        note: 'sent Bearer abc.def-ghi',
+      });
+
+      const line = memory.lines[0] ?? '';
+      expect(line).not.toContain(MOCK_CREDENTIALS.password);
+      expect(line).not.toContain('abc123');
+      expect(line).not.toContain('secret-key');
+      expect(line).not.toContain('xyz');
+      expect(line).not.toContain('abc.def-ghi');
+      const entry = memory.entries[0] as Record<string, any>;
+      expect(entry.config.issuer_data.codigo_seguridad_contribuyente).toBe(REDACTED);
+      expect(entry.credentials.username).toBe(MOCK_CREDENTIALS.username);
+    });
+
+    test('should keep non-credential token fields readable', () => {
+      logger.info('Throttle', { tokens: 3, tokensRemaining: 2, approvalToken: 'APR-1' });
+
+      expect(memory.entries[0]).toMatchObject({
+        tokens: 3,
+        tokensRemaining: 2,
+        approvalToken: 'APR-1',
+      });
+    });
+
+    test('should drop entries below the configured level', () => {
+      logger.debug('noise');
+
+      expect(memory.entries).toHaveLength(0);
+    });
+  });
+
+  describe('Edge Cases', () => {
+    test('should emit security events only when SECURITY_LOGGING is on', () => {
+      const quiet = new Logger(
+        { level: 'error', includeTimestamp: true },
+        { securityLogging: false, sinks: [memory.sink] }
+      );
+
+      quiet.security('login_failed', { ruc: '5452' });
+      logger.security('login_failed', { ruc: '5452' });
+
+      expect(memory.entries).toHaveLength(1);
+      expect(memory.entries[0]).toMatchObject({ securityEvent: 'login_failed' });
+    });
+
+    test('should survive circular references', () => {
+      const node: Record<string, unknown> = { name: 'loop' };
+      node.self = node;
+
+      logger.info('Circular', { node });
+
+      expect(memory.entries[0]?.node).toEqual({ name: 'loop', self: '[Circular]' });
+    });
+
+    test('should copy an object shared by two branches instead of marking it circular', () => {
+      const ruc = { value: '5452' };
+
+      logger.info('Shared', { emisor: ruc, receptor: ruc });
+
+      expect(memory.entries[0]).toMatchObject({ emisor: ruc, receptor: ruc });
+    });
+
+    test('should apply a later configuration to children created earlier', () => {
+      const child = logger.child('invoice');
+      const later = createMemorySink();
+
+      logger.configure({ level: 'debug', includeTimestamp: false }, { sinks: [later.sink] });
+      child.debug('now visible');
+
+      expect(memory.entries).toHaveLength(0);
+      expect(later.entries[0]).toMatchObject({ component: 'invoice', message: 'now visible' });
+    });
+  });
+});
+
+describe('RotatingFileSink', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ekuatia-logs-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('should rotate by size and keep at most maxFiles old files', async () => {
+    const filePath = join(dir, 'app.log');
+    const logger = new Logger(
+      { level: 'info', includeTimestamp: false },
+      { sinks: [new RotatingFileSink(filePath, 60, 2)] }
+    );
+
+    for (let i = 0; i < 6; i++) {
+      logger.info(`entry number ${i}`);
+    }
+
+    expect((await readdir(dir)).sort()).toEqual(['app.log', 'app.log.1', 'app.log.2']);
+    expect(await readFile(filePath, 'utf8')).toContain('entry number 5');
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * PURPOSE: Test suite for the client-side rate limiter
+ *
+ * REASONING:
+ * - Fake timers make token refill deterministic
+ * - Deferred tasks keep requests "in flight" to exercise the concurrency cap
+ * - Back-pressure and maxWaitMs must surface as RateLimitError, never hang
+ */
+
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RateLimiter } from '../rate-limiter';
+import { RateLimitError } from '../../types/errors';
+
+const deferred = () => {
+  let resolve!: (value: string) => void;
+  const promise = new Promise<string>((res) => {
+    resolve = res;
+  });
+  return { promise, resolve };
+};
+
+/** Let queued microtasks (task start and completion) settle */
+const flush = () => vi.advanceTimersByTimeAsync(0);
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('Happy Path', () => {
+    test('should run requests immediately while the bucket has tokens', async () => {
+      const limiter = new RateLimiter({ defaultRule: { capacity: 3, refillPerSecond: 1 } });
+
+      const results = await Promise.all([
+        limiter.schedule('/perfil', () => Promise.resolve('a')),
+        limiter.schedule('/perfil', () => Promise.resolve('b')),
+        limiter.schedule('/perfil', () => Promise.resolve('c')),
+      ]);
+
+      expect(results).toEqual(['a', 'b', 'c']);
+      expect(limiter.getStats()).toMatchObject({ dispatched: 3, queueDepth: 0, rejected: 0 });
+    });
+
+    test('should space requests at the refill rate once the burst is spent', async () => {
+      const limiter = new RateLimiter({ defaultRule: { capacity: 1, refillPerSecond: 2 } });
+      const task = vi.fn(() => Promise.resolve('ok'));
+
+      void limiter.schedule('/documento', task);
+      void limiter.schedule('/documento', task);
+      void limiter.schedule('/documento', task);
+      await flush();
+      expect(task).toHaveBeenCalledTimes(1);
+      expect(limiter.getStats().queueDepth).toBe(2);
+
+      await vi.advanceTimersByTimeAsync(500);
+      expect(task).toHaveBeenCalledTimes(2);
+
+      await vi.advanceTimersByTimeAsync(500);
+      expect(task).toHaveBeenCalledTimes(3);
+      expect(limiter.getStats().averageWaitMs).toBeCloseTo(500);
+      expect(limiter.getStats().maxObservedWaitMs).toBe(1000);
+    });
+
+    test('should apply the most specific endpoint rule and keep buckets independent', async () => {
+      const limiter = new RateLimiter({
+        defaultRule: { capacity: 10, refillPerSecond: 10 },
+        endpointRules: {
+          '/documento': { capacity: 1, refillPerSecond: 1 },
+          '/documento/firmar': { capacity: 5, refillPerSecond: 5 },
+        },
+      });
+      const documents = vi.fn(() => Promise.resolve('doc'));
+      const other = vi.fn(() => Promise.resolve('perfil'));
+
+      void limiter.schedule('/documento', documents);
+      void limiter.schedule('/documento/123', documents);
+      void limiter.schedule('/documento/firmar', other);
+      void limiter.schedule('/perfil', other);
+      await flush();
+
+      expect(documents).toHaveBeenCalledTimes(1);
+      expect(other).toHaveBeenCalledTimes(2);
+      expect(limiter.getStats().buckets['/documento']).toEqual({
+        queued: 1,
+        availableTokens: 0,
+      });
+    });
+  });
+
+  describe('Concurrency', () => {
+    test('should never exceed maxConcurrent in-flight requests', async () => {
+      const limiter = new RateLimiter({
+        defaultRule: { capacity: 10, refillPerSecond: 10 },
+        maxConcurrent: 2,
+      });
+      const pending = [deferred(), deferred(), deferred()];
+      const results = pending.map((item) => limiter.schedule('/perfil', () => item.promise));
+      await flush();
+
+      expect(limiter.getStats()).toMatchObject({ active: 2, queueDepth: 1 });
+
+      pending[0]?.resolve('first');
+      await flush();
+      expect(limiter.getStats()).toMatchObject({ active: 2, queueDepth: 0 });
+
+      pending[1]?.resolve('second');
+      pending[2]?.resolve('third');
+      await expect(Promise.all(results)).resolves.toEqual(['first', 'second', 'third']);
+      expect(limiter.getStats().active).toBe(0);
+    });
+
+    test('should release the slot when a task fails', async () => {
+      const limiter = new RateLimiter({ maxConcurrent: 1 });
+
+      await expect(
+        limiter.schedule('/perfil', () => Promise.reject(new Error('boom')))
+      ).rejects.toThrow('boom');
+      await expect(limiter.schedule('/perfil', () => Promise.resolve('ok'))).resolves.toBe('ok');
+    });
+  });
+
+  describe('Error Scenarios', () => {
+    test('should reject immediately with RateLimitError when the queue is full', async () => {
+      const limiter = new RateLimiter({
+        defaultRule: { capacity: 1, refillPerSecond: 1 },
+        maxQueueSize: 1,
+      });
+
+      void limiter.schedule('/documento', () => Promise.resolve('first'));
+      const queued = limiter.schedule('/documento', () => Promise.resolve('second'));
+      const rejected = limiter.schedule('/documento', () => Promise.resolve('third'));
+
+      await expect(rejected).rejects.toBeInstanceOf(RateLimitError);
+      await expect(rejected).rejects.toMatchObject({
+        code: 'RATE_LIMITED',
+        context: { endpoint: '/documento', queueDepth: 1 },
+      });
+      expect(limiter.getStats().rejected).toBe(1);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      await expect(queued).resolves.toBe('second');
+    });
+
+    test('should reject requests that wait longer than maxWaitMs', async () => {
+      const limiter = new RateLimiter({
+        defaultRule: { capacity: 1, refillPerSecond: 0.1 },
+        maxWaitMs: 2000,
+      });
+
+      void limiter.schedule('/documento', () => Promise.resolve('first'));
+      const waiting = limiter.schedule('/documento', () => Promise.resolve('second'));
+      const assertion = expect(waiting).rejects.toMatchObject({
+        code: 'RATE_LIMITED',
+        context: { waitedMs: 2000 },
+      });
+
+      await vi.advanceTimersByTimeAsync(2000);
+      await assertion;
+      expect(limiter.getStats()).toMatchObject({ queueDepth: 0, rejected: 1 });
+    });
+
+    test('should be retryable like any other RATE_LIMITED error', () => {
+      expect(new RateLimitError('Cola llena').isRetryable()).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * PURPOSE: Test suite for SessionManager expiry tracking and 401 replay
+ *
+ * REASONING:
+ * - Fake timers make the expiry window deterministic
+ * - A stubbed agent counts logins to prove refresh and replay behaviour
+ */
+
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SessionManager, isUnauthorizedError } from '../session';
+import { AuthenticationError, SystemError } from '../../types/errors';
+import { MOCK_CREDENTIALS, MOCK_LOGIN_RESPONSE } from '@tests/mocks/ekuatia';
+
+const sessionExpired = () =>
+  new AuthenticationError('Sesión expirada', 'SESSION_EXPIRED', { ruc: '5452' });
+
+describe('SessionManager', () => {
+  let login: ReturnType<typeof vi.fn>;
+  let manager: SessionManager;
+  let tokenCounter: number;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-27T12:00:00Z'));
+    tokenCounter = 0;
+    login = vi.fn(async () => {
+      tokenCounter += 1;
+      return { ...MOCK_LOGIN_RESPONSE.data, session_token: `token_${tokenCounter}` };
+    });
+    manager = new SessionManager({ login }, MOCK_CREDENTIALS, {
+      sessionExpiryMs: 600000,
+      refreshMarginMs: 30000,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('Happy Path', () => {
+    test('should log in lazily and reuse the token until near expiry', async () => {
+      expect(manager.isExpired()).toBe(true);
+
+      await expect(manager.getToken()).resolves.toBe('token_1');
+      vi.advanceTimersByTime(500000);
+      await expect(manager.getToken()).resolves.toBe('token_1');
+
+      expect(login).toHaveBeenCalledTimes(1);
+      expect(manager.getSession()?.expiresAt).toBe(Date.parse('2026-01-27T12:10:00Z'));
+    });
+
+    test('should refresh the token inside the refresh margin', async () => {
+      await manager.getToken();
+      vi.advanceTimersByTime(580000);
+
+      await expect(manager.getToken()).resolves.toBe('token_2');
+      expect(login).toHaveBeenCalledTimes(2);
+    });
+
+    test('should share one login between concurrent callers', async () => {
+      const tokens = await Promise.all([manager.getToken(), manager.getToken()]);
+
+      expect(tokens).toEqual(['token_1', 'token_1']);
+      expect(login).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('401 Replay', () => {
+    test('should re-login and replay the request once', async () => {
+      const request = vi
+        .fn()
+        .mockRejectedValueOnce(sessionExpired())
+        .mockImplementation(async (token: string) => `ok:${token}`);
+
+      await expect(manager.execute(request)).resolves.toBe('ok:token_2');
+      expect(request).toHaveBeenNthCalledWith(1, 'token_1');
+      expect(request).toHaveBeenNthCalledWith(2, 'token_2');
+    });
+
+    test('should raise AuthenticationError when the replay is rejected again', async () => {
+      const request = vi.fn().mockRejectedValue(sessionExpired());
+
+      const error = await manager.execute(request).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(AuthenticationError);
+      expect((error as AuthenticationError).code).toBe('SESSION_EXPIRED');
+      expect(request).toHaveBeenCalledTimes(2);
+      expect(login).toHaveBeenCalledTimes(2);
+    });
+
+    test('should raise AuthenticationError when the re-login fails', async () => {
+      await manager.getToken();
+      login.mockRejectedValueOnce(new SystemError('Servicio no disponible'));
+      const request = vi.fn().mockRejectedValue(sessionExpired());
+
+      const error = await manager.execute(request).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(AuthenticationError);
+      expect((error as AuthenticationError).message).toContain('Servicio no disponible');
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    test('should not replay requests failing for other reasons', async () => {
+      const request = vi.fn().mockRejectedValue(new SystemError('Boom'));
+
+      await expect(manager.execute(request)).rejects.toBeInstanceOf(SystemError);
+      expect(login).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Edge Cases', () => {
+    test('should recognise raw axios 401 responses', () => {
+      expect(isUnauthorizedError({ isAxiosError: true, response: { status: 401 } })).toBe(true);
+      expect(isUnauthorizedError(new SystemError('Boom'))).toBe(false);
+    });
+
+    test('should log in again after invalidate', async () => {
+      await manager.getToken();
+      manager.invalidate();
+
+      await expect(manager.getToken()).resolves.toBe('token_2');
+    });
+  });
+});
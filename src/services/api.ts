@@ -0,0 +1,489 @@
+/**
+ * PURPOSE: Typed HTTP client for the Ekuatia'i endpoint map
+ *
+ * REASONING:
+ * - One method per documented endpoint keeps request shapes in a single place
+ * - Unwraps ApiResponse<T> so callers only ever receive the payload
+ * - Converts ApiErrorResponse bodies and HTTP failures into the error hierarchy
+ * - Parses every endpoint payload through its zod schema before handing it out
+ * - Applies API_TIMEOUT to every request and reports expiries as TimeoutError
+ *
+ * AGENT DECISION PROCESS:
+ * - Requirements analyzed from the "API Integration Points" endpoint map
+ * - Considered: generated client vs hand-written wrapper over axios
+ * - Selected hand-written wrapper because the endpoints are inferred, not specified
+ * - Implementation constraints: Session tokens are passed per call, never stored here
+ */
+
+import axios, { isAxiosError, type AxiosInstance, type AxiosResponse } from 'axios';
+import type { z } from 'zod';
+import {
+  configurationFormResponseSchema,
+  configurationSaveResponseSchema,
+  documentCreationResponseSchema,
+  documentResponseSchema,
+  documentSignatureResponseSchema,
+  documentTypesResponseSchema,
+  loginResponseSchema,
+  profileResponseSchema,
+  toolsResponseSchema,
+  type ApiErrorResponse,
+  type ApiResponse,
+  type ConfigurationFormResponse,
+  type ConfigurationSaveResponse,
+  type DocumentCreationResponse,
+  type DocumentResponse,
+  type DocumentSignatureRequest,
+  type DocumentSignatureResponse,
+  type DocumentTypesResponse,
+  type EkuatiaConfig,
+  type EkuatiaError,
+  type InvoiceCreationPayload,
+  type LoginCredentials,
+  type LoginResponse,
+  type ProfileResponse,
+  type ToolsResponse,
+} from '../types/ekuatia';
+import type {
+  DocumentId,
+  HttpHeaders,
+  HttpRequestConfig,
+  HttpResponse,
+  SessionToken,
+} from '../types/common';
+import {
+  EkuatiaBaseError,
+  InvalidResponseError,
+  RateLimitError,
+  SystemError,
+  TimeoutError,
+  createErrorFromApiResponse,
+  toAuthenticationError,
+} from '../types/errors';
+import { getLogger, type Logger } from './logger';
+import type { RateLimiter } from './rate-limiter';
+import { parseRetryAfter } from '../utils/retry';
+import { formatValidationErrors, parseWithSchema } from '../utils/validation';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Default Ekuatia'i base URL (overridden by EKUATIA_BASE_URL) */
+export const DEFAULT_EKUATIA_BASE_URL = 'https://ekuatia.set.gov.py/ekuatiai/';
+
+/** Default request timeout when API_TIMEOUT is not set */
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/** axios error codes that indicate the request timed out */
+const TIMEOUT_ERROR_CODES = ['ECONNABORTED', 'ETIMEDOUT'];
+
+/**
+ * Endpoint map from the guide's "API Integration Points" section
+ */
+export const EKUATIA_ENDPOINTS = {
+  login: '/login',
+  profile: '/perfil',
+  tools: '/herramientas',
+  configurationForm: '/configuracion/formulario',
+  configurationSave: '/configuracion/guardar',
+  documentTypes: '/documento/tipos',
+  documentCreate: '/documento/crear',
+  document: (documentId: DocumentId) => `/documento/${encodeURIComponent(documentId)}`,
+  documentSign: (documentId: DocumentId) => `/documento/${encodeURIComponent(documentId)}/firmar`,
+} as const;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Options for constructing an EkuatiaApiService
+ */
+export interface EkuatiaApiServiceOptions {
+  /** Ekuatia'i base URL (defaults to EKUATIA_BASE_URL) */
+  baseUrl?: string;
+  /** Per-request timeout in milliseconds (defaults to API_TIMEOUT) */
+  timeoutMs?: number;
+  /** Pre-configured HTTP client, mainly for tests */
+  httpClient?: AxiosInstance;
+  /** Logger (defaults to the shared logger) */
+  logger?: Logger;
+  /** Client-side rate limiter; requests go out unthrottled when omitted */
+  rateLimiter?: RateLimiter;
+}
+
+/**
+ * Raw body returned by every endpoint
+ */
+type ApiBody<T> = ApiResponse<T> | ApiErrorResponse;
+
+/**
+ * Converts an error body into a typed error
+ */
+type ApiErrorMapper = (
+  error: EkuatiaError,
+  context: { endpoint: string; statusCode?: string; retryAfterMs?: number }
+) => EkuatiaBaseError;
+
+/**
+ * Runtime schema for an unwrapped response payload
+ */
+export type ResponseSchema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+/**
+ * Per-call transport options
+ */
+interface RequestOptions<T> {
+  /** Session token for authenticated endpoints */
+  token?: SessionToken;
+  /** Error-body mapper (defaults to classification by error code) */
+  mapApiError?: ApiErrorMapper;
+  /** Schema the unwrapped payload must satisfy */
+  schema?: ResponseSchema<T>;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Check whether an unknown value carries the ApiErrorResponse shape
+ */
+export const isApiErrorResponse = (value: unknown): value is ApiErrorResponse => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const candidate = value as Partial<ApiErrorResponse>;
+  return candidate.success === false && typeof candidate.error?.code === 'string';
+};
+
+/**
+ * Check whether an unknown value carries the ApiResponse<T> shape
+ */
+const isApiResponse = <T>(value: unknown): value is ApiResponse<T> => {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as Partial<ApiResponse<T>>).success === true &&
+    'data' in value
+  );
+};
+
+// ============================================================================
+// API SERVICE
+// ============================================================================
+
+/**
+ * HTTP client exposing one typed method per Ekuatia endpoint
+ */
+export class EkuatiaApiService {
+  private readonly httpClient: AxiosInstance;
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+  private readonly logger: Logger;
+  private readonly rateLimiter: RateLimiter | undefined;
+
+  constructor(options: EkuatiaApiServiceOptions = {}) {
+    this.logger = options.logger ?? getLogger().child('api');
+    this.rateLimiter = options.rateLimiter;
+    this.baseUrl = options.baseUrl ?? process.env.EKUATIA_BASE_URL ?? DEFAULT_EKUATIA_BASE_URL;
+    this.timeoutMs = options.timeoutMs ?? (Number(process.env.API_TIMEOUT) || DEFAULT_TIMEOUT_MS);
+    this.httpClient = options.httpClient ?? axios.create();
+  }
+
+  // --------------------------------------------------------------------------
+  // LOGIN
+  // --------------------------------------------------------------------------
+
+  /**
+   * POST /login
+   *
+   * @throws {AuthenticationError} Any error reported by the login endpoint
+   */
+  async login(credentials: LoginCredentials): Promise<LoginResponse> {
+    const response = await this.send<LoginResponse, LoginCredentials>(
+      { method: 'POST', url: EKUATIA_ENDPOINTS.login, data: credentials },
+      {
+        mapApiError: (error) => toAuthenticationError(error, credentials.username),
+        schema: loginResponseSchema,
+      }
+    );
+    return response.data;
+  }
+
+  // --------------------------------------------------------------------------
+  // PROFILE
+  // --------------------------------------------------------------------------
+
+  /**
+   * GET /perfil
+   */
+  async getProfile(token: SessionToken): Promise<ProfileResponse> {
+    const response = await this.request<ProfileResponse>(
+      { method: 'GET', url: EKUATIA_ENDPOINTS.profile },
+      token,
+      profileResponseSchema
+    );
+    return response.data;
+  }
+
+  /**
+   * GET /herramientas
+   */
+  async getTools(token: SessionToken): Promise<ToolsResponse> {
+    const response = await this.request<ToolsResponse>(
+      { method: 'GET', url: EKUATIA_ENDPOINTS.tools },
+      token,
+      toolsResponseSchema
+    );
+    return response.data;
+  }
+
+  // --------------------------------------------------------------------------
+  // CONFIGURATION
+  // --------------------------------------------------------------------------
+
+  /**
+   * GET /configuracion/formulario
+   */
+  async getConfigurationForm(token: SessionToken): Promise<ConfigurationFormResponse> {
+    const response = await this.request<ConfigurationFormResponse>(
+      { method: 'GET', url: EKUATIA_ENDPOINTS.configurationForm },
+      token,
+      configurationFormResponseSchema
+    );
+    return response.data;
+  }
+
+  /**
+   * POST /configuracion/guardar
+   */
+  async saveConfiguration(
+    token: SessionToken,
+    config: EkuatiaConfig
+  ): Promise<ConfigurationSaveResponse> {
+    const response = await this.request<ConfigurationSaveResponse, EkuatiaConfig>(
+      { method: 'POST', url: EKUATIA_ENDPOINTS.configurationSave, data: config },
+      token,
+      configurationSaveResponseSchema
+    );
+    return response.data;
+  }
+
+  // --------------------------------------------------------------------------
+  // DOCUMENTS
+  // --------------------------------------------------------------------------
+
+  /**
+   * GET /documento/tipos
+   */
+  async getDocumentTypes(token: SessionToken): Promise<DocumentTypesResponse> {
+    const response = await this.request<DocumentTypesResponse>(
+      { method: 'GET', url: EKUATIA_ENDPOINTS.documentTypes },
+      token,
+      documentTypesResponseSchema
+    );
+    return response.data;
+  }
+
+  /**
+   * POST /documento/crear
+   */
+  async createDocument(
+    token: SessionToken,
+    payload: InvoiceCreationPayload
+  ): Promise<DocumentCreationResponse> {
+    const response = await this.request<DocumentCreationResponse, InvoiceCreationPayload>(
+      { method: 'POST', url: EKUATIA_ENDPOINTS.documentCreate, data: payload },
+      token,
+      documentCreationResponseSchema
+    );
+    return response.data;
+  }
+
+  /**
+   * GET /documento/{id}
+   */
+  async getDocument(token: SessionToken, documentId: DocumentId): Promise<DocumentResponse> {
+    const response = await this.request<DocumentResponse>(
+      { method: 'GET', url: EKUATIA_ENDPOINTS.document(documentId) },
+      token,
+      documentResponseSchema
+    );
+    return response.data;
+  }
+
+  /**
+   * POST /documento/{id}/firmar
+   */
+  async signDocument(
+    token: SessionToken,
+    documentId: DocumentId,
+    signature: DocumentSignatureRequest
+  ): Promise<DocumentSignatureResponse> {
+    const response = await this.request<DocumentSignatureResponse, DocumentSignatureRequest>(
+      { method: 'POST', url: EKUATIA_ENDPOINTS.documentSign(documentId), data: signature },
+      token,
+      documentSignatureResponseSchema
+    );
+    return response.data;
+  }
+
+  // --------------------------------------------------------------------------
+  // TRANSPORT
+  // --------------------------------------------------------------------------
+
+  /**
+   * Send a request and unwrap the ApiResponse<T> envelope
+   *
+   * @param config - Request configuration; timeout defaults to API_TIMEOUT
+   * @param token - Session token for authenticated endpoints
+   * @param schema - Optional schema the unwrapped payload is parsed through
+   * @returns HTTP response whose data is the unwrapped payload
+   * @throws {EkuatiaBaseError} Mapped from the error body or transport failure
+   * @throws {SystemError} Payload does not match the schema
+   */
+  async request<T, TData = unknown>(
+    config: HttpRequestConfig<TData>,
+    token?: SessionToken,
+    schema?: ResponseSchema<T>
+  ): Promise<HttpResponse<T>> {
+    return this.send<T, TData>(config, { token, schema });
+  }
+
+  /**
+   * Perform the HTTP call with a specific error-body mapper
+   */
+  private async send<T, TData>(
+    config: HttpRequestConfig<TData>,
+    options: RequestOptions<T>
+  ): Promise<HttpResponse<T>> {
+    const mapApiError = options.mapApiError ?? createErrorFromApiResponse;
+    const timeout = config.timeout ?? this.timeoutMs;
+    const headers: HttpHeaders = { ...config.headers };
+    if (options.token) {
+      headers.Authorization = `Bearer ${options.token}`;
+    }
+
+    this.logger.debug('Ekuatia request', { method: config.method, url: config.url });
+
+    let response: AxiosResponse<ApiBody<T>>;
+    try {
+      const dispatch = (): Promise<AxiosResponse<ApiBody<T>>> =>
+        this.httpClient.request<ApiBody<T>>({
+          method: config.method,
+          url: config.url,
+          baseURL: this.baseUrl,
+          headers,
+          data: config.data,
+          params: config.params,
+          timeout,
+        });
+      response = this.rateLimiter
+        ? await this.rateLimiter.schedule(config.url, dispatch)
+        : await dispatch();
+    } catch (error: unknown) {
+      if (error instanceof RateLimitError) {
+        this.logger.warn('Ekuatia request throttled', { url: config.url, error });
+        throw error;
+      }
+      const mapped = this.toTransportError(error, config, timeout, mapApiError);
+      this.logger.warn('Ekuatia request failed', {
+        method: config.method,
+        url: config.url,
+        error: mapped,
+      });
+      throw mapped;
+    }
+
+    const body = response.data;
+    if (isApiErrorResponse(body)) {
+      throw mapApiError(body.error, { endpoint: config.url, statusCode: String(response.status) });
+    }
+    if (!isApiResponse<T>(body)) {
+      throw new InvalidResponseError(`Respuesta inesperada de ${config.url}`, {
+        endpoint: config.url,
+        statusCode: String(response.status),
+      });
+    }
+
+    let data = body.data;
+    if (options.schema) {
+      const parsed = parseWithSchema(options.schema, data);
+      if (!parsed.success) {
+        throw new InvalidResponseError(
+          `Respuesta con formato inválido de ${config.url}: ${formatValidationErrors(parsed.error)}`,
+          {
+            endpoint: config.url,
+            statusCode: String(response.status),
+            validationErrors: parsed.error.errors,
+          }
+        );
+      }
+      data = parsed.data;
+    }
+
+    return {
+      data,
+      status: response.status,
+      statusText: response.statusText,
+      headers: { ...response.headers } as HttpHeaders,
+      config: { method: config.method, url: config.url, headers, timeout },
+    };
+  }
+
+  /**
+   * Map an axios failure to the appropriate typed error
+   * A 401 on any endpoint other than /login always means the session expired
+   */
+  private toTransportError(
+    error: unknown,
+    config: HttpRequestConfig<unknown>,
+    timeoutMs: number,
+    mapApiError: ApiErrorMapper
+  ): EkuatiaBaseError {
+    if (!isAxiosError(error)) {
+      return new SystemError(`Error inesperado en ${config.url}: ${String(error)}`, {
+        endpoint: config.url,
+      });
+    }
+
+    const status = error.response?.status;
+    const context = {
+      endpoint: config.url,
+      statusCode: status === undefined ? undefined : String(status),
+      retryAfterMs: parseRetryAfter(error.response?.headers['retry-after']),
+    };
+    const body: unknown = error.response?.data;
+
+    if (status === 401) {
+      const isLogin = config.url === EKUATIA_ENDPOINTS.login;
+      return mapApiError(
+        {
+          code: isLogin ? 'INVALID_CREDENTIALS' : 'SESSION_EXPIRED',
+          message: isApiErrorResponse(body)
+            ? body.error.message
+            : isLogin
+              ? 'RUC o Clave de Acceso incorrecta'
+              : `Sesión expirada o inválida al acceder a ${config.url}`,
+          timestamp: new Date().toISOString(),
+        },
+        context
+      );
+    }
+
+    if (isApiErrorResponse(body)) {
+      return mapApiError(body.error, context);
+    }
+
+    if (error.code && TIMEOUT_ERROR_CODES.includes(error.code)) {
+      return new TimeoutError(`Tiempo de espera agotado en ${config.url}`, timeoutMs, {
+        endpoint: config.url,
+        method: config.method,
+      });
+    }
+
+    return new SystemError(`Error de comunicación con Ekuatia: ${error.message}`, context);
+  }
+}
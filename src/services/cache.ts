@@ -0,0 +1,464 @@
+/**
+ * PURPOSE: Two-level cache for the issuer configuration and other per-RUC data
+ *
+ * REASONING:
+ * - Level 1 (memory) serves repeated reads within the session without touching disk
+ * - Level 2 (files) keeps the one-time configuration across runs for CONFIG_CACHE_TTL
+ * - Entries carry CacheEntry metadata so invalidation triggers travel with the data
+ * - Files are written to a temp name and renamed, so a crash leaves the old entry intact
+ * - Unreadable or mismatching files count as a miss instead of failing the caller
+ *
+ * AGENT DECISION PROCESS:
+ * - Requirements analyzed from CacheConfig, CacheKey, CacheEntry and the guide's caching layers
+ * - Considered: single JSON file vs one file per key vs an embedded database
+ * - Selected one file per key so a write never rewrites unrelated entries
+ * - Implementation constraints: The sweep timer is unref'd so it never keeps the process alive
+ */
+
+import { randomBytes } from 'node:crypto';
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { z } from 'zod';
+import {
+  cacheEntrySchema,
+  cacheInvalidationTriggerSchema,
+  type CacheEntry,
+  type CacheInvalidationTrigger,
+} from '../types/ekuatia';
+import type { CacheConfig, CacheKey } from '../types/common';
+import { getLogger, type Logger } from './logger';
+import { parseWithSchema } from '../utils/validation';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Default persistent cache location (ignored by git) */
+export const DEFAULT_CACHE_DIRECTORY = '.ekuatia/cache';
+
+/** Default TTL when CONFIG_CACHE_TTL is not set (90 days) */
+export const DEFAULT_CACHE_TTL_MS = 90 * 24 * 60 * 60 * 1000;
+
+/** Extension of level 2 entry files */
+const ENTRY_EXTENSION = '.json';
+
+/** Triggers attached to an entry when the caller does not pass any */
+const DEFAULT_INVALIDATION_TRIGGERS: CacheInvalidationTrigger[] =
+  cacheInvalidationTriggerSchema.options;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Options for constructing a CacheService
+ */
+export interface CacheServiceOptions<T> {
+  /** Level 2 directory; pass null to keep the cache in memory only */
+  directory?: string | null;
+  /** Schema cached data must satisfy when read back from disk */
+  schema?: z.ZodType<T, z.ZodTypeDef, unknown>;
+  /** Triggers attached to entries by default */
+  invalidationTriggers?: CacheInvalidationTrigger[];
+  /** Logger (defaults to the shared logger) */
+  logger?: Logger;
+}
+
+/**
+ * Per-write options
+ */
+export interface CacheSetOptions {
+  /** Override the service TTL for this entry */
+  ttlMs?: number;
+  /** Override the invalidation triggers for this entry */
+  invalidationTriggers?: CacheInvalidationTrigger[];
+}
+
+/**
+ * Cache hit and miss counters
+ */
+export interface CacheStats {
+  /** Entries currently held in memory */
+  memoryEntries: number;
+  /** Reads answered from memory */
+  memoryHits: number;
+  /** Reads answered from disk */
+  diskHits: number;
+  /** Reads that found nothing valid */
+  misses: number;
+  /** Entries removed by maxSize */
+  evictions: number;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Expiry time of an entry in epoch milliseconds
+ */
+export const getEntryExpiry = (entry: CacheEntry<unknown>): number =>
+  Date.parse(entry.stored_timestamp) + Number(entry.cache_duration);
+
+/**
+ * Whether an entry is past its TTL (malformed timestamps count as expired)
+ */
+export const isEntryExpired = (entry: CacheEntry<unknown>, now: number = Date.now()): boolean => {
+  const expiry = getEntryExpiry(entry);
+  return Number.isNaN(expiry) || now >= expiry;
+};
+
+// ============================================================================
+// CACHE SERVICE
+// ============================================================================
+
+/**
+ * Memory-first cache backed by one JSON file per key
+ */
+export class CacheService<T> {
+  private readonly memory = new Map<CacheKey, CacheEntry<T>>();
+  private readonly ttlMs: number;
+  private readonly maxSize: number | undefined;
+  private readonly directory: string | null;
+  private readonly entrySchema: z.ZodType<CacheEntry<T>, z.ZodTypeDef, unknown>;
+  private readonly defaultTriggers: CacheInvalidationTrigger[];
+  private readonly logger: Logger;
+  private readonly stats: Omit<CacheStats, 'memoryEntries'> = {
+    memoryHits: 0,
+    diskHits: 0,
+    misses: 0,
+    evictions: 0,
+  };
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(config: CacheConfig, options: CacheServiceOptions<T> = {}) {
+    this.ttlMs = config.ttlMs;
+    this.maxSize = config.maxSize;
+    this.directory = options.directory === undefined ? DEFAULT_CACHE_DIRECTORY : options.directory;
+    this.entrySchema = cacheEntrySchema(options.schema ?? z.unknown()) as z.ZodType<
+      CacheEntry<T>,
+      z.ZodTypeDef,
+      unknown
+    >;
+    this.defaultTriggers = options.invalidationTriggers ?? DEFAULT_INVALIDATION_TRIGGERS;
+    this.logger = options.logger ?? getLogger().child('cache');
+
+    if (config.cleanupIntervalMs !== undefined && config.cleanupIntervalMs > 0) {
+      this.sweepTimer = setInterval(() => {
+        this.cleanup().catch((error: unknown) => {
+          this.logger.warn('Cache sweep failed', { error });
+        });
+      }, config.cleanupIntervalMs);
+      this.sweepTimer.unref();
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // READ / WRITE
+  // --------------------------------------------------------------------------
+
+  /**
+   * Cached value, or null when missing or expired
+   */
+  async get(key: CacheKey): Promise<T | null> {
+    const entry = await this.getEntry(key);
+    return entry ? entry.data : null;
+  }
+
+  /**
+   * Cached entry with its metadata, or null when missing or expired
+   * A level 2 hit is promoted to level 1
+   */
+  async getEntry(key: CacheKey): Promise<CacheEntry<T> | null> {
+    const cached = this.memory.get(key);
+    if (cached && !isEntryExpired(cached)) {
+      // Re-insert so Map order tracks recency for eviction
+      this.memory.delete(key);
+      this.memory.set(key, cached);
+      this.stats.memoryHits++;
+      return cached;
+    }
+    if (cached) {
+      this.memory.delete(key);
+    }
+
+    const stored = await this.readEntry(key);
+    if (!stored || isEntryExpired(stored)) {
+      if (stored) {
+        await this.removeFile(key);
+      }
+      this.stats.misses++;
+      return null;
+    }
+
+    this.stats.diskHits++;
+    this.remember(key, stored);
+    return stored;
+  }
+
+  /**
+   * Store a value in both levels
+   */
+  async set(key: CacheKey, data: T, options: CacheSetOptions = {}): Promise<void> {
+    const entry: CacheEntry<T> = {
+      data,
+      stored_timestamp: new Date().toISOString(),
+      cache_duration: String(options.ttlMs ?? this.ttlMs),
+      invalidation_triggers: [...(options.invalidationTriggers ?? this.defaultTriggers)],
+    };
+
+    this.remember(key, entry);
+    if (this.directory !== null) {
+      await this.writeEntry(key, entry);
+      await this.enforceDiskLimit(key);
+    }
+  }
+
+  /**
+   * Remove a key from both levels
+   */
+  async delete(key: CacheKey): Promise<void> {
+    this.memory.delete(key);
+    await this.removeFile(key);
+  }
+
+  /**
+   * Whether a valid entry exists for the key
+   */
+  async has(key: CacheKey): Promise<boolean> {
+    return (await this.getEntry(key)) !== null;
+  }
+
+  /**
+   * Remove every entry from both levels
+   */
+  async clear(): Promise<void> {
+    this.memory.clear();
+    for (const key of await this.listStoredKeys()) {
+      await this.removeFile(key);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // INVALIDATION
+  // --------------------------------------------------------------------------
+
+  /**
+   * Remove one entry if it lists the trigger
+   *
+   * @returns Whether the entry was removed
+   */
+  async invalidate(key: CacheKey, trigger: CacheInvalidationTrigger): Promise<boolean> {
+    const entry = this.memory.get(key) ?? (await this.readEntry(key));
+    if (!entry?.invalidation_triggers.includes(trigger)) {
+      return false;
+    }
+    await this.delete(key);
+    return true;
+  }
+
+  /**
+   * Remove every entry that lists the trigger
+   *
+   * @returns Keys that were removed
+   */
+  async invalidateByTrigger(trigger: CacheInvalidationTrigger): Promise<CacheKey[]> {
+    const removed = new Set<CacheKey>();
+    for (const [key, entry] of this.memory) {
+      if (entry.invalidation_triggers.includes(trigger)) {
+        removed.add(key);
+      }
+    }
+    for (const key of await this.listStoredKeys()) {
+      const entry = await this.readEntry(key);
+      if (entry?.invalidation_triggers.includes(trigger)) {
+        removed.add(key);
+      }
+    }
+
+    for (const key of removed) {
+      await this.delete(key);
+    }
+    if (removed.size > 0) {
+      this.logger.info('Cache entries invalidated', { trigger, keys: [...removed] });
+    }
+    return [...removed];
+  }
+
+  /**
+   * Drop expired entries from both levels
+   *
+   * @returns Number of entries removed
+   */
+  async cleanup(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+    for (const [key, entry] of this.memory) {
+      if (isEntryExpired(entry, now)) {
+        this.memory.delete(key);
+        removed++;
+      }
+    }
+    for (const key of await this.listStoredKeys()) {
+      const entry = await this.readEntry(key);
+      if (!entry || isEntryExpired(entry, now)) {
+        await this.removeFile(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Hit/miss counters for monitoring
+   */
+  getStats(): CacheStats {
+    return { memoryEntries: this.memory.size, ...this.stats };
+  }
+
+  /**
+   * Stop the periodic sweep
+   */
+  dispose(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // LEVEL 1
+  // --------------------------------------------------------------------------
+
+  /**
+   * Insert into memory, evicting the least recently used entry beyond maxSize
+   */
+  private remember(key: CacheKey, entry: CacheEntry<T>): void {
+    this.memory.delete(key);
+    this.memory.set(key, entry);
+    while (this.maxSize !== undefined && this.memory.size > this.maxSize) {
+      const oldest = this.memory.keys().next();
+      if (oldest.done) {
+        break;
+      }
+      this.memory.delete(oldest.value);
+      this.stats.evictions++;
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // LEVEL 2
+  // --------------------------------------------------------------------------
+
+  private filePath(directory: string, key: CacheKey): string {
+    return join(directory, `${encodeURIComponent(key)}${ENTRY_EXTENSION}`);
+  }
+
+  /**
+   * Read and validate an entry file; anything unreadable is treated as absent
+   */
+  private async readEntry(key: CacheKey): Promise<CacheEntry<T> | null> {
+    if (this.directory === null) {
+      return null;
+    }
+
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath(this.directory, key), 'utf8');
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn('Cache entry could not be read', { key, error });
+      }
+      return null;
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(raw);
+    } catch {
+      json = undefined;
+    }
+    const parsed = parseWithSchema(this.entrySchema, json);
+    if (!parsed.success) {
+      this.logger.warn('Discarding malformed cache entry', { key, errors: parsed.error.errors });
+      await this.removeFile(key);
+      return null;
+    }
+    return parsed.data;
+  }
+
+  /**
+   * Write an entry atomically: temp file in the same directory, then rename
+   */
+  private async writeEntry(key: CacheKey, entry: CacheEntry<T>): Promise<void> {
+    if (this.directory === null) {
+      return;
+    }
+    await mkdir(this.directory, { recursive: true, mode: 0o700 });
+    const target = this.filePath(this.directory, key);
+    const tempPath = `${target}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+    try {
+      await writeFile(tempPath, JSON.stringify(entry, null, 2), { mode: 0o600 });
+      await rename(tempPath, target);
+    } catch (error: unknown) {
+      await rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  private async removeFile(key: CacheKey): Promise<void> {
+    if (this.directory !== null) {
+      await rm(this.filePath(this.directory, key), { force: true });
+    }
+  }
+
+  /**
+   * Keys with an entry file on disk
+   */
+  private async listStoredKeys(): Promise<CacheKey[]> {
+    if (this.directory === null) {
+      return [];
+    }
+    let names: string[];
+    try {
+      names = await readdir(this.directory);
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+    return names
+      .filter((name) => name.endsWith(ENTRY_EXTENSION))
+      .map((name) => decodeURIComponent(name.slice(0, -ENTRY_EXTENSION.length)) as CacheKey);
+  }
+
+  /**
+   * Remove files once the directory holds more than maxSize entries
+   * Keys already evicted from memory go first, then the oldest by stored_timestamp;
+   * the entry just written is never a candidate
+   */
+  private async enforceDiskLimit(written: CacheKey): Promise<void> {
+    if (this.maxSize === undefined) {
+      return;
+    }
+    const keys = await this.listStoredKeys();
+    if (keys.length <= this.maxSize) {
+      return;
+    }
+
+    const dated: { key: CacheKey; storedAt: number }[] = [];
+    for (const key of keys.filter((candidate) => candidate !== written)) {
+      const entry = await this.readEntry(key);
+      dated.push({ key, storedAt: entry ? Date.parse(entry.stored_timestamp) : 0 });
+    }
+    dated.sort(
+      (a, b) =>
+        Number(this.memory.has(a.key)) - Number(this.memory.has(b.key)) || a.storedAt - b.storedAt
+    );
+    for (const { key } of dated.slice(0, keys.length - this.maxSize)) {
+      await this.delete(key);
+      this.stats.evictions++;
+    }
+  }
+}
@@ -0,0 +1,386 @@
+/**
+ * PURPOSE: Pluggable confirmation before an invoice is posted, with a record of every decision
+ *
+ * REASONING:
+ * - The guide makes confirmation mandatory but leaves getUserConfirmation undefined
+ * - A posted invoice is legally binding and can only be corrected with a credit note
+ * - Approvals name the payload hash, so approving one invoice never authorises an edited one
+ * - Interactive use, CI pipelines and embedding applications each need a different approver
+ *
+ * AGENT DECISION PROCESS:
+ * - Requirements analyzed from requestInvoiceConfirmation in the guide
+ * - Considered: a boolean callback vs decisions carrying the approved hash and the approver
+ * - Selected hash-carrying decisions so the caller can verify what was actually approved
+ * - Implementation constraints: Decisions are recorded before the gate accepts or refuses them
+ */
+
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { userInfo } from 'node:os';
+import { dirname } from 'node:path';
+import { createInterface } from 'node:readline/promises';
+import { z } from 'zod';
+import type { InvoiceCreationPayload } from '../types/ekuatia';
+import type { RucWithoutDV } from '../types/common';
+import { ConfigurationError, InvoiceCreationError } from '../types/errors';
+import { getLogger, type Logger } from './logger';
+import { formatValidationErrors, parseWithSchema } from '../utils/validation';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Audit file receiving every decision when no other log is configured */
+export const DEFAULT_CONFIRMATION_LOG_PATH = '.ekuatia/confirmations.jsonl';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * An invoice waiting for approval
+ */
+export interface ConfirmationRequest {
+  ruc: RucWithoutDV;
+  payload: InvoiceCreationPayload;
+  /** hashCanonical of the payload */
+  payloadHash: string;
+  /** Human-readable summary shown to the approver */
+  summary: string;
+}
+
+/**
+ * Answer of a confirmation provider
+ */
+export interface ConfirmationDecision {
+  approved: boolean;
+  /** Hash of the payload the approver looked at */
+  payloadHash: string;
+  /** Person, pipeline or system that decided */
+  approvedBy: string;
+  /** ISO timestamp of the decision */
+  decidedAt: string;
+  note?: string;
+}
+
+/**
+ * Source of confirmation decisions
+ */
+export interface ConfirmationProvider {
+  /** Provider name recorded with each decision */
+  readonly name: string;
+  confirm(request: ConfirmationRequest): Promise<ConfirmationDecision>;
+}
+
+/**
+ * Recorded decision, including whether the gate accepted it
+ */
+export interface ConfirmationRecord extends ConfirmationDecision {
+  ruc: RucWithoutDV;
+  provider: string;
+  /** Hash of the payload that was about to be posted */
+  requestedHash: string;
+  /** Approved and for the exact payload */
+  accepted: boolean;
+}
+
+/**
+ * Destination of confirmation records
+ */
+export interface ConfirmationLog {
+  append(record: ConfirmationRecord): Promise<void>;
+}
+
+/**
+ * Callback answer; decidedAt is filled in when omitted
+ */
+export type ConfirmationCallback = (
+  request: ConfirmationRequest
+) => Promise<Omit<ConfirmationDecision, 'decidedAt'> & { decidedAt?: string }>;
+
+/**
+ * Options for constructing a TerminalConfirmationProvider
+ */
+export interface TerminalConfirmationProviderOptions {
+  /** Input stream (defaults to stdin) */
+  input?: NodeJS.ReadableStream;
+  /** Output stream (defaults to stdout) */
+  output?: NodeJS.WritableStream;
+  /** Name recorded as approver (defaults to the OS user) */
+  approver?: string;
+}
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+const guaranies = new Intl.NumberFormat('es-PY', { maximumFractionDigits: 0 });
+
+/**
+ * Confirmation text for a payload, following the guide's posting prompt
+ */
+export const renderInvoiceSummary = (
+  payload: InvoiceCreationPayload,
+  payloadHash: string
+): string => {
+  const { metadatos, datos_receptor, detalles_factura } = payload;
+  const { resumen } = detalles_factura;
+  return [
+    '=== CONFIRMACIÓN DE EMISIÓN DE FACTURA ===',
+    `Receptor: ${datos_receptor.razon_social_receptor} (${datos_receptor.ruc_receptor})`,
+    `Fecha: ${metadatos.fecha_emision}`,
+    `Tipo de documento: ${metadatos.tipo_documento}`,
+    `Timbrado: ${metadatos.numero_timbrado} (${metadatos.establecimiento}-${metadatos.punto_expedicion})`,
+    `Ítems: ${detalles_factura.items.length}`,
+    `Subtotal: ${guaranies.format(resumen.subtotal)} PYG`,
+    `IVA: ${guaranies.format(resumen.total_iva)} PYG`,
+    `Total: ${guaranies.format(resumen.total_general)} PYG`,
+    '',
+    'ADVERTENCIA: la factura electrónica es legalmente vinculante y no puede eliminarse;',
+    'las correcciones requieren una nota de crédito.',
+    `Hash del documento: ${payloadHash}`,
+  ].join('\n');
+};
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+const APPROVAL_ANSWERS = new Set(['s', 'si', 'sí', 'y', 'yes']);
+
+const currentUser = (): string => {
+  try {
+    return userInfo().username;
+  } catch {
+    return 'terminal';
+  }
+};
+
+/**
+ * Asks on the terminal; only "si"/"yes" approves, and input closed before an answer rejects
+ */
+export class TerminalConfirmationProvider implements ConfirmationProvider {
+  readonly name = 'terminal';
+  private readonly input: NodeJS.ReadableStream;
+  private readonly output: NodeJS.WritableStream;
+  private readonly approver: string;
+
+  constructor(options: TerminalConfirmationProviderOptions = {}) {
+    this.input = options.input ?? process.stdin;
+    this.output = options.output ?? process.stdout;
+    this.approver = options.approver ?? currentUser();
+  }
+
+  async confirm(request: ConfirmationRequest): Promise<ConfirmationDecision> {
+    const prompt = createInterface({ input: this.input, output: this.output, terminal: false });
+    // A pending question never settles once the input ends (stdin closed or at EOF), and an
+    // input that ended before this prompt emits nothing at all
+    const ended = (this.input as { readableEnded?: boolean }).readableEnded === true;
+    const closed = new Promise<null>((resolve) => prompt.once('close', () => resolve(null)));
+    try {
+      this.output.write(`${request.summary}\n`);
+      const answer = ended
+        ? null
+        : await Promise.race([
+            prompt.question('¿Confirma la emisión de la factura? (si/no) ').catch(() => null),
+            closed,
+          ]);
+      return {
+        approved: answer !== null && APPROVAL_ANSWERS.has(answer.trim().toLowerCase()),
+        payloadHash: request.payloadHash,
+        approvedBy: this.approver,
+        decidedAt: new Date().toISOString(),
+        ...(answer === null ? { note: 'Entrada cerrada sin respuesta' } : {}),
+      };
+    } finally {
+      prompt.close();
+    }
+  }
+}
+
+/**
+ * Approvals file layout: { "approvals": [{ "payloadHash", "approvedBy", "note"? }] }
+ */
+const approvalFileSchema = z.object({
+  approvals: z.array(
+    z.object({
+      payloadHash: z.string().regex(/^[0-9a-f]{64}$/, 'Debe ser un hash SHA-256 en hexadecimal'),
+      approvedBy: z.string().min(1),
+      note: z.string().optional(),
+    })
+  ),
+});
+
+/**
+ * Approves payloads listed by hash in a JSON file (for CI pipelines)
+ */
+export class FileConfirmationProvider implements ConfirmationProvider {
+  readonly name = 'file';
+
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * @throws {ConfigurationError} INVALID_SETTINGS when the file is not valid approvals JSON
+   */
+  async confirm(request: ConfirmationRequest): Promise<ConfirmationDecision> {
+    const decidedAt = new Date().toISOString();
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      return {
+        approved: false,
+        payloadHash: request.payloadHash,
+        approvedBy: `file:${this.filePath}`,
+        decidedAt,
+        note: 'Archivo de aprobaciones no encontrado',
+      };
+    }
+
+    const approval = this.parse(raw).approvals.find(
+      (entry) => entry.payloadHash === request.payloadHash
+    );
+    if (!approval) {
+      return {
+        approved: false,
+        payloadHash: request.payloadHash,
+        approvedBy: `file:${this.filePath}`,
+        decidedAt,
+        note: 'El hash del documento no figura en el archivo de aprobaciones',
+      };
+    }
+    return {
+      approved: true,
+      payloadHash: approval.payloadHash,
+      approvedBy: approval.approvedBy,
+      decidedAt,
+      ...(approval.note ? { note: approval.note } : {}),
+    };
+  }
+
+  private parse(raw: string): z.infer<typeof approvalFileSchema> {
+    let json: unknown;
+    try {
+      json = JSON.parse(raw);
+    } catch {
+      json = undefined;
+    }
+    const parsed = parseWithSchema(approvalFileSchema, json);
+    if (!parsed.success) {
+      throw new ConfigurationError(
+        `Archivo de aprobaciones inválido (${this.filePath}): ${formatValidationErrors(parsed.error)}`,
+        'INVALID_SETTINGS',
+        { configStep: 'confirmation', invalidFields: Object.keys(parsed.error.errors) }
+      );
+    }
+    return parsed.data;
+  }
+}
+
+/**
+ * Wrap an application callback as a ConfirmationProvider
+ */
+export const callbackConfirmationProvider = (
+  callback: ConfirmationCallback,
+  name = 'callback'
+): ConfirmationProvider => ({
+  name,
+  confirm: async (request) => {
+    const decision = await callback(request);
+    return { ...decision, decidedAt: decision.decidedAt ?? new Date().toISOString() };
+  },
+});
+
+// ============================================================================
+// DECISION LOGS
+// ============================================================================
+
+/**
+ * Keeps records in memory (tests, short-lived processes)
+ */
+export class MemoryConfirmationLog implements ConfirmationLog {
+  readonly records: ConfirmationRecord[] = [];
+
+  append(record: ConfirmationRecord): Promise<void> {
+    this.records.push(record);
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Appends one JSON line per record to an audit file
+ */
+export class JsonLinesConfirmationLog implements ConfirmationLog {
+  constructor(private readonly filePath: string) {}
+
+  async append(record: ConfirmationRecord): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await appendFile(this.filePath, `${JSON.stringify(record)}\n`, { mode: 0o600 });
+  }
+
+  /**
+   * Read back every record in file order
+   */
+  async read(): Promise<ConfirmationRecord[]> {
+    try {
+      const content = await readFile(this.filePath, 'utf8');
+      return content
+        .split('\n')
+        .filter((line) => line.trim())
+        .map((line) => JSON.parse(line) as ConfirmationRecord);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+}
+
+// ============================================================================
+// GATE
+// ============================================================================
+
+/**
+ * Ask the provider, record the decision and accept it only for the exact payload
+ *
+ * @returns The accepted record
+ * @throws {InvoiceCreationError} CONFIRMATION_REJECTED when rejected or approved for another payload
+ */
+export const requireConfirmation = async (
+  provider: ConfirmationProvider,
+  request: ConfirmationRequest,
+  log?: ConfirmationLog,
+  logger: Logger = getLogger().child('confirmation')
+): Promise<ConfirmationRecord> => {
+  const decision = await provider.confirm(request);
+  const matches = decision.payloadHash === request.payloadHash;
+  const record: ConfirmationRecord = {
+    ...decision,
+    ruc: request.ruc,
+    provider: provider.name,
+    requestedHash: request.payloadHash,
+    accepted: decision.approved && matches,
+  };
+  await log?.append(record);
+  logger.info('Invoice confirmation decision', {
+    ruc: request.ruc,
+    provider: provider.name,
+    approvedBy: record.approvedBy,
+    accepted: record.accepted,
+    payloadHash: request.payloadHash,
+  });
+
+  if (!record.accepted) {
+    const reason = decision.approved
+      ? `la aprobación corresponde a otro documento (${decision.payloadHash})`
+      : `rechazada por ${decision.approvedBy}`;
+    throw new InvoiceCreationError(`Emisión no confirmada: ${reason}`, 'CONFIRMATION_REJECTED', {
+      rucReceptor: request.payload.datos_receptor.ruc_receptor,
+      validationErrors: { payloadHash: [reason] },
+    });
+  }
+  return record;
+};
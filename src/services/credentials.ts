@@ -0,0 +1,401 @@
+/**
+ * PURPOSE: Encrypted at-rest storage for LoginCredentials (Marangatu access key)
+ *
+ * REASONING:
+ * - The access key is a confidential tax credential and must not sit in a plaintext .env
+ * - A passphrase-derived key (scrypt) means the vault file alone reveals nothing
+ * - AES-256-GCM authenticates the ciphertext, so tampering and wrong passphrases are detected
+ * - Every write uses a fresh salt and IV, which makes rotation a plain re-save
+ *
+ * AGENT DECISION PROCESS:
+ * - Requirements analyzed from the security notes on MARANGATU_ACCESS_KEY in .env.example
+ * - Considered: OS keychain bindings vs node:crypto file vault
+ * - Selected node:crypto so the vault works headless and without native dependencies
+ * - Implementation constraints: Vault file is written atomically with 0600 permissions
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'node:crypto';
+import { access, mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { z } from 'zod';
+import { loginCredentialsSchema, type LoginCredentials } from '../types/ekuatia';
+import { AuthenticationError, ConfigurationError } from '../types/errors';
+import { getLogger, type Logger } from './logger';
+import { parseRucWithoutDV } from '../utils/ruc';
+import { formatValidationErrors, parseWithSchema } from '../utils/validation';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Vault file format version */
+const VAULT_VERSION = 1;
+
+/** Associated data bound to every ciphertext so other AES-GCM blobs cannot be swapped in */
+const VAULT_AAD = Buffer.from(`ekuatia-credential-vault:v${VAULT_VERSION}`);
+
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+/** Default scrypt cost (N=2^15, r=8, p=1 needs ~32 MiB) */
+export const DEFAULT_SCRYPT_PARAMS: ScryptParams = { N: 32768, r: 8, p: 1 };
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * scrypt cost parameters, stored with each vault so older files stay readable
+ */
+export interface ScryptParams {
+  /** CPU/memory cost (power of two) */
+  N: number;
+  /** Block size */
+  r: number;
+  /** Parallelization */
+  p: number;
+}
+
+/**
+ * Anything that can hand out login credentials on demand
+ */
+export interface CredentialSource {
+  /** Resolve the current credentials (re-read on every login to pick up rotations) */
+  getCredentials(): Promise<LoginCredentials>;
+}
+
+/**
+ * Options for constructing a CredentialVault
+ */
+export interface CredentialVaultOptions {
+  /** Path of the encrypted vault file */
+  filePath: string;
+  /** Passphrase the encryption key is derived from */
+  passphrase: string;
+  /** scrypt cost for new writes (tests may lower it) */
+  scryptParams?: ScryptParams;
+  /** Logger for credential audit events (defaults to the shared logger) */
+  logger?: Logger;
+}
+
+/**
+ * Non-secret vault metadata
+ */
+export interface CredentialVaultMetadata {
+  /** RUC stored in the vault (without DV) */
+  username: string;
+  /** ISO timestamp of the first save */
+  createdAt: string;
+  /** ISO timestamp of the last save or rotation */
+  updatedAt: string;
+}
+
+/**
+ * On-disk vault layout; binary fields are base64
+ */
+const vaultFileSchema = z.object({
+  version: z.literal(VAULT_VERSION),
+  kdf: z.object({
+    name: z.literal('scrypt'),
+    salt: z.string(),
+    N: z.number().int().positive(),
+    r: z.number().int().positive(),
+    p: z.number().int().positive(),
+  }),
+  cipher: z.object({
+    name: z.literal('aes-256-gcm'),
+    iv: z.string(),
+    authTag: z.string(),
+    ciphertext: z.string(),
+  }),
+  username: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+type VaultFile = z.infer<typeof vaultFileSchema>;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Derive the AES key from the passphrase with scrypt
+ */
+const deriveKey = (passphrase: string, salt: Buffer, params: ScryptParams): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    scrypt(
+      passphrase.normalize('NFC'),
+      salt,
+      KEY_LENGTH,
+      { ...params, maxmem: 256 * params.N * params.r },
+      (error, key) => (error ? reject(error) : resolve(key))
+    );
+  });
+
+/**
+ * Wrap static credentials (e.g. from .env) as a CredentialSource
+ */
+export const staticCredentialSource = (credentials: LoginCredentials): CredentialSource => ({
+  getCredentials: () => Promise.resolve(credentials),
+});
+
+/**
+ * Check whether a value is a CredentialSource rather than plain credentials
+ */
+export const isCredentialSource = (
+  value: LoginCredentials | CredentialSource
+): value is CredentialSource => typeof (value as CredentialSource).getCredentials === 'function';
+
+// ============================================================================
+// CREDENTIAL VAULT
+// ============================================================================
+
+/**
+ * Passphrase-protected file holding one set of LoginCredentials
+ */
+export class CredentialVault implements CredentialSource {
+  private readonly filePath: string;
+  private readonly scryptParams: ScryptParams;
+  private readonly logger: Logger;
+  private passphrase: string;
+
+  constructor(options: CredentialVaultOptions) {
+    this.logger = options.logger ?? getLogger().child('credential-vault');
+    if (!options.passphrase) {
+      throw new ConfigurationError(
+        'Se requiere una frase de acceso para el almacén de credenciales',
+        'CREDENTIALS_UNAVAILABLE',
+        { configStep: 'credential_vault' }
+      );
+    }
+    this.filePath = options.filePath;
+    this.passphrase = options.passphrase;
+    this.scryptParams = options.scryptParams ?? DEFAULT_SCRYPT_PARAMS;
+  }
+
+  /**
+   * Whether a vault file exists at the configured path
+   */
+  async exists(): Promise<boolean> {
+    try {
+      await access(this.filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Encrypt and store credentials, replacing any previous contents
+   * An existing vault is only replaced when this passphrase unlocks it, unless overwrite is set
+   *
+   * @param credentials - Credentials to store
+   * @param options - overwrite: replace an existing vault without unlocking it
+   * @throws {AuthenticationError} INVALID_CREDENTIALS when the credentials are malformed
+   * @throws {ConfigurationError} CREDENTIALS_UNAVAILABLE when an existing vault cannot be unlocked
+   */
+  async save(credentials: LoginCredentials, options: { overwrite?: boolean } = {}): Promise<void> {
+    const next = this.validate(credentials);
+    if (!(await this.exists())) {
+      await this.write(next);
+      return;
+    }
+
+    if (options.overwrite) {
+      const existing = await this.readVaultFile().catch(() => null);
+      await this.write(next, existing?.createdAt);
+      this.logger.security('credential_vault_overwritten', { ruc: next.username });
+      return;
+    }
+    const file = await this.readVaultFile();
+    await this.load();
+    await this.write(next, file.createdAt);
+  }
+
+  /**
+   * Decrypt the stored credentials
+   *
+   * @throws {ConfigurationError} CREDENTIALS_UNAVAILABLE when missing, corrupt or locked
+   */
+  async load(): Promise<LoginCredentials> {
+    const file = await this.readVaultFile();
+
+    let plaintext: string;
+    try {
+      const { salt, N, r, p } = file.kdf;
+      const key = await deriveKey(this.passphrase, Buffer.from(salt, 'base64'), { N, r, p });
+      const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(file.cipher.iv, 'base64'));
+      decipher.setAAD(VAULT_AAD);
+      decipher.setAuthTag(Buffer.from(file.cipher.authTag, 'base64'));
+      plaintext = Buffer.concat([
+        decipher.update(Buffer.from(file.cipher.ciphertext, 'base64')),
+        decipher.final(),
+      ]).toString('utf8');
+    } catch {
+      this.logger.security('credential_vault_unlock_failed', { filePath: this.filePath });
+      throw this.unavailable('Frase de acceso incorrecta o almacén de credenciales alterado');
+    }
+
+    let stored: unknown;
+    try {
+      stored = JSON.parse(plaintext);
+    } catch {
+      throw this.unavailable('El contenido descifrado del almacén no es válido');
+    }
+    const parsed = parseWithSchema(loginCredentialsSchema, stored);
+    if (!parsed.success) {
+      throw this.unavailable(
+        `Credenciales almacenadas inválidas: ${formatValidationErrors(parsed.error)}`
+      );
+    }
+    return parsed.data;
+  }
+
+  /**
+   * CredentialSource implementation
+   */
+  async getCredentials(): Promise<LoginCredentials> {
+    return this.load();
+  }
+
+  /**
+   * Replace part of the stored credentials (typically a new access key)
+   *
+   * @returns The credentials now stored
+   */
+  async rotate(
+    update: Partial<Pick<LoginCredentials, 'username' | 'password'>>
+  ): Promise<LoginCredentials> {
+    const file = await this.readVaultFile();
+    const current = await this.load();
+    const next = this.validate({ ...current, ...update });
+    await this.write(next, file.createdAt);
+    this.logger.security('credentials_rotated', {
+      ruc: next.username,
+      fields: Object.keys(update),
+    });
+    return next;
+  }
+
+  /**
+   * Re-encrypt the stored credentials under a new passphrase
+   */
+  async changePassphrase(nextPassphrase: string): Promise<void> {
+    if (!nextPassphrase) {
+      throw this.unavailable('La nueva frase de acceso no puede estar vacía');
+    }
+    const file = await this.readVaultFile();
+    const current = await this.load();
+    this.passphrase = nextPassphrase;
+    await this.write(current, file.createdAt);
+    this.logger.security('credential_vault_passphrase_changed', { ruc: current.username });
+  }
+
+  /**
+   * Non-secret metadata (RUC and timestamps) without decrypting
+   */
+  async getMetadata(): Promise<CredentialVaultMetadata> {
+    const file = await this.readVaultFile();
+    return { username: file.username, createdAt: file.createdAt, updatedAt: file.updatedAt };
+  }
+
+  // --------------------------------------------------------------------------
+  // INTERNALS
+  // --------------------------------------------------------------------------
+
+  /**
+   * Reject credentials that could never log in
+   */
+  private validate(credentials: LoginCredentials): LoginCredentials {
+    const parsed = parseWithSchema(loginCredentialsSchema, credentials);
+    if (!parsed.success) {
+      throw new AuthenticationError(
+        `Credenciales inválidas: ${formatValidationErrors(parsed.error)}`,
+        'INVALID_CREDENTIALS'
+      );
+    }
+    const ruc = parseRucWithoutDV(parsed.data.username);
+    if (!ruc.success || !parsed.data.password) {
+      throw new AuthenticationError(
+        ruc.success ? 'La Clave de Acceso no puede estar vacía' : ruc.error,
+        'INVALID_CREDENTIALS',
+        { ruc: credentials.username }
+      );
+    }
+    return { ...parsed.data, username: ruc.data };
+  }
+
+  /**
+   * Encrypt and atomically replace the vault file
+   */
+  private async write(credentials: LoginCredentials, createdAt?: string): Promise<void> {
+    const salt = randomBytes(SALT_LENGTH);
+    const iv = randomBytes(IV_LENGTH);
+    const key = await deriveKey(this.passphrase, salt, this.scryptParams);
+
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    cipher.setAAD(VAULT_AAD);
+    const ciphertext = Buffer.concat([
+      cipher.update(JSON.stringify(credentials), 'utf8'),
+      cipher.final(),
+    ]);
+
+    const now = new Date().toISOString();
+    const file: VaultFile = {
+      version: VAULT_VERSION,
+      kdf: { name: 'scrypt', salt: salt.toString('base64'), ...this.scryptParams },
+      cipher: {
+        name: 'aes-256-gcm',
+        iv: iv.toString('base64'),
+        authTag: cipher.getAuthTag().toString('base64'),
+        ciphertext: ciphertext.toString('base64'),
+      },
+      username: credentials.username,
+      createdAt: createdAt ?? now,
+      updatedAt: now,
+    };
+
+    await mkdir(dirname(this.filePath), { recursive: true, mode: 0o700 });
+    const tempPath = `${this.filePath}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+    try {
+      await writeFile(tempPath, JSON.stringify(file, null, 2), { mode: 0o600 });
+      await rename(tempPath, this.filePath);
+    } catch (error: unknown) {
+      await rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Read and structurally validate the vault file
+   */
+  private async readVaultFile(): Promise<VaultFile> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, 'utf8');
+    } catch {
+      throw this.unavailable(`No se encontró el almacén de credenciales en ${this.filePath}`);
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(raw);
+    } catch {
+      throw this.unavailable('El almacén de credenciales no es un JSON válido');
+    }
+    const parsed = parseWithSchema(vaultFileSchema, json);
+    if (!parsed.success) {
+      throw this.unavailable(
+        `Formato de almacén no soportado: ${formatValidationErrors(parsed.error)}`
+      );
+    }
+    return parsed.data;
+  }
+
+  private unavailable(message: string): ConfigurationError {
+    return new ConfigurationError(message, 'CREDENTIALS_UNAVAILABLE', {
+      configStep: 'credential_vault',
+    });
+  }
+}
@@ -0,0 +1,315 @@
+/**
+ * PURPOSE: Typed event bus for CacheInvalidationTrigger events
+ *
+ * REASONING:
+ * - Agents notice profile changes (RUC status, CSC, timbrado, address) but do not own the cache
+ * - Publishing an event decouples "something changed" from "what must be dropped"
+ * - Every invalidation keeps its reason so a stale-config incident can be traced afterwards
+ * - Downstream code (dashboards, notifications) subscribes to the same events
+ *
+ * AGENT DECISION PROCESS:
+ * - Requirements analyzed from CacheInvalidationTrigger and the guide's invalidation triggers
+ * - Considered: node:events EventEmitter vs a small typed bus
+ * - Selected a typed bus so async handlers are awaited and their failures are contained
+ * - Implementation constraints: A failing subscriber never prevents delivery to the others
+ */
+
+import type { CacheInvalidationTrigger, EstablishmentData, ProfileData } from '../types/ekuatia';
+import type { CacheKey } from '../types/common';
+import { getLogger, type Logger } from './logger';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Subscription key receiving every trigger */
+export const ALL_TRIGGERS = '*';
+
+/** Invalidation records kept by a binding before the oldest are dropped */
+const MAX_HISTORY = 200;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A detected change that makes cached data stale
+ */
+export interface CacheInvalidationEvent {
+  /** Which invalidation trigger fired */
+  trigger: CacheInvalidationTrigger;
+  /** RUC (without DV) whose data changed */
+  ruc: string;
+  /** Human-readable reason, kept with the invalidation record */
+  reason: string;
+  /** Component that detected the change */
+  source?: string;
+  /** Changed field, when the change is field-level */
+  field?: string;
+  /** Previous value (omitted for secrets such as the CSC) */
+  previousValue?: unknown;
+  /** New value (omitted for secrets such as the CSC) */
+  currentValue?: unknown;
+  /** ISO timestamp of detection */
+  occurredAt: string;
+}
+
+/**
+ * Event as passed to publish(); occurredAt defaults to now
+ */
+export type CacheInvalidationEventInput = Omit<CacheInvalidationEvent, 'occurredAt'> & {
+  occurredAt?: string;
+};
+
+/**
+ * Subscriber callback
+ */
+export type CacheInvalidationListener = (event: CacheInvalidationEvent) => void | Promise<void>;
+
+/**
+ * Trigger to subscribe to, or "*" for all
+ */
+export type CacheInvalidationTopic = CacheInvalidationTrigger | typeof ALL_TRIGGERS;
+
+/**
+ * Outcome of a publish() call
+ */
+export interface PublishResult {
+  /** Listeners that completed */
+  delivered: number;
+  /** Errors thrown by listeners (already logged) */
+  errors: unknown[];
+}
+
+/**
+ * Profile snapshot compared by detectProfileChanges (LoginResponse or ProfileResponse)
+ */
+export interface ProfileSnapshot {
+  profile: ProfileData;
+  establishment_data: EstablishmentData;
+}
+
+/**
+ * Cache that can drop a key for a given trigger (implemented by CacheService)
+ */
+export interface InvalidatableCache {
+  invalidate(key: CacheKey, trigger: CacheInvalidationTrigger): Promise<boolean>;
+}
+
+/**
+ * A cache entry removed because of an event
+ */
+export interface InvalidationRecord {
+  key: CacheKey;
+  trigger: CacheInvalidationTrigger;
+  ruc: string;
+  reason: string;
+  source?: string;
+  invalidatedAt: string;
+}
+
+/**
+ * Handle returned by bindCacheInvalidation
+ */
+export interface CacheInvalidationBinding {
+  /** Invalidations performed so far, oldest first */
+  getHistory(): InvalidationRecord[];
+  /** Stop reacting to events */
+  unsubscribe(): void;
+}
+
+// ============================================================================
+// EVENT BUS
+// ============================================================================
+
+/**
+ * Publish/subscribe hub for cache invalidation events
+ */
+export class CacheEventBus {
+  private readonly listeners = new Map<CacheInvalidationTopic, Set<CacheInvalidationListener>>();
+  private readonly logger: Logger;
+
+  constructor(logger?: Logger) {
+    this.logger = logger ?? getLogger().child('events');
+  }
+
+  /**
+   * Register a listener for one trigger, or "*" for all of them
+   *
+   * @returns Function removing the listener
+   */
+  subscribe(topic: CacheInvalidationTopic, listener: CacheInvalidationListener): () => void {
+    let set = this.listeners.get(topic);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(topic, set);
+    }
+    set.add(listener);
+    return () => {
+      set.delete(listener);
+    };
+  }
+
+  /**
+   * Deliver an event to every matching listener and wait for all of them
+   * Listener errors are logged and reported, never thrown
+   */
+  async publish(input: CacheInvalidationEventInput): Promise<PublishResult> {
+    const event: CacheInvalidationEvent = {
+      ...input,
+      occurredAt: input.occurredAt ?? new Date().toISOString(),
+    };
+    const targets = [
+      ...(this.listeners.get(event.trigger) ?? []),
+      ...(this.listeners.get(ALL_TRIGGERS) ?? []),
+    ];
+
+    this.logger.info('Cache invalidation event', {
+      trigger: event.trigger,
+      ruc: event.ruc,
+      reason: event.reason,
+      source: event.source,
+      listeners: targets.length,
+    });
+
+    const outcomes = await Promise.allSettled(
+      targets.map(async (listener) => {
+        await listener(event);
+      })
+    );
+    const errors = outcomes
+      .filter((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected')
+      .map((outcome) => outcome.reason as unknown);
+    for (const error of errors) {
+      this.logger.error('Cache invalidation listener failed', { trigger: event.trigger, error });
+    }
+    return { delivered: targets.length - errors.length, errors };
+  }
+
+  /**
+   * Number of listeners for a topic (all topics when omitted)
+   */
+  listenerCount(topic?: CacheInvalidationTopic): number {
+    if (topic !== undefined) {
+      return this.listeners.get(topic)?.size ?? 0;
+    }
+    let total = 0;
+    for (const set of this.listeners.values()) {
+      total += set.size;
+    }
+    return total;
+  }
+}
+
+// ============================================================================
+// CHANGE DETECTION
+// ============================================================================
+
+/**
+ * Compare two profile snapshots and describe each change as an invalidation event
+ * CSC values are never copied into the event
+ *
+ * @param ruc - RUC (without DV) the profiles belong to
+ * @param previous - Snapshot the cache was built from
+ * @param current - Freshly retrieved snapshot
+ */
+export const detectProfileChanges = (
+  ruc: string,
+  previous: ProfileSnapshot,
+  current: ProfileSnapshot
+): CacheInvalidationEventInput[] => {
+  const events: CacheInvalidationEventInput[] = [];
+  const before = previous.profile;
+  const after = current.profile;
+
+  if (before.ruc_status !== after.ruc_status) {
+    events.push({
+      trigger: 'ruc_status_change',
+      ruc,
+      field: 'ruc_status',
+      previousValue: before.ruc_status,
+      currentValue: after.ruc_status,
+      reason: `Estado del RUC cambió de ${before.ruc_status} a ${after.ruc_status}`,
+    });
+  }
+  if (before.csc !== after.csc) {
+    events.push({
+      trigger: 'csc_update',
+      ruc,
+      field: 'csc',
+      reason: 'El Código de Seguridad del Contribuyente fue actualizado',
+    });
+  }
+  if (before.numero_timbrado !== after.numero_timbrado) {
+    events.push({
+      trigger: 'timbrado_expiration',
+      ruc,
+      field: 'numero_timbrado',
+      previousValue: before.numero_timbrado,
+      currentValue: after.numero_timbrado,
+      reason: `Timbrado ${before.numero_timbrado} reemplazado por ${after.numero_timbrado}`,
+    });
+  }
+
+  const changedAddressFields = (
+    Object.keys(current.establishment_data) as (keyof EstablishmentData)[]
+  ).filter((key) => previous.establishment_data[key] !== current.establishment_data[key]);
+  if (changedAddressFields.length > 0) {
+    events.push({
+      trigger: 'establishment_update',
+      ruc,
+      field: 'establishment_data',
+      previousValue: previous.establishment_data,
+      currentValue: current.establishment_data,
+      reason: `Datos del establecimiento actualizados (${changedAddressFields.join(', ')})`,
+    });
+  }
+
+  return events;
+};
+
+// ============================================================================
+// CACHE BINDING
+// ============================================================================
+
+/**
+ * Subscribe a cache to the bus so matching entries are dropped when events arrive
+ *
+ * @param bus - Event bus to listen on
+ * @param cache - Cache whose entries declare their invalidation triggers
+ * @param keyFor - Keys to check for an event's RUC (defaults to ekuatia_config_{ruc})
+ */
+export const bindCacheInvalidation = (
+  bus: CacheEventBus,
+  cache: InvalidatableCache,
+  keyFor: (ruc: string) => CacheKey[] = (ruc) => [`ekuatia_config_${ruc}`],
+  logger: Logger = getLogger().child('events')
+): CacheInvalidationBinding => {
+  const history: InvalidationRecord[] = [];
+
+  const unsubscribe = bus.subscribe(ALL_TRIGGERS, async (event) => {
+    for (const key of keyFor(event.ruc)) {
+      if (!(await cache.invalidate(key, event.trigger))) {
+        continue;
+      }
+      const record: InvalidationRecord = {
+        key,
+        trigger: event.trigger,
+        ruc: event.ruc,
+        reason: event.reason,
+        source: event.source,
+        invalidatedAt: new Date().toISOString(),
+      };
+      history.push(record);
+      if (history.length > MAX_HISTORY) {
+        history.shift();
+      }
+      logger.info('Cache entry invalidated', { ...record });
+    }
+  });
+
+  return {
+    getHistory: () => [...history],
+    unsubscribe,
+  };
+};
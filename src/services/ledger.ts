@@ -0,0 +1,475 @@
+/**
+ * PURPOSE: Local ledger of invoice submissions so the same payload is registered at most once
+ *
+ * REASONING:
+ * - A timeout after POST /documento/crear leaves the outcome unknown; blindly resending risks DOCUMENTO_DUPLICADO
+ * - Entries are keyed by the canonical payload hash, which is also what the approver confirmed
+ * - The state is written before the call and again after it, so a crash mid-call leaves a "pending" trace
+ * - An unresolved entry is reconciled before anything is resent: by documento_id when one was recorded,
+ *   otherwise only through a caller-supplied search, because Ekuatia has no lookup by payload content
+ * - Submissions of the same payload within a process run one at a time, so a concurrent second
+ *   call reconciles against the first one's outcome instead of posting alongside it
+ *
+ * AGENT DECISION PROCESS:
+ * - Requirements analyzed from DOCUMENTO_DUPLICADO and the retry executor
+ * - Considered: reusing the configuration CacheService vs a dedicated store without TTL eviction
+ * - Selected a dedicated store: ledger entries must never expire while an outcome is unresolved
+ * - Implementation constraints: Without proof the document is absent, resubmission is refused
+ */
+
+import { randomBytes } from 'node:crypto';
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { z } from 'zod';
+import type { DocumentCreationResponse, InvoiceCreationPayload } from '../types/ekuatia';
+import type { RucWithoutDV } from '../types/common';
+import {
+  AuthenticationError,
+  EkuatiaBaseError,
+  InvalidResponseError,
+  InvoiceCreationError,
+  RateLimitError,
+} from '../types/errors';
+import { getLogger, type Logger } from './logger';
+import { hashCanonical } from '../utils/hash';
+import { parseWithSchema } from '../utils/validation';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Directory holding one file per submission */
+export const DEFAULT_LEDGER_DIRECTORY = '.ekuatia/submissions';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Submission state
+ * - pending: recorded before the call; the process may have stopped mid-call
+ * - submitted: registered, with documento_id and CDC
+ * - not_registered: the server refused or never received the request; safe to resend
+ * - uncertain: the call failed in a way that may have registered the document
+ * - duplicate: the server answered DOCUMENTO_DUPLICADO
+ */
+export const submissionStateSchema = z.enum([
+  'pending',
+  'submitted',
+  'not_registered',
+  'uncertain',
+  'duplicate',
+]);
+export type SubmissionState = z.infer<typeof submissionStateSchema>;
+
+/**
+ * Ledger entry for one payload
+ */
+export const submissionEntrySchema = z.object({
+  payloadHash: z.string(),
+  ruc: z.string(),
+  ruc_receptor: z.string(),
+  state: submissionStateSchema,
+  /** POST attempts made for this payload */
+  attempts: z.number().int().nonnegative(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  documento_id: z.string().optional(),
+  cdc: z.string().optional(),
+  fecha_emision: z.string().optional(),
+  /** Message of the last failed attempt */
+  lastError: z.string().optional(),
+});
+export type SubmissionEntry = z.infer<typeof submissionEntrySchema>;
+
+/**
+ * Storage for ledger entries keyed by payload hash
+ */
+export interface SubmissionStore {
+  get(payloadHash: string): Promise<SubmissionEntry | null>;
+  put(entry: SubmissionEntry): Promise<void>;
+}
+
+/**
+ * What the server knows about a ledger entry
+ */
+export type DocumentLookupResult =
+  | { status: 'found'; document: DocumentCreationResponse }
+  | { status: 'not_found' }
+  | { status: 'unknown' };
+
+/**
+ * Asks the server whether the entry's document exists
+ */
+export type DocumentLookup = (entry: SubmissionEntry) => Promise<DocumentLookupResult>;
+
+/**
+ * Finds the document issued for a payload when no documento_id was received
+ * Ekuatia only exposes GET /documento/{documento_id}, so no search is built in; one can be
+ * backed by another record of issued documents (a DNIT query by CDC, the ERP, ...)
+ */
+export type DocumentSearch = (
+  payload: InvoiceCreationPayload,
+  entry: SubmissionEntry
+) => Promise<DocumentLookupResult>;
+
+/**
+ * A payload about to be submitted
+ */
+export interface SubmissionRequest {
+  ruc: RucWithoutDV;
+  payload: InvoiceCreationPayload;
+  /** Defaults to hashCanonical(payload) */
+  payloadHash?: string;
+}
+
+/**
+ * Result of a submission through the ledger
+ */
+export interface SubmissionOutcome {
+  document: DocumentCreationResponse;
+  /** The document was already registered; nothing was sent */
+  reused: boolean;
+  entry: SubmissionEntry;
+}
+
+/**
+ * Options for constructing a SubmissionLedger
+ */
+export interface SubmissionLedgerOptions {
+  /** Directory for entry files (defaults to DEFAULT_LEDGER_DIRECTORY); null is memory-only, for tests */
+  directory?: string | null;
+  /** Custom store (overrides directory) */
+  store?: SubmissionStore;
+  /** Logger (defaults to the shared logger) */
+  logger?: Logger;
+  /** Clock (defaults to Date.now) */
+  now?: () => Date;
+}
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+/**
+ * Entries kept for the lifetime of the process
+ */
+export class MemorySubmissionStore implements SubmissionStore {
+  private readonly entries = new Map<string, SubmissionEntry>();
+
+  get(payloadHash: string): Promise<SubmissionEntry | null> {
+    return Promise.resolve(this.entries.get(payloadHash) ?? null);
+  }
+
+  put(entry: SubmissionEntry): Promise<void> {
+    this.entries.set(entry.payloadHash, { ...entry });
+    return Promise.resolve();
+  }
+}
+
+/**
+ * One JSON file per payload hash, written atomically
+ */
+export class FileSubmissionStore implements SubmissionStore {
+  constructor(
+    private readonly directory: string,
+    private readonly logger: Logger = getLogger().child('ledger')
+  ) {}
+
+  async get(payloadHash: string): Promise<SubmissionEntry | null> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath(payloadHash), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(raw);
+    } catch {
+      json = undefined;
+    }
+    const parsed = parseWithSchema(submissionEntrySchema, json);
+    if (!parsed.success) {
+      // A damaged entry must not read as "never submitted"
+      this.logger.error('Malformed submission ledger entry', { payloadHash });
+      throw new InvoiceCreationError(
+        `Registro de envío ilegible para el documento ${payloadHash}`,
+        'SUBMISSION_UNCERTAIN',
+        { validationErrors: parsed.error.errors }
+      );
+    }
+    return parsed.data;
+  }
+
+  async put(entry: SubmissionEntry): Promise<void> {
+    await mkdir(this.directory, { recursive: true, mode: 0o700 });
+    const target = this.filePath(entry.payloadHash);
+    const tempPath = `${target}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+    try {
+      await writeFile(tempPath, JSON.stringify(entry, null, 2), { mode: 0o600 });
+      await rename(tempPath, target);
+    } catch (error: unknown) {
+      await rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  private filePath(payloadHash: string): string {
+    if (!/^[0-9a-f]{64}$/.test(payloadHash)) {
+      throw new InvoiceCreationError(`Hash de documento inválido: ${payloadHash}`, 'SYSTEM_ERROR');
+    }
+    return join(this.directory, `${payloadHash}.json`);
+  }
+}
+
+// ============================================================================
+// OUTCOME CLASSIFICATION
+// ============================================================================
+
+/**
+ * State to record after a failed POST
+ * Only failures proving the request was refused or never sent allow a resend
+ */
+export const classifySubmissionFailure = (error: unknown): SubmissionState => {
+  if (error instanceof InvoiceCreationError && error.code === 'DOCUMENTO_DUPLICADO') {
+    return 'duplicate';
+  }
+  if (error instanceof InvalidResponseError) {
+    // The server answered, so the document may exist even though the reply was unreadable
+    return 'uncertain';
+  }
+  if (error instanceof RateLimitError || error instanceof AuthenticationError) {
+    return 'not_registered';
+  }
+  if (error instanceof EkuatiaBaseError && !error.isRetryable()) {
+    return 'not_registered';
+  }
+  return 'uncertain';
+};
+
+const toDocument = (entry: SubmissionEntry): DocumentCreationResponse | null =>
+  entry.documento_id && entry.cdc
+    ? {
+        documento_id: entry.documento_id,
+        cdc: entry.cdc,
+        ...(entry.fecha_emision ? { fecha_emision: entry.fecha_emision } : {}),
+      }
+    : null;
+
+// ============================================================================
+// LEDGER
+// ============================================================================
+
+/**
+ * Records every submission and refuses to resend a payload that may already be registered
+ */
+export class SubmissionLedger {
+  /** Latest submission per payload hash still running */
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+  private readonly store: SubmissionStore;
+  private readonly logger: Logger;
+  private readonly now: () => Date;
+
+  constructor(options: SubmissionLedgerOptions = {}) {
+    this.logger = options.logger ?? getLogger().child('ledger');
+    const directory =
+      options.directory === undefined ? DEFAULT_LEDGER_DIRECTORY : options.directory;
+    this.store =
+      options.store ??
+      (directory === null
+        ? new MemorySubmissionStore()
+        : new FileSubmissionStore(directory, this.logger));
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * Entry recorded for a payload hash, if any
+   */
+  get(payloadHash: string): Promise<SubmissionEntry | null> {
+    return this.store.get(payloadHash);
+  }
+
+  /**
+   * Registered document for the payload, asking the lookup about unresolved entries
+   *
+   * @returns The existing document, or null when the payload may be sent
+   * @throws {InvoiceCreationError} DOCUMENTO_DUPLICADO when the server already reported a duplicate
+   * @throws {InvoiceCreationError} SUBMISSION_UNCERTAIN when the outcome of an earlier call cannot be established
+   */
+  async reconcile(
+    payloadHash: string,
+    lookup: DocumentLookup
+  ): Promise<DocumentCreationResponse | null> {
+    const entry = await this.store.get(payloadHash);
+    if (!entry || entry.state === 'not_registered') {
+      return null;
+    }
+    if (entry.state === 'duplicate') {
+      throw new InvoiceCreationError(
+        `El documento ${payloadHash} ya fue registrado según Ekuatia`,
+        'DOCUMENTO_DUPLICADO',
+        { rucReceptor: entry.ruc_receptor }
+      );
+    }
+
+    const result = await lookup(entry);
+    if (result.status === 'found') {
+      if (entry.state !== 'submitted') {
+        this.logger.info('Earlier submission found on the server', {
+          payloadHash,
+          documentoId: result.document.documento_id,
+        });
+      }
+      await this.record(entry, {
+        state: 'submitted',
+        documento_id: result.document.documento_id,
+        cdc: result.document.cdc,
+        fecha_emision: result.document.fecha_emision,
+      });
+      return result.document;
+    }
+    if (result.status === 'not_found' && entry.state !== 'submitted') {
+      await this.record(entry, { state: 'not_registered' });
+      return null;
+    }
+
+    const recorded = entry.state === 'submitted' ? toDocument(entry) : null;
+    if (recorded && result.status === 'unknown') {
+      return recorded;
+    }
+    throw new InvoiceCreationError(
+      entry.state === 'submitted'
+        ? `El documento ${entry.documento_id ?? payloadHash} figura como enviado pero Ekuatia no lo encuentra`
+        : `No se puede confirmar si el documento ${payloadHash} fue registrado (estado: ${entry.state}${entry.lastError ? `, último error: ${entry.lastError}` : ''})`,
+      'SUBMISSION_UNCERTAIN',
+      { rucReceptor: entry.ruc_receptor, invoiceId: entry.documento_id }
+    );
+  }
+
+  /**
+   * Send a payload once: reconcile, record "pending", call, record the outcome
+   * A call for a payload already being submitted waits for that submission, then reconciles
+   *
+   * @param request - Payload and issuer RUC
+   * @param send - Performs POST /documento/crear
+   * @param lookup - Server check for unresolved entries
+   * @throws {InvoiceCreationError} DOCUMENTO_DUPLICADO or SUBMISSION_UNCERTAIN from reconcile
+   * @throws The error raised by send, after its outcome is recorded
+   */
+  async submit(
+    request: SubmissionRequest,
+    send: (payload: InvoiceCreationPayload) => Promise<DocumentCreationResponse>,
+    lookup: DocumentLookup
+  ): Promise<SubmissionOutcome> {
+    const payloadHash = request.payloadHash ?? hashCanonical(request.payload);
+    const previous = this.inFlight.get(payloadHash) ?? Promise.resolve();
+    const run = previous
+      .catch(() => undefined)
+      .then(() => this.submitOnce(payloadHash, request, send, lookup));
+    this.inFlight.set(payloadHash, run);
+    try {
+      return await run;
+    } finally {
+      if (this.inFlight.get(payloadHash) === run) {
+        this.inFlight.delete(payloadHash);
+      }
+    }
+  }
+
+  /**
+   * Settle an unresolved entry after checking Ekuatia by hand
+   *
+   * @param payloadHash - Entry to settle
+   * @param document - The registered document, or null when it was not registered
+   */
+  async resolve(payloadHash: string, document: DocumentCreationResponse | null): Promise<void> {
+    const entry = await this.store.get(payloadHash);
+    if (!entry) {
+      return;
+    }
+    await this.record(
+      entry,
+      document
+        ? {
+            state: 'submitted',
+            documento_id: document.documento_id,
+            cdc: document.cdc,
+            fecha_emision: document.fecha_emision,
+          }
+        : { state: 'not_registered' }
+    );
+    this.logger.info('Submission resolved manually', {
+      payloadHash,
+      registered: document !== null,
+    });
+  }
+
+  private async submitOnce(
+    payloadHash: string,
+    request: SubmissionRequest,
+    send: (payload: InvoiceCreationPayload) => Promise<DocumentCreationResponse>,
+    lookup: DocumentLookup
+  ): Promise<SubmissionOutcome> {
+    const existing = await this.reconcile(payloadHash, lookup);
+    const previous = await this.store.get(payloadHash);
+    if (existing && previous) {
+      return { document: existing, reused: true, entry: previous };
+    }
+
+    const timestamp = this.now().toISOString();
+    const pending: SubmissionEntry = {
+      payloadHash,
+      ruc: request.ruc,
+      ruc_receptor: request.payload.datos_receptor.ruc_receptor,
+      createdAt: previous?.createdAt ?? timestamp,
+      updatedAt: timestamp,
+      attempts: (previous?.attempts ?? 0) + 1,
+      state: 'pending',
+    };
+    await this.store.put(pending);
+
+    let document: DocumentCreationResponse;
+    try {
+      document = await send(request.payload);
+    } catch (error) {
+      const state = classifySubmissionFailure(error);
+      await this.record(pending, {
+        state,
+        lastError: error instanceof Error ? error.message : String(error),
+      });
+      this.logger.warn('Invoice submission failed', {
+        payloadHash,
+        state,
+        attempts: pending.attempts,
+      });
+      throw error;
+    }
+
+    const entry = await this.record(pending, {
+      state: 'submitted',
+      documento_id: document.documento_id,
+      cdc: document.cdc,
+      fecha_emision: document.fecha_emision,
+    });
+    return { document, reused: false, entry };
+  }
+
+  private async record(
+    entry: SubmissionEntry,
+    changes: Partial<SubmissionEntry>
+  ): Promise<SubmissionEntry> {
+    const next: SubmissionEntry = { ...entry, ...changes, updatedAt: this.now().toISOString() };
+    for (const key of Object.keys(next) as (keyof SubmissionEntry)[]) {
+      if (next[key] === undefined) {
+        delete next[key];
+      }
+    }
+    await this.store.put(next);
+    return next;
+  }
+}
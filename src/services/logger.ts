@@ -0,0 +1,399 @@
+/**
+ * PURPOSE: Structured JSON logger implementing LoggingConfig, shared by agents and services
+ *
+ * REASONING:
+ * - One JSON object per line is easy to grep locally and to ship to a log collector
+ * - Secrets (access keys, passwords, session tokens, CSC) are masked before anything is written
+ * - EkuatiaBaseError.toJSON() is logged as-is so code, context and recovery stay queryable
+ * - Size-based file rotation keeps long-running batch jobs from filling the disk
+ * - SECURITY_LOGGING gates the audit trail of login and credential events
+ *
+ * AGENT DECISION PROCESS:
+ * - Requirements analyzed from LoggingConfig in types/common and src/services/logger.ts in the plan
+ * - Considered: pino/winston vs a small in-house logger
+ * - Selected in-house because redaction must be unconditional and the output format is fixed
+ * - Implementation constraints: File writes are synchronous so entries are never reordered or lost
+ */
+
+import { appendFileSync, existsSync, mkdirSync, renameSync, rmSync, statSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { LoggingConfig } from '../types/common';
+import { EkuatiaBaseError } from '../types/errors';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Replacement written in place of any secret */
+export const REDACTED = '[REDACTED]';
+
+/** Numeric severity; lower is more severe */
+const LEVEL_PRIORITY: Record<LogLevel, number> = { error: 0, warn: 1, info: 2, debug: 3 };
+
+/**
+ * Keys whose values are always masked, compared after lower-casing and stripping "_" and "-"
+ * Covers password, session_token, MARANGATU_ACCESS_KEY, csc and codigo_seguridad_contribuyente
+ * Only credential tokens match, so counters such as a rate limiter's tokens stay readable
+ */
+const SENSITIVE_KEY_PATTERN =
+  /password|passphrase|^token$|(session|access|refresh|auth|bearer|api|id)token$|accesskey|apikey|secret|authorization|^csc$|codigoseguridadcontribuyente/;
+
+/** Bearer credentials embedded in free text (e.g. error messages) */
+const BEARER_PATTERN = /Bearer\s+[\w\-.~+/]+=*/g;
+
+/** Default rotation threshold (10 MiB) */
+const DEFAULT_MAX_FILE_BYTES = 10 * 1024 * 1024;
+
+/** Default number of rotated files kept next to the active one */
+const DEFAULT_MAX_FILES = 5;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Log severity levels from LoggingConfig
+ */
+export type LogLevel = LoggingConfig['level'];
+
+/**
+ * Arbitrary structured data attached to an entry
+ */
+export type LogMetadata = Record<string, unknown>;
+
+/**
+ * A single structured log record
+ */
+export interface LogEntry {
+  /** ISO timestamp (omitted when includeTimestamp is false) */
+  timestamp?: string;
+  /** Severity */
+  level: LogLevel;
+  /** Human-readable message */
+  message: string;
+  /** Emitting agent or service */
+  component?: string;
+  /** Security audit event name, for entries written through security() */
+  securityEvent?: string;
+  /** Additional redacted fields */
+  [key: string]: unknown;
+}
+
+/**
+ * Destination for serialized log lines
+ */
+export interface LogSink {
+  write(entry: LogEntry, line: string): void;
+}
+
+/**
+ * Logger construction options beyond LoggingConfig
+ */
+export interface LoggerOptions {
+  /** Emit security audit events (SECURITY_LOGGING) */
+  securityLogging?: boolean;
+  /** Rotate the log file once it exceeds this size */
+  maxFileBytes?: number;
+  /** Rotated files to keep (app.log.1 … app.log.N) */
+  maxFiles?: number;
+  /** Replace the default sinks (console plus optional file) */
+  sinks?: LogSink[];
+}
+
+/**
+ * Configuration shared by a logger and every child created from it
+ */
+export interface LoggerState {
+  config: LoggingConfig;
+  options: LoggerOptions;
+  sinks: LogSink[];
+}
+
+// ============================================================================
+// REDACTION
+// ============================================================================
+
+/**
+ * Whether a property name holds a secret
+ */
+export const isSensitiveKey = (key: string): boolean =>
+  SENSITIVE_KEY_PATTERN.test(key.toLowerCase().replace(/[_-]/g, ''));
+
+/**
+ * Serialize errors into plain objects; EkuatiaBaseError keeps its own toJSON() shape
+ */
+const serializeError = (error: Error): Record<string, unknown> => {
+  if (error instanceof EkuatiaBaseError) {
+    return error.toJSON();
+  }
+  return {
+    name: error.name,
+    message: error.message,
+    stack: error.stack,
+    ...(error.cause === undefined ? {} : { cause: error.cause }),
+  };
+};
+
+/**
+ * Deep-copy a value, masking secrets at any depth
+ * Only references back to an ancestor are cycles; an object shared by two branches is copied twice
+ */
+export const redact = (value: unknown, ancestors: WeakSet<object> = new WeakSet()): unknown => {
+  if (typeof value === 'string') {
+    return value.replace(BEARER_PATTERN, `Bearer ${REDACTED}`);
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (ancestors.has(value)) {
+    return '[Circular]';
+  }
+
+  ancestors.add(value);
+  try {
+    if (value instanceof Error) {
+      return redact(serializeError(value), ancestors);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => redact(item, ancestors));
+    }
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      result[key] =
+        isSensitiveKey(key) && entry !== undefined ? REDACTED : redact(entry, ancestors);
+    }
+    return result;
+  } finally {
+    ancestors.delete(value);
+  }
+};
+
+// ============================================================================
+// SINKS
+// ============================================================================
+
+/**
+ * Writes errors and warnings to stderr, everything else to stdout
+ */
+export const consoleSink: LogSink = {
+  write(entry, line) {
+    const stream =
+      LEVEL_PRIORITY[entry.level] <= LEVEL_PRIORITY.warn ? process.stderr : process.stdout;
+    stream.write(`${line}\n`);
+  },
+};
+
+/**
+ * Appends to a file and rotates it by size (app.log → app.log.1 → … → app.log.N)
+ */
+export class RotatingFileSink implements LogSink {
+  private size: number;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly maxFileBytes: number = DEFAULT_MAX_FILE_BYTES,
+    private readonly maxFiles: number = DEFAULT_MAX_FILES
+  ) {
+    mkdirSync(dirname(filePath), { recursive: true });
+    this.size = existsSync(filePath) ? statSync(filePath).size : 0;
+  }
+
+  write(_entry: LogEntry, line: string): void {
+    const data = `${line}\n`;
+    const bytes = Buffer.byteLength(data);
+    if (this.size > 0 && this.size + bytes > this.maxFileBytes) {
+      this.rotate();
+    }
+    appendFileSync(this.filePath, data, { mode: 0o600 });
+    this.size += bytes;
+  }
+
+  /**
+   * Shift rotated files up by one and start a fresh active file
+   */
+  private rotate(): void {
+    rmSync(`${this.filePath}.${this.maxFiles}`, { force: true });
+    for (let index = this.maxFiles - 1; index >= 1; index--) {
+      const source = `${this.filePath}.${index}`;
+      if (existsSync(source)) {
+        renameSync(source, `${this.filePath}.${index + 1}`);
+      }
+    }
+    if (this.maxFiles > 0) {
+      renameSync(this.filePath, `${this.filePath}.1`);
+    } else {
+      rmSync(this.filePath, { force: true });
+    }
+    this.size = 0;
+  }
+}
+
+// ============================================================================
+// LOGGER
+// ============================================================================
+
+/**
+ * Structured logger; child() loggers share configuration and sinks and add a component name
+ */
+export class Logger {
+  private readonly state: LoggerState;
+
+  constructor(
+    config: LoggingConfig,
+    options: LoggerOptions = {},
+    private readonly component?: string,
+    state?: LoggerState
+  ) {
+    this.state = state ?? {
+      config,
+      options,
+      sinks: options.sinks ?? Logger.defaultSinks(config, options),
+    };
+  }
+
+  /**
+   * Logger bound to an agent or service name
+   */
+  child(component: string): Logger {
+    return new Logger(this.state.config, this.state.options, component, this.state);
+  }
+
+  /**
+   * Apply new configuration to this logger and every child created from it
+   */
+  configure(config: LoggingConfig, options: LoggerOptions = {}): void {
+    this.state.config = config;
+    this.state.options = options;
+    this.state.sinks = options.sinks ?? Logger.defaultSinks(config, options);
+  }
+
+  /**
+   * Whether entries at this level would be written
+   */
+  isLevelEnabled(level: LogLevel): boolean {
+    return LEVEL_PRIORITY[level] <= LEVEL_PRIORITY[this.state.config.level];
+  }
+
+  error(message: string, metadata?: LogMetadata): void {
+    this.log('error', message, metadata);
+  }
+
+  warn(message: string, metadata?: LogMetadata): void {
+    this.log('warn', message, metadata);
+  }
+
+  info(message: string, metadata?: LogMetadata): void {
+    this.log('info', message, metadata);
+  }
+
+  debug(message: string, metadata?: LogMetadata): void {
+    this.log('debug', message, metadata);
+  }
+
+  /**
+   * Security audit event (login, credential access); written only when SECURITY_LOGGING is on
+   */
+  security(event: string, metadata?: LogMetadata): void {
+    if (this.state.options.securityLogging === false) {
+      return;
+    }
+    this.write('info', `security:${event}`, { securityEvent: event, ...metadata }, true);
+  }
+
+  /**
+   * Write an entry at the given level
+   */
+  log(level: LogLevel, message: string, metadata?: LogMetadata): void {
+    this.write(level, message, metadata, false);
+  }
+
+  private write(
+    level: LogLevel,
+    message: string,
+    metadata: LogMetadata | undefined,
+    force: boolean
+  ): void {
+    if (!force && !this.isLevelEnabled(level)) {
+      return;
+    }
+
+    const entry: LogEntry = {
+      ...(this.state.config.includeTimestamp ? { timestamp: new Date().toISOString() } : {}),
+      level,
+      message: redact(message) as string,
+      ...(this.component ? { component: this.component } : {}),
+      ...(metadata ? (redact(metadata) as LogMetadata) : {}),
+    };
+    const line = JSON.stringify(entry);
+    for (const sink of this.state.sinks) {
+      sink.write(entry, line);
+    }
+  }
+
+  private static defaultSinks(config: LoggingConfig, options: LoggerOptions): LogSink[] {
+    const sinks: LogSink[] = [consoleSink];
+    if (config.logToFile && config.logFilePath) {
+      sinks.push(new RotatingFileSink(config.logFilePath, options.maxFileBytes, options.maxFiles));
+    }
+    return sinks;
+  }
+}
+
+// ============================================================================
+// SHARED LOGGER
+// ============================================================================
+
+let sharedLogger: Logger | null = null;
+
+/**
+ * Logging defaults read from LOG_LEVEL and SECURITY_LOGGING (quiet under NODE_ENV=test)
+ */
+const loggingConfigFromEnv = (): LoggingConfig => {
+  const level = process.env.LOG_LEVEL;
+  return {
+    level:
+      level === 'error' || level === 'warn' || level === 'info' || level === 'debug'
+        ? level
+        : process.env.NODE_ENV === 'test'
+          ? 'error'
+          : 'info',
+    includeTimestamp: true,
+  };
+};
+
+/**
+ * SECURITY_LOGGING flag; off by default only under NODE_ENV=test
+ */
+const securityLoggingFromEnv = (): boolean => {
+  const flag = process.env.SECURITY_LOGGING?.trim().toLowerCase();
+  if (flag === undefined || flag === '') {
+    return process.env.NODE_ENV !== 'test';
+  }
+  return flag === 'true' || flag === '1' || flag === 'yes';
+};
+
+/**
+ * Process-wide logger used by agents and services unless one is injected
+ */
+export const getLogger = (): Logger => {
+  sharedLogger ??= new Logger(loggingConfigFromEnv(), {
+    securityLogging: securityLoggingFromEnv(),
+  });
+  return sharedLogger;
+};
+
+/**
+ * Reconfigure the process-wide logger (typically from loaded settings at startup)
+ * Child loggers obtained earlier through getLogger().child() follow the new configuration
+ */
+export const configureLogger = (config: LoggingConfig, options: LoggerOptions = {}): Logger => {
+  if (sharedLogger) {
+    sharedLogger.configure(config, options);
+  } else {
+    sharedLogger = new Logger(config, options);
+  }
+  return sharedLogger;
+};
@@ -0,0 +1,364 @@
+/**
+ * PURPOSE: Client-side rate limiting and concurrency control for Ekuatia requests
+ *
+ * REASONING:
+ * - Batch jobs must not flood the government portal and trigger server-side throttling
+ * - Token buckets allow short bursts while holding the long-run rate per endpoint
+ * - A global concurrency cap bounds open connections regardless of endpoint mix
+ * - A bounded queue pushes back on callers instead of buffering without limit
+ * - Queue depth and wait times are observable so batch sizes can be tuned
+ *
+ * AGENT DECISION PROCESS:
+ * - Requirements analyzed from RATE_LIMITED in EkuatiaBaseError.isRetryable()
+ * - Considered: fixed-interval spacing vs token bucket vs sliding window
+ * - Selected token bucket because document creation arrives in bursts
+ * - Implementation constraints: Timers are only armed while work is waiting
+ */
+
+import { RateLimitError } from '../types/errors';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Bucket key shared by every endpoint without its own rule */
+const DEFAULT_BUCKET = '*';
+
+/** Number of recent dispatches used for the average wait time */
+const WAIT_SAMPLE_SIZE = 100;
+
+/** Defaults used when no options are given */
+export const DEFAULT_RATE_LIMIT_RULE: RateLimitRule = { capacity: 5, refillPerSecond: 2 };
+const DEFAULT_MAX_CONCURRENT = 4;
+const DEFAULT_MAX_QUEUE_SIZE = 100;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Token bucket parameters for one endpoint (or the shared default bucket)
+ */
+export interface RateLimitRule {
+  /** Maximum burst size (bucket capacity) */
+  capacity: number;
+  /** Sustained requests per second (refill rate) */
+  refillPerSecond: number;
+}
+
+/**
+ * Options for constructing a RateLimiter
+ */
+export interface RateLimiterOptions {
+  /** Rule for endpoints without a specific rule */
+  defaultRule?: RateLimitRule;
+  /**
+   * Per-endpoint rules keyed by path; a key also covers sub-paths
+   * (e.g. "/documento" limits "/documento/123/firmar")
+   */
+  endpointRules?: Record<string, RateLimitRule>;
+  /** Maximum requests in flight at once */
+  maxConcurrent?: number;
+  /** Maximum queued requests; further calls are rejected immediately */
+  maxQueueSize?: number;
+  /** Reject a request that has waited longer than this (no limit when unset) */
+  maxWaitMs?: number;
+}
+
+/**
+ * Per-bucket snapshot
+ */
+export interface BucketStats {
+  /** Requests waiting on this bucket */
+  queued: number;
+  /** Tokens currently available */
+  availableTokens: number;
+}
+
+/**
+ * Snapshot of limiter state for monitoring
+ */
+export interface RateLimiterStats {
+  /** Requests waiting for a token or a free slot */
+  queueDepth: number;
+  /** Requests currently in flight */
+  active: number;
+  /** Concurrency cap */
+  maxConcurrent: number;
+  /** Age of the oldest queued request in milliseconds */
+  oldestWaitMs: number;
+  /** Mean queue wait over recent dispatches */
+  averageWaitMs: number;
+  /** Longest queue wait over recent dispatches */
+  maxObservedWaitMs: number;
+  /** Requests dispatched since creation */
+  dispatched: number;
+  /** Requests rejected by back-pressure or maxWaitMs */
+  rejected: number;
+  /** Per-bucket detail keyed by rule path ("*" for the default bucket) */
+  buckets: Record<string, BucketStats>;
+}
+
+/**
+ * Request waiting in the queue
+ */
+interface QueuedRequest {
+  endpoint: string;
+  bucketKey: string;
+  enqueuedAt: number;
+  start: () => void;
+  reject: (error: RateLimitError) => void;
+  timeout?: ReturnType<typeof setTimeout>;
+}
+
+// ============================================================================
+// TOKEN BUCKET
+// ============================================================================
+
+/**
+ * Classic token bucket refilled continuously from elapsed time
+ */
+class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(private readonly rule: RateLimitRule) {
+    this.tokens = rule.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  available(): number {
+    this.refill();
+    return this.tokens;
+  }
+
+  tryTake(): boolean {
+    this.refill();
+    if (this.tokens < 1) {
+      return false;
+    }
+    this.tokens -= 1;
+    return true;
+  }
+
+  /** Milliseconds until one whole token is available */
+  msUntilToken(): number {
+    this.refill();
+    return this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) / this.rule.refillPerSecond) * 1000);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(
+      this.rule.capacity,
+      this.tokens + elapsedSeconds * this.rule.refillPerSecond
+    );
+    this.lastRefill = now;
+  }
+}
+
+// ============================================================================
+// RATE LIMITER
+// ============================================================================
+
+/**
+ * Schedules requests through per-endpoint token buckets and a global concurrency cap
+ */
+export class RateLimiter {
+  private readonly rules: [string, RateLimitRule][];
+  private readonly buckets = new Map<string, TokenBucket>();
+  private readonly queue: QueuedRequest[] = [];
+  private readonly recentWaits: number[] = [];
+  private readonly defaultRule: RateLimitRule;
+  private readonly maxConcurrent: number;
+  private readonly maxQueueSize: number;
+  private readonly maxWaitMs: number | undefined;
+  private drainTimer: ReturnType<typeof setTimeout> | null = null;
+  private active = 0;
+  private dispatched = 0;
+  private rejected = 0;
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.defaultRule = options.defaultRule ?? DEFAULT_RATE_LIMIT_RULE;
+    this.maxConcurrent = Math.max(1, options.maxConcurrent ?? DEFAULT_MAX_CONCURRENT);
+    this.maxQueueSize = Math.max(0, options.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE);
+    this.maxWaitMs = options.maxWaitMs;
+    // Longest path first so the most specific rule wins
+    this.rules = Object.entries(options.endpointRules ?? {}).sort(
+      ([a], [b]) => b.length - a.length
+    );
+  }
+
+  /**
+   * Run a task once its endpoint has a token and a concurrency slot is free
+   *
+   * @param endpoint - Request path used to pick the rule
+   * @param task - Work to run (typically the HTTP call)
+   * @returns The task result
+   * @throws {RateLimitError} Queue is full or the request waited longer than maxWaitMs
+   */
+  schedule<T>(endpoint: string, task: () => Promise<T>): Promise<T> {
+    if (this.queue.length >= this.maxQueueSize && !this.canStartImmediately(endpoint)) {
+      this.rejected++;
+      return Promise.reject(
+        new RateLimitError(`Cola de solicitudes llena (${this.queue.length}) para ${endpoint}`, {
+          endpoint,
+          queueDepth: this.queue.length,
+          retryAfterMs: this.bucketFor(endpoint).bucket.msUntilToken() || undefined,
+        })
+      );
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const request: QueuedRequest = {
+        endpoint,
+        bucketKey: this.bucketFor(endpoint).key,
+        enqueuedAt: Date.now(),
+        reject,
+        start: () => {
+          this.active++;
+          this.recordWait(Date.now() - request.enqueuedAt);
+          Promise.resolve()
+            .then(task)
+            .then(resolve, reject)
+            .finally(() => {
+              this.active--;
+              this.drain();
+            });
+        },
+      };
+
+      if (this.maxWaitMs !== undefined) {
+        const maxWaitMs = this.maxWaitMs;
+        request.timeout = setTimeout(() => this.expire(request, maxWaitMs), maxWaitMs);
+      }
+
+      this.queue.push(request);
+      this.drain();
+    });
+  }
+
+  /**
+   * Current queue depth, concurrency and wait-time figures
+   */
+  getStats(): RateLimiterStats {
+    const now = Date.now();
+    const buckets: Record<string, BucketStats> = {};
+    for (const [key, bucket] of this.buckets) {
+      buckets[key] = { queued: 0, availableTokens: bucket.available() };
+    }
+    for (const request of this.queue) {
+      const stats = buckets[request.bucketKey];
+      if (stats) {
+        stats.queued++;
+      }
+    }
+
+    const oldest = this.queue[0];
+    const totalWait = this.recentWaits.reduce((sum, wait) => sum + wait, 0);
+    return {
+      queueDepth: this.queue.length,
+      active: this.active,
+      maxConcurrent: this.maxConcurrent,
+      oldestWaitMs: oldest ? now - oldest.enqueuedAt : 0,
+      averageWaitMs: this.recentWaits.length ? totalWait / this.recentWaits.length : 0,
+      maxObservedWaitMs: this.recentWaits.length ? Math.max(...this.recentWaits) : 0,
+      dispatched: this.dispatched,
+      rejected: this.rejected,
+      buckets,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // INTERNALS
+  // --------------------------------------------------------------------------
+
+  /**
+   * Start every queued request that can run now, then arm a timer for the next token
+   * Requests for an exhausted bucket do not block requests for other endpoints
+   */
+  private drain(): void {
+    if (this.drainTimer) {
+      clearTimeout(this.drainTimer);
+      this.drainTimer = null;
+    }
+
+    let nextTokenMs = Infinity;
+    for (let index = 0; index < this.queue.length && this.active < this.maxConcurrent; ) {
+      const request = this.queue[index];
+      if (!request) {
+        break;
+      }
+      const bucket = this.bucketFor(request.endpoint).bucket;
+      if (bucket.tryTake()) {
+        this.queue.splice(index, 1);
+        if (request.timeout) {
+          clearTimeout(request.timeout);
+        }
+        this.dispatched++;
+        request.start();
+      } else {
+        nextTokenMs = Math.min(nextTokenMs, bucket.msUntilToken());
+        index++;
+      }
+    }
+
+    if (this.queue.length > 0 && this.active < this.maxConcurrent && nextTokenMs < Infinity) {
+      this.drainTimer = setTimeout(() => {
+        this.drainTimer = null;
+        this.drain();
+      }, nextTokenMs);
+    }
+  }
+
+  /**
+   * Reject a request that exceeded maxWaitMs
+   */
+  private expire(request: QueuedRequest, maxWaitMs: number): void {
+    const index = this.queue.indexOf(request);
+    if (index === -1) {
+      return;
+    }
+    this.queue.splice(index, 1);
+    this.rejected++;
+    request.reject(
+      new RateLimitError(
+        `Solicitud a ${request.endpoint} superó el tiempo máximo de espera (${maxWaitMs} ms)`,
+        { endpoint: request.endpoint, queueDepth: this.queue.length, waitedMs: maxWaitMs }
+      )
+    );
+    this.drain();
+  }
+
+  /**
+   * Whether a new request could start right away (used to bypass a full queue)
+   */
+  private canStartImmediately(endpoint: string): boolean {
+    return this.active < this.maxConcurrent && this.bucketFor(endpoint).bucket.available() >= 1;
+  }
+
+  /**
+   * Rule bucket for an endpoint: longest matching path prefix, else the shared default
+   */
+  private bucketFor(endpoint: string): { key: string; bucket: TokenBucket } {
+    const match = this.rules.find(
+      ([path]) => endpoint === path || endpoint.startsWith(path.endsWith('/') ? path : `${path}/`)
+    );
+    const [key, rule] = match ?? [DEFAULT_BUCKET, this.defaultRule];
+
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = new TokenBucket(rule);
+      this.buckets.set(key, bucket);
+    }
+    return { key, bucket };
+  }
+
+  private recordWait(waitMs: number): void {
+    this.recentWaits.push(waitMs);
+    if (this.recentWaits.length > WAIT_SAMPLE_SIZE) {
+      this.recentWaits.shift();
+    }
+  }
+}
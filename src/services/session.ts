@@ -0,0 +1,262 @@
+/**
+ * PURPOSE: Session lifecycle management for authenticated Ekuatia requests
+ *
+ * REASONING:
+ * - Session tokens expire (SESSION_EXPIRY) and must be renewed transparently
+ * - Refreshing shortly before expiry avoids a wasted round-trip ending in 401
+ * - A single 401 replay recovers from server-side session eviction
+ * - Re-login failures must end the flow instead of looping on the login endpoint
+ *
+ * AGENT DECISION PROCESS:
+ * - Requirements analyzed from the "Agent Implementation Note" in the Authentication Flow
+ * - Considered: background refresh timer vs lazy refresh on access
+ * - Selected lazy refresh so idle processes never log in on their own
+ * - Implementation constraints: Concurrent callers must share one in-flight login
+ */
+
+import { isAxiosError } from 'axios';
+import type { AuthenticationAgent } from '../agents/auth';
+import type { LoginCredentials, LoginResponse } from '../types/ekuatia';
+import type { SessionInfo, SessionToken } from '../types/common';
+import { AuthenticationError, EkuatiaBaseError } from '../types/errors';
+import { isCredentialSource, staticCredentialSource, type CredentialSource } from './credentials';
+import { detectProfileChanges, type CacheEventBus } from './events';
+import { getLogger, type Logger } from './logger';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Default session lifetime when SESSION_EXPIRY is not set (1 hour) */
+const DEFAULT_SESSION_EXPIRY_MS = 3600000;
+
+/** Default window before expiry in which the session is proactively renewed */
+const DEFAULT_REFRESH_MARGIN_MS = 60000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Options for constructing a SessionManager
+ */
+export interface SessionManagerOptions {
+  /** Session lifetime in milliseconds (defaults to SESSION_EXPIRY) */
+  sessionExpiryMs?: number;
+  /** Renew the session when fewer than this many milliseconds remain */
+  refreshMarginMs?: number;
+  /** Logger (defaults to the shared logger) */
+  logger?: Logger;
+  /** Bus notified when a re-login returns a changed profile */
+  events?: CacheEventBus;
+}
+
+/**
+ * Request executed with a valid session token
+ */
+export type AuthenticatedRequest<T> = (token: SessionToken) => Promise<T>;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Check whether an error means the server rejected the session token
+ */
+export const isUnauthorizedError = (error: unknown): boolean => {
+  if (error instanceof EkuatiaBaseError) {
+    return error.code === 'SESSION_EXPIRED';
+  }
+  return isAxiosError(error) && error.response?.status === 401;
+};
+
+// ============================================================================
+// SESSION MANAGER
+// ============================================================================
+
+/**
+ * Holds the current session token and renews it on demand
+ */
+export class SessionManager {
+  private readonly sessionExpiryMs: number;
+  private readonly refreshMarginMs: number;
+  private session: SessionInfo | null = null;
+  private loginResponse: LoginResponse | null = null;
+  private pendingLogin: Promise<SessionInfo> | null = null;
+  private readonly credentialSource: CredentialSource;
+  private ruc: string | undefined;
+  private readonly logger: Logger;
+  private readonly events: CacheEventBus | undefined;
+
+  /**
+   * @param authAgent - Agent performing the login
+   * @param credentials - Fixed credentials, or a source (e.g. CredentialVault) read on every login
+   * @param options - Session lifetime settings
+   */
+  constructor(
+    private readonly authAgent: Pick<AuthenticationAgent, 'login'>,
+    credentials: LoginCredentials | CredentialSource,
+    options: SessionManagerOptions = {}
+  ) {
+    this.logger = options.logger ?? getLogger().child('session');
+    this.events = options.events;
+    if (isCredentialSource(credentials)) {
+      this.credentialSource = credentials;
+    } else {
+      this.credentialSource = staticCredentialSource(credentials);
+      this.ruc = credentials.username;
+    }
+    this.sessionExpiryMs =
+      options.sessionExpiryMs ?? (Number(process.env.SESSION_EXPIRY) || DEFAULT_SESSION_EXPIRY_MS);
+    this.refreshMarginMs = Math.min(
+      options.refreshMarginMs ?? DEFAULT_REFRESH_MARGIN_MS,
+      this.sessionExpiryMs / 2
+    );
+  }
+
+  /**
+   * Current session, or null when logged out
+   */
+  getSession(): SessionInfo | null {
+    return this.session;
+  }
+
+  /**
+   * Last successful login response (profile and establishment data)
+   */
+  getLoginResponse(): LoginResponse | null {
+    return this.loginResponse;
+  }
+
+  /**
+   * Whether the session is missing or past its expiry
+   */
+  isExpired(): boolean {
+    return this.session === null || Date.now() >= this.session.expiresAt;
+  }
+
+  /**
+   * Whether the session should be renewed before its next use
+   */
+  needsRefresh(): boolean {
+    return this.session === null || Date.now() >= this.session.expiresAt - this.refreshMarginMs;
+  }
+
+  /**
+   * Get a valid session token, logging in or renewing when needed
+   */
+  async getToken(): Promise<SessionToken> {
+    if (this.session && !this.needsRefresh()) {
+      return this.session.token;
+    }
+    const session = await this.refresh();
+    return session.token;
+  }
+
+  /**
+   * Force a new login, sharing the request with concurrent callers
+   */
+  async refresh(): Promise<SessionInfo> {
+    this.pendingLogin ??= this.login().finally(() => {
+      this.pendingLogin = null;
+    });
+    return this.pendingLogin;
+  }
+
+  /**
+   * Drop the current session so the next request logs in again
+   */
+  invalidate(): void {
+    this.session = null;
+  }
+
+  /**
+   * Run a request with a valid token, re-authenticating and replaying once on 401
+   *
+   * @param request - Function performing the authenticated call
+   * @returns The request result
+   * @throws {AuthenticationError} Re-login failed or the replay was rejected again
+   */
+  async execute<T>(request: AuthenticatedRequest<T>): Promise<T> {
+    const token = await this.getToken();
+    try {
+      return await request(token);
+    } catch (error: unknown) {
+      if (!isUnauthorizedError(error)) {
+        throw error;
+      }
+    }
+
+    this.logger.warn('Session rejected with 401, re-authenticating once', { ruc: this.ruc });
+    this.invalidate();
+    const renewed = await this.reauthenticate();
+    try {
+      return await request(renewed.token);
+    } catch (error: unknown) {
+      if (isUnauthorizedError(error)) {
+        throw new AuthenticationError(
+          'La sesión fue rechazada nuevamente tras re-autenticar',
+          'SESSION_EXPIRED',
+          { ruc: this.ruc, attemptCount: 2 }
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Log in again after a 401, converting any failure into an AuthenticationError
+   */
+  private async reauthenticate(): Promise<SessionInfo> {
+    try {
+      return await this.refresh();
+    } catch (error: unknown) {
+      if (error instanceof AuthenticationError) {
+        throw error;
+      }
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new AuthenticationError(`No se pudo renovar la sesión: ${reason}`, 'SYSTEM_ERROR', {
+        ruc: this.ruc,
+        lastAttempt: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Perform the login and record the new session window
+   */
+  private async login(): Promise<SessionInfo> {
+    const credentials = await this.credentialSource.getCredentials();
+    this.ruc = credentials.username;
+    const response = await this.authAgent.login(credentials);
+    const issuedAt = Date.now();
+    const previous = this.loginResponse;
+    this.loginResponse = response;
+    this.session = {
+      token: response.session_token,
+      issuedAt,
+      expiresAt: issuedAt + this.sessionExpiryMs,
+    };
+    this.logger.info('Session established', {
+      ruc: this.ruc,
+      expiresAt: new Date(this.session.expiresAt).toISOString(),
+    });
+    if (previous && this.events) {
+      await this.publishProfileChanges(credentials.username, previous, response);
+    }
+    return this.session;
+  }
+
+  /**
+   * Announce profile fields that changed between two logins
+   */
+  private async publishProfileChanges(
+    ruc: string,
+    previous: LoginResponse,
+    current: LoginResponse
+  ): Promise<void> {
+    for (const change of detectProfileChanges(ruc, previous, current)) {
+      await this.events?.publish({ ...change, source: 'session' });
+    }
+  }
+}
@@ -183,6 +183,7 @@ describe('Ekuatia API Types', () => {
             precio_unitario: 500000,
             monto_iva: 0,
             monto_total: 500000,
+            tasa_iva: 'EXENTO',
           },
         ],
         resumen: {
@@ -194,7 +195,7 @@ describe('Ekuatia API Types', () => {
       };
 
       expect(invoiceData.items).toHaveLength(1);
-      expect(invoiceData.resumen.total_general).toBe(500000);
+      expect(invoiceData.resumen?.total_general).toBe(500000);
     });
   });
 
@@ -207,6 +208,7 @@ describe('Ekuatia API Types', () => {
         precio_unitario: 100000,
         monto_iva: 10000,
         monto_total: 210000, // 2 * 100000 + 10000
+        tasa_iva: 'IVA_5',
       };
 
       expect(item.cantidad).toBe(2);
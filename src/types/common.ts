@@ -59,7 +59,9 @@ export type HttpStatusCode =
   | '400'
   | '401'
   | '403'
-  | '404' // Client errors
+  | '404'
+  | '408'
+  | '429' // Client errors
   | '500'
   | '502'
   | '503'; // Server errors
@@ -162,6 +164,11 @@ export interface RetryConfig {
   backoffMultiplier: number;
   /** Maximum delay between attempts */
   maxDelayMs: number;
+  /**
+   * Longest server Retry-After honoured; a longer one ends the retries at once
+   * (unset: always wait as long as the server asks)
+   */
+  maxRetryAfterMs?: number;
   /** Whether to retry on specific status codes */
   retryableStatusCodes?: number[];
 }
@@ -208,20 +215,34 @@ export interface TimeInfo {
 // ============================================================================
 
 /**
- * RUC format validation (without verification digit)
+ * RUC base number without verification digit (1-8 digits, e.g. "5452")
+ * Branded: obtain values through parseRucWithoutDV in utils/ruc
  */
-export type RucWithoutDV = string; // Should be 7 digits: /^[0-9]{7}$/
+export type RucWithoutDV = string & { readonly __brand: 'RucWithoutDV' };
 
 /**
- * RUC format with verification digit
+ * RUC with a verified modulo-11 check digit (e.g. "5452-6")
+ * Branded: obtain values through parseRucWithDV in utils/ruc
  */
-export type RucWithDV = string; // Should be 8-9 chars: /^[0-9]{7}-[0-9]$/
+export type RucWithDV = string & { readonly __brand: 'RucWithDV' };
 
 /**
  * Session token format
  */
 export type SessionToken = string; // Should be UUID or similar format
 
+/**
+ * Active session with expiry tracking
+ */
+export interface SessionInfo {
+  /** Token sent on authenticated requests */
+  token: SessionToken;
+  /** Unix timestamp in milliseconds when the session was issued */
+  issuedAt: number;
+  /** Unix timestamp in milliseconds when the session expires */
+  expiresAt: number;
+}
+
 /**
  * Document identifier (CDC - Código de Control)
  */
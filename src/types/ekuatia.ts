@@ -7,15 +7,20 @@
  * - Provides clear contracts for API request/response structures
  * - Supports both BASICA and AVANZADA modalities
  * - Includes validation for Spanish-specific field names
+ * - Each type is inferred from a zod schema so server payloads can be checked at runtime
  *
  * AGENT DECISION PROCESS:
  * - Requirements analyzed from assets/ekuatia-agent-guide.md (1519 lines)
  * - Business rules extracted from Ekuatia system documentation
  * - Considered: separate files vs single consolidated file
  * - Selected consolidated file for better discoverability in early development
+ * - Considered: hand-written interfaces plus parallel schemas vs schema-first types
+ * - Selected schema-first so the compile-time and runtime contracts cannot drift
  * - Trade-offs: Larger file but easier type management initially
  */
 
+import { z } from 'zod';
+
 // ============================================================================
 // ENUMS - Fixed values from Ekuatia system requirements
 // ============================================================================
@@ -24,29 +29,34 @@
  * Document types supported by Ekuatia system
  * Based on business rules from assets/ekuatia-agent-guide.md
  */
-export type DocumentType = 'FACTURA ELECTRONICA' | 'NOTA_CREDITO' | 'NOTA_DEBITO';
+export const documentTypeSchema = z.enum(['FACTURA ELECTRONICA', 'NOTA_CREDITO', 'NOTA_DEBITO']);
+export type DocumentType = z.infer<typeof documentTypeSchema>;
 
 /**
  * Taxpayer classification types from RUC system
  * FISICO = Individual person, JURIDICO = Legal entity
  */
-export type TaxpayerType = 'FISICO' | 'JURIDICO';
+export const taxpayerTypeSchema = z.enum(['FISICO', 'JURIDICO']);
+export type TaxpayerType = z.infer<typeof taxpayerTypeSchema>;
 
 /**
  * Configuration modalities available in Ekuatia
  * BASICA = Simple invoicing, AVANZADA = Advanced features (DNCP, etc.)
  */
-export type ModalityType = 'BASICA' | 'AVANZADA';
+export const modalityTypeSchema = z.enum(['BASICA', 'AVANZADA']);
+export type ModalityType = z.infer<typeof modalityTypeSchema>;
 
 /**
  * Emission mode - only SOLUCIÓN GRATUITA supported for direct taxpayer access
  */
-export type EmissionMode = 'SOLUCIÓN GRATUITA';
+export const emissionModeSchema = z.literal('SOLUCIÓN GRATUITA');
+export type EmissionMode = z.infer<typeof emissionModeSchema>;
 
 /**
  * RUC status values from Marangatu system
  */
-export type RucStatus = 'Activo' | 'Inactivo' | 'Suspendido';
+export const rucStatusSchema = z.enum(['Activo', 'Inactivo', 'Suspendido']);
+export type RucStatus = z.infer<typeof rucStatusSchema>;
 
 // ============================================================================
 // AUTHENTICATION TYPES
@@ -55,64 +65,68 @@ export type RucStatus = 'Activo' | 'Inactivo' | 'Suspendido';
 /**
  * Login credentials for Ekuatia system authentication
  */
-export interface LoginCredentials {
-  /** RUC without verification digit (format: 1234567, NOT 1234567-1) */
-  username: string;
+export const loginCredentialsSchema = z.object({
+  /** RUC without verification digit (format: 1234567, NOT 1234567-9; see parseRucWithoutDV) */
+  username: z.string(),
   /** Confidential access key from Marangatu tax management system */
-  password: string;
+  password: z.string(),
   /** Emission mode - always SOLUCIÓN GRATUITA for direct access */
-  emission_mode: EmissionMode;
-}
+  emission_mode: emissionModeSchema,
+});
+export type LoginCredentials = z.infer<typeof loginCredentialsSchema>;
 
 /**
  * Profile data retrieved from Marangatu after successful login
  */
-export interface ProfileData {
-  /** Complete RUC with verification digit */
-  ruc_with_dv: string;
+export const profileDataSchema = z.object({
+  /** Complete RUC with verification digit (checked with parseRucWithDV) */
+  ruc_with_dv: z.string(),
   /** Registered business name from RUC */
-  business_name: string;
+  business_name: z.string(),
   /** Current RUC status in tax system */
-  ruc_status: RucStatus;
+  ruc_status: rucStatusSchema,
   /** Timbrado number from DNIT for document generation */
-  numero_timbrado: string;
+  numero_timbrado: z.string(),
   /** Primary economic activity from RUC registration */
-  actividad_economica: string;
+  actividad_economica: z.string(),
   /** Date when electronic invoicer was approved */
-  fecha_aprobacion: string;
+  fecha_aprobacion: z.string(),
   /** Taxpayer type classification */
-  tipo_contribuyente: TaxpayerType;
+  tipo_contribuyente: taxpayerTypeSchema,
   /** Security code for electronic document signing */
-  csc: string;
-}
+  csc: z.string(),
+});
+export type ProfileData = z.infer<typeof profileDataSchema>;
 
 /**
  * Establishment data from taxpayer registration
  */
-export interface EstablishmentData {
+export const establishmentDataSchema = z.object({
   /** Department where establishment is located */
-  department: string;
+  department: z.string(),
   /** District for legal address */
-  district: string;
+  district: z.string(),
   /** City for legal address */
-  city: string;
+  city: z.string(),
   /** Full street address */
-  address: string;
-}
+  address: z.string(),
+});
+export type EstablishmentData = z.infer<typeof establishmentDataSchema>;
 
 /**
  * Successful login response from Ekuatia API
  */
-export interface LoginResponse {
+export const loginResponseSchema = z.object({
   /** Login operation success status */
-  success: true;
+  success: z.literal(true),
   /** Session token for subsequent API calls */
-  session_token: string;
+  session_token: z.string().min(1),
   /** Taxpayer profile information */
-  profile: ProfileData;
+  profile: profileDataSchema,
   /** Establishment address data */
-  establishment_data: EstablishmentData;
-}
+  establishment_data: establishmentDataSchema,
+});
+export type LoginResponse = z.infer<typeof loginResponseSchema>;
 
 // ============================================================================
 // CONFIGURATION TYPES
@@ -122,113 +136,305 @@ export interface LoginResponse {
  * Issuer data for Ekuatia configuration
  * Critical for document generation and compliance
  */
-export interface IssuerData {
+export const issuerDataSchema = z.object({
   /** Timbrado number from DNIT */
-  numero_timbrado: string;
+  numero_timbrado: z.string(),
   /** Establishment number - always 1 for single-establishment constraint */
-  establecimiento: number;
+  establecimiento: z.number().int(),
   /** Primary document type for issuance */
-  tipo_documento: DocumentType;
+  tipo_documento: documentTypeSchema,
   /** Economic activity description */
-  actividad_economica: string;
+  actividad_economica: z.string(),
   /** Configuration validity start date */
-  fecha_inicio_vigencia: string;
+  fecha_inicio_vigencia: z.string(),
   /** Dispatch point - always 1 for single-point constraint */
-  punto_expedicion: number;
+  punto_expedicion: z.number().int(),
   /** Taxpayer classification */
-  tipo_contribuyente: TaxpayerType;
+  tipo_contribuyente: taxpayerTypeSchema,
   /** CSC code for electronic signatures */
-  codigo_seguridad_contribuyente: string;
-}
+  codigo_seguridad_contribuyente: z.string(),
+});
+export type IssuerData = z.infer<typeof issuerDataSchema>;
 
 /**
  * Advanced groups configuration for AVANZADA modality
  */
-export interface GruposUtilizables {
+export const gruposUtilizablesSchema = z.object({
   /** Enable for DNCP (public procurement) contracts */
-  informaciones_compras_publicas?: boolean;
+  informaciones_compras_publicas: z.boolean().optional(),
   /** Supermarket sector (NOT available in current implementation) */
-  sector_supermercados?: boolean;
-}
+  sector_supermercados: z.boolean().optional(),
+});
+export type GruposUtilizables = z.infer<typeof gruposUtilizablesSchema>;
 
 /**
  * Complete Ekuatia system configuration
  * One-time setup per RUC with 90-day cache TTL
  */
-export interface EkuatiaConfig {
+export const ekuatiaConfigSchema = z.object({
   /** Configuration modality type */
-  modality: ModalityType;
+  modality: modalityTypeSchema,
   /** Optional company logo for invoices */
-  logo?: string | null;
+  logo: z.string().nullish(),
   /** Advanced groups (only for AVANZADA modality) */
-  grupos_utilizables?: GruposUtilizables;
+  grupos_utilizables: gruposUtilizablesSchema.optional(),
   /** Core issuer configuration data */
-  issuer_data: IssuerData;
+  issuer_data: issuerDataSchema,
   /** Optional business name override */
-  razon_social?: string;
+  razon_social: z.string().optional(),
   /** Optional address override */
-  direccion?: string;
-}
+  direccion: z.string().optional(),
+});
+export type EkuatiaConfig = z.infer<typeof ekuatiaConfigSchema>;
 
 // ============================================================================
 // INVOICE TYPES
 // ============================================================================
 
+/**
+ * IVA category of an item: 10%, 5% or exempt
+ */
+export const ivaCategorySchema = z.enum(['IVA_10', 'IVA_5', 'EXENTO']);
+export type IvaCategory = z.infer<typeof ivaCategorySchema>;
+
 /**
  * Individual line item in electronic invoice
  */
-export interface InvoiceItem {
+export const invoiceItemSchema = z.object({
   /** Product or service code */
-  codigo_producto: string;
+  codigo_producto: z.string(),
   /** Detailed description of item */
-  descripcion: string;
+  descripcion: z.string(),
   /** Quantity of items */
-  cantidad: number;
-  /** Unit price before tax */
-  precio_unitario: number;
-  /** IVA tax amount */
-  monto_iva: number;
-  /** Total amount including tax */
-  monto_total: number;
-}
+  cantidad: z.number().finite(),
+  /** Unit price, IVA included */
+  precio_unitario: z.number().finite(),
+  /** IVA contained in monto_total */
+  monto_iva: z.number().finite(),
+  /** Line total (cantidad x precio_unitario), IVA included */
+  monto_total: z.number().finite(),
+  /** IVA category the item amounts are calculated from */
+  tasa_iva: ivaCategorySchema,
+});
+export type InvoiceItem = z.infer<typeof invoiceItemSchema>;
+
+/**
+ * Invoice item as entered by the caller; amounts left out are calculated, amounts given are checked
+ */
+export const invoiceItemInputSchema = invoiceItemSchema.partial({
+  monto_iva: true,
+  monto_total: true,
+});
+export type InvoiceItemInput = z.infer<typeof invoiceItemInputSchema>;
 
 /**
  * Invoice financial summary
  */
-export interface InvoiceSummary {
+export const invoiceSummarySchema = z.object({
   /** Subtotal before taxes */
-  subtotal: number;
+  subtotal: z.number().finite(),
   /** Total IVA amount */
-  total_iva: number;
+  total_iva: z.number().finite(),
   /** Grand total including all taxes */
-  total_general: number;
-}
+  total_general: z.number().finite(),
+});
+export type InvoiceSummary = z.infer<typeof invoiceSummarySchema>;
+
+/**
+ * DNCP public-procurement references (required when informaciones_compras_publicas is enabled)
+ */
+export const dncpDataSchema = z.object({
+  /** DNCP call identifier ("ID de llamado"), digits only */
+  dncp_reference: z.string().regex(/^\d{1,10}$/, 'Debe ser el ID de llamado DNCP (solo dígitos)'),
+  /** Contract number as printed on the contract, e.g. "CD-12/2024" */
+  contract_number: z
+    .string()
+    .regex(/^[A-Z0-9][A-Z0-9/-]{0,29}$/, 'Use mayúsculas, dígitos, "/" o "-" (máx. 30)'),
+  /** Procurement code: modality-entity-year-sequence, e.g. "LP-12001-24-0000123" */
+  procurement_id: z
+    .string()
+    .regex(/^[A-Z0-9]{2}-\d{5}-\d{2}-\d{7}$/, 'Formato esperado: MM-EEEEE-AA-SSSSSSS'),
+});
+export type DncpData = z.infer<typeof dncpDataSchema>;
 
 /**
  * Complete invoice data for creation request
  */
-export interface InvoiceData {
+export const invoiceDataSchema = z.object({
   /** Invoice issuance date */
-  fecha: string;
-  /** Recipient RUC without DV */
-  receptor_ruc: string;
+  fecha: z.string(),
+  /** Recipient RUC, with or without DV (checked with parseReceptorRuc) */
+  receptor_ruc: z.string(),
   /** Recipient business name */
-  receptor_nombre: string;
+  receptor_nombre: z.string(),
   /** Optional recipient address */
-  receptor_direccion?: string;
+  receptor_direccion: z.string().optional(),
   /** Document type (defaults from config) */
-  tipo_documento?: DocumentType;
+  tipo_documento: documentTypeSchema.optional(),
   /** Establishment number (always 1) */
-  establecimiento?: number;
+  establecimiento: z.number().int().optional(),
   /** Dispatch point (always 1) */
-  punto_expedicion?: number;
+  punto_expedicion: z.number().int().optional(),
   /** Invoice line items */
-  items: InvoiceItem[];
-  /** Financial summary */
-  resumen: InvoiceSummary;
+  items: z.array(invoiceItemInputSchema),
+  /** Financial summary (derived from the items when omitted) */
+  resumen: invoiceSummarySchema.optional(),
   /** Optional observations/notes */
-  observaciones?: string;
-}
+  observaciones: z.string().optional(),
+  /** Public-procurement references (only with informaciones_compras_publicas) */
+  dncp: dncpDataSchema.optional(),
+});
+export type InvoiceData = z.infer<typeof invoiceDataSchema>;
+
+/**
+ * Invoice creation payload sent to POST /documento/crear
+ * Mirrors the structure documented in the guide's Data Structures section
+ */
+export const invoiceCreationPayloadSchema = z.object({
+  /** Document metadata merged from the issuer configuration */
+  metadatos: z.object({
+    ruc_emisor: z.string(),
+    numero_timbrado: z.string(),
+    punto_expedicion: z.number().int(),
+    establecimiento: z.number().int(),
+    fecha_emision: z.string(),
+    tipo_documento: documentTypeSchema,
+  }),
+  /** Issuer data */
+  datos_emisor: z.object({
+    razon_social: z.string().optional(),
+    actividad_economica: z.string(),
+    direccion: z.string().optional(),
+  }),
+  /** Recipient data */
+  datos_receptor: z.object({
+    /** Recipient RUC base number, without DV */
+    ruc_receptor: z.string(),
+    razon_social_receptor: z.string(),
+    direccion_receptor: z.string(),
+  }),
+  /** Line items and totals */
+  detalles_factura: z.object({
+    items: z.array(invoiceItemSchema),
+    resumen: invoiceSummarySchema,
+  }),
+  /** Free-text observations */
+  observaciones: z.string(),
+  /** Public-procurement references, present only for DNCP invoices */
+  datos_dncp: dncpDataSchema.optional(),
+});
+export type InvoiceCreationPayload = z.infer<typeof invoiceCreationPayloadSchema>;
+
+// ============================================================================
+// ENDPOINT RESPONSE TYPES
+// ============================================================================
+
+/**
+ * GET /perfil response
+ */
+export const profileResponseSchema = z.object({
+  /** Taxpayer profile information */
+  profile: profileDataSchema,
+  /** Primary establishment address data */
+  establishment_data: establishmentDataSchema,
+  /** Every establishment declared in the RUC, when reported */
+  establishments: z.array(establishmentDataSchema).optional(),
+});
+export type ProfileResponse = z.infer<typeof profileResponseSchema>;
+
+/**
+ * GET /herramientas response
+ */
+export const toolsResponseSchema = z.object({
+  /** Tools available under "Mis Herramientas" */
+  available_tools: z.array(z.string()),
+});
+export type ToolsResponse = z.infer<typeof toolsResponseSchema>;
+
+/**
+ * GET /configuracion/formulario response
+ */
+export const configurationFormResponseSchema = z.object({
+  /** Modalities offered to this taxpayer */
+  available_modalities: z.array(modalityTypeSchema),
+  /** Whether the one-time configuration is still pending */
+  configuration_required: z.boolean(),
+  /** Previously saved configuration, if any */
+  current_configuration: ekuatiaConfigSchema.nullish(),
+  /** Identifier of the previously saved configuration, if any */
+  configuration_id: z.string().nullish(),
+});
+export type ConfigurationFormResponse = z.infer<typeof configurationFormResponseSchema>;
+
+/**
+ * POST /configuracion/guardar response
+ */
+export const configurationSaveResponseSchema = z.object({
+  /** Identifier of the saved configuration */
+  configuration_id: z.string(),
+  /** Save status reported by the system */
+  success_status: z.string(),
+});
+export type ConfigurationSaveResponse = z.infer<typeof configurationSaveResponseSchema>;
+
+/**
+ * GET /documento/tipos response
+ */
+export const documentTypesResponseSchema = z.object({
+  /** Document types approved for this taxpayer */
+  available_document_types: z.array(documentTypeSchema),
+});
+export type DocumentTypesResponse = z.infer<typeof documentTypesResponseSchema>;
+
+/**
+ * POST /documento/crear response
+ */
+export const documentCreationResponseSchema = z.object({
+  /** Document identifier assigned by Ekuatia */
+  documento_id: z.string(),
+  /** Código de Control */
+  cdc: z.string(),
+  /** Issuance date as registered */
+  fecha_emision: z.string().optional(),
+});
+export type DocumentCreationResponse = z.infer<typeof documentCreationResponseSchema>;
+
+/**
+ * GET /documento/{id} response
+ */
+export const documentResponseSchema = z.object({
+  /** Document identifier */
+  documento_id: z.string(),
+  /** Código de Control */
+  cdc: z.string(),
+  /** Processing status reported by the system */
+  estado: z.string(),
+  /** Issuance date */
+  fecha_emision: z.string(),
+  /** Full document as registered */
+  documento: invoiceCreationPayloadSchema,
+});
+export type DocumentResponse = z.infer<typeof documentResponseSchema>;
+
+/**
+ * POST /documento/{id}/firmar request body
+ */
+export const documentSignatureRequestSchema = z.object({
+  /** Electronic signature produced with the CCFE */
+  electronic_signature: z.string(),
+});
+export type DocumentSignatureRequest = z.infer<typeof documentSignatureRequestSchema>;
+
+/**
+ * POST /documento/{id}/firmar response
+ */
+export const documentSignatureResponseSchema = z.object({
+  /** Signed document content */
+  signed_document: z.string(),
+  /** Signature timestamp */
+  timestamp: z.string(),
+});
+export type DocumentSignatureResponse = z.infer<typeof documentSignatureResponseSchema>;
 
 // ============================================================================
 // ERROR TYPES
@@ -237,48 +443,81 @@ export interface InvoiceData {
 /**
  * Standardized error response from Ekuatia API
  */
-export interface EkuatiaError {
+export const ekuatiaErrorSchema = z.object({
   /** Machine-readable error code */
-  code: string;
+  code: z.string(),
   /** Human-readable error message (Spanish) */
-  message: string;
+  message: z.string(),
   /** Optional error details */
-  details?: {
-    field?: string;
-    expected_format?: string;
-    allowed_values?: string[];
-  };
+  details: z
+    .object({
+      field: z.string().optional(),
+      expected_format: z.string().optional(),
+      allowed_values: z.array(z.string()).optional(),
+    })
+    .optional(),
   /** Error timestamp */
-  timestamp: string;
-}
+  timestamp: z.string(),
+});
+export type EkuatiaError = z.infer<typeof ekuatiaErrorSchema>;
 
 /**
  * Authentication error codes from Ekuatia system
  */
-export type AuthenticationErrorCode =
-  | 'INVALID_CREDENTIALS'
-  | 'APPROVAL_NOT_FOUND'
-  | 'RUC_INACTIVE'
-  | 'SYSTEM_ERROR';
+export const authenticationErrorCodeSchema = z.enum([
+  'INVALID_CREDENTIALS',
+  'APPROVAL_NOT_FOUND',
+  'RUC_INACTIVE',
+  'SESSION_EXPIRED',
+  'SYSTEM_ERROR',
+]);
+export type AuthenticationErrorCode = z.infer<typeof authenticationErrorCodeSchema>;
 
 /**
  * Configuration error codes
  */
-export type ConfigurationErrorCode =
-  | 'MULTIPLE_ESTABLISHMENTS'
-  | 'CERTIFICATE_MISSING'
-  | 'CSC_INVALID'
-  | 'SYSTEM_ERROR';
+export const configurationErrorCodeSchema = z.enum([
+  'MULTIPLE_ESTABLISHMENTS',
+  'CERTIFICATE_MISSING',
+  'CSC_INVALID',
+  'INVALID_SETTINGS',
+  'CREDENTIALS_UNAVAILABLE',
+  'MODALITY_UNAVAILABLE',
+  'GROUP_UNAVAILABLE',
+  'GROUPS_REQUIRE_AVANZADA',
+  'CONFIGURATION_DRIFT',
+  'PROPOSAL_NOT_APPROVED',
+  'PROPOSAL_STALE',
+  'INVALID_LOGO',
+  'CONFIGURATION_MISMATCH',
+  'SYSTEM_ERROR',
+]);
+export type ConfigurationErrorCode = z.infer<typeof configurationErrorCodeSchema>;
 
 /**
  * Invoice creation error codes
  */
-export type InvoiceErrorCode =
-  | 'INVALID_DATOS_RECEPTOR'
-  | 'MONTO_NEGATIVO'
-  | 'DOCUMENTO_DUPLICADO'
-  | 'TIMBRADO_EXPIRED'
-  | 'SYSTEM_ERROR';
+export const invoiceErrorCodeSchema = z.enum([
+  'INVALID_DATOS_RECEPTOR',
+  'INVALID_RUC',
+  'MONTO_NEGATIVO',
+  'MONTO_INCONSISTENTE',
+  'DOCUMENTO_DUPLICADO',
+  'TIMBRADO_EXPIRED',
+  'FECHA_INVALIDA',
+  'DNCP_DATA_REQUIRED',
+  'DNCP_DATA_NOT_ALLOWED',
+  'INVALID_DNCP_DATA',
+  'ISSUER_DATA_CONFLICT',
+  'ISSUER_NOT_ENABLED',
+  'CSC_MISMATCH',
+  'ITEMS_INCOMPLETOS',
+  'DOCUMENT_TYPE_NOT_ALLOWED',
+  'CONFIRMATION_REJECTED',
+  'SUBMISSION_UNCERTAIN',
+  'SYSTEM_ERROR',
+]);
+export type InvoiceErrorCode = z.infer<typeof invoiceErrorCodeSchema>;
 
 // ============================================================================
 // API RESPONSE TYPES
@@ -296,17 +535,28 @@ export interface ApiResponse<T> {
   timestamp: string;
 }
 
+/**
+ * Schema factory for ApiResponse<T> around a payload schema
+ */
+export const apiResponseSchema = <T extends z.ZodTypeAny>(data: T) =>
+  z.object({
+    success: z.literal(true),
+    data,
+    timestamp: z.string(),
+  });
+
 /**
  * Generic error API response wrapper
  */
-export interface ApiErrorResponse {
+export const apiErrorResponseSchema = z.object({
   /** Error status */
-  success: false;
+  success: z.literal(false),
   /** Error details */
-  error: EkuatiaError;
+  error: ekuatiaErrorSchema,
   /** Response timestamp */
-  timestamp: string;
-}
+  timestamp: z.string(),
+});
+export type ApiErrorResponse = z.infer<typeof apiErrorResponseSchema>;
 
 // ============================================================================
 // CACHE TYPES
@@ -326,12 +576,25 @@ export interface CacheEntry<T> {
   invalidation_triggers: string[];
 }
 
+/**
+ * Schema factory for CacheEntry<T> around a data schema
+ */
+export const cacheEntrySchema = <T extends z.ZodTypeAny>(data: T) =>
+  z.object({
+    data,
+    stored_timestamp: z.string(),
+    cache_duration: z.string(),
+    invalidation_triggers: z.array(z.string()),
+  });
+
 /**
  * Cache invalidation trigger types
  */
-export type CacheInvalidationTrigger =
-  | 'ruc_status_change'
-  | 'establishment_update'
-  | 'csc_update'
-  | 'timbrado_expiration'
-  | 'configuration_notification';
+export const cacheInvalidationTriggerSchema = z.enum([
+  'ruc_status_change',
+  'establishment_update',
+  'csc_update',
+  'timbrado_expiration',
+  'configuration_notification',
+]);
+export type CacheInvalidationTrigger = z.infer<typeof cacheInvalidationTriggerSchema>;
@@ -16,7 +16,12 @@
  * - Trade-offs: More code but better error handling and user experience
  */
 
-import type { AuthenticationErrorCode, ConfigurationErrorCode, InvoiceErrorCode } from './ekuatia';
+import type {
+  AuthenticationErrorCode,
+  ConfigurationErrorCode,
+  EkuatiaError,
+  InvoiceErrorCode,
+} from './ekuatia';
 import type { HttpStatusCode } from './common';
 
 // ============================================================================
@@ -152,6 +157,8 @@ export class AuthenticationError extends EkuatiaBaseError {
         return 'Complete el proceso de habilitación como facturador electrónico en Marangatu.';
       case 'RUC_INACTIVE':
         return 'Regularice su situación fiscal en Marangatu antes de continuar.';
+      case 'SESSION_EXPIRED':
+        return 'Inicie sesión nuevamente para obtener un token de sesión válido.';
       default:
         return 'Contacte soporte técnico para asistencia.';
     }
@@ -191,6 +198,26 @@ export class ConfigurationError extends EkuatiaBaseError {
         return 'Obtenga el Certificado Cualificado de Firma Electrónica (CCFE) según Resolución DNIT N° 757/2024.';
       case 'CSC_INVALID':
         return 'Contacte la DNIT para actualizar su Código de Seguridad del Contribuyente.';
+      case 'INVALID_SETTINGS':
+        return 'Corrija las variables de entorno indicadas (ver .env.example) y reinicie.';
+      case 'CREDENTIALS_UNAVAILABLE':
+        return 'Verifique la frase de acceso del almacén de credenciales o vuelva a guardar las credenciales.';
+      case 'CONFIGURATION_DRIFT':
+        return 'Los datos del emisor cambiaron en Marangatu. Actualice la configuración antes de facturar.';
+      case 'PROPOSAL_NOT_APPROVED':
+        return 'Muestre la propuesta de cambio y confirme con el token de aprobación indicado.';
+      case 'PROPOSAL_STALE':
+        return 'La configuración cambió desde que se generó la propuesta. Genere una nueva propuesta.';
+      case 'INVALID_LOGO':
+        return 'Use un logo PNG o JPEG dentro de los límites de tamaño y dimensiones indicados.';
+      case 'CONFIGURATION_MISMATCH':
+        return 'La configuración guardada usa otra modalidad o grupos. Proponga el cambio con ConfigurationProposalFlow o omita esos campos.';
+      case 'MODALITY_UNAVAILABLE':
+        return 'Seleccione una modalidad ofrecida por el formulario de configuración (BÁSICA o AVANZADA).';
+      case 'GROUP_UNAVAILABLE':
+        return 'Desactive los grupos no habilitados (sector supermercados) y reintente.';
+      case 'GROUPS_REQUIRE_AVANZADA':
+        return 'Seleccione la modalidad AVANZADA o quite los grupos utilizables de la solicitud.';
       default:
         return 'Verifique la configuración e intente nuevamente.';
     }
@@ -247,12 +274,38 @@ export class InvoiceCreationError extends EkuatiaBaseError {
     switch (code) {
       case 'INVALID_DATOS_RECEPTOR':
         return 'Verifique los datos del receptor (RUC y razón social).';
+      case 'INVALID_RUC':
+        return 'Corrija el RUC del receptor: hasta 8 dígitos y, si se indica, el dígito verificador correcto.';
       case 'MONTO_NEGATIVO':
         return 'Todos los montos deben ser positivos. Verifique los cálculos.';
+      case 'MONTO_INCONSISTENTE':
+        return 'Recalcule los montos con precios IVA incluido (IVA 10%: total/11, IVA 5%: total/21, exento: 0).';
       case 'DOCUMENTO_DUPLICADO':
         return 'Este documento ya fue registrado. Use NOTA_CREDITO para correcciones.';
       case 'TIMBRADO_EXPIRED':
         return 'El timbrado ha expirado. Solicite un nuevo timbrado en DNIT.';
+      case 'FECHA_INVALIDA':
+        return 'Use una fecha de emisión válida en formato DD/MM/AAAA.';
+      case 'DNCP_DATA_REQUIRED':
+        return 'Complete la referencia DNCP, el número de contrato y el código de contratación.';
+      case 'DNCP_DATA_NOT_ALLOWED':
+        return 'Quite los datos DNCP o habilite informaciones de compras públicas (modalidad AVANZADA).';
+      case 'INVALID_DNCP_DATA':
+        return 'Corrija el formato de los datos DNCP según el contrato publicado en la DNCP.';
+      case 'ISSUER_DATA_CONFLICT':
+        return 'Omita establecimiento y punto de expedición o use los valores de la configuración guardada.';
+      case 'ISSUER_NOT_ENABLED':
+        return 'El RUC emisor debe estar Activo y con la solicitud de Facturador Electrónico aprobada.';
+      case 'CSC_MISMATCH':
+        return 'Actualice la configuración con el Código de Seguridad vigente en Marangatu.';
+      case 'ITEMS_INCOMPLETOS':
+        return 'Cada ítem debe tener código y descripción, y cantidad y precio unitario mayores que cero.';
+      case 'DOCUMENT_TYPE_NOT_ALLOWED':
+        return 'Use un tipo de documento aprobado para el RUC emisor.';
+      case 'CONFIRMATION_REJECTED':
+        return 'Revise la factura y apruebe exactamente el documento que se va a emitir.';
+      case 'SUBMISSION_UNCERTAIN':
+        return 'Verifique en Ekuatia si el documento fue registrado y concilie el envío antes de reintentar.';
       default:
         return 'Corrija los datos del documento e intente nuevamente.';
     }
@@ -274,7 +327,11 @@ export class SystemError extends EkuatiaBaseError {
       statusCode?: string;
       responseTime?: number;
       retryCount?: number;
-    }
+      attempts?: number;
+      retryAfterMs?: number;
+      validationErrors?: Record<string, string[]>;
+    },
+    cause?: Error
   ) {
     const recovery =
       'Intente nuevamente en unos minutos. Si el problema persiste, contacte soporte.';
@@ -282,6 +339,30 @@ export class SystemError extends EkuatiaBaseError {
       statusCode: '500',
       context,
       recovery,
+      cause,
+    });
+  }
+}
+
+/**
+ * A reply that does not match the expected envelope or schema
+ * Not retryable: the request may have been processed, so repeating a POST could duplicate it
+ */
+export class InvalidResponseError extends EkuatiaBaseError {
+  constructor(
+    message: string,
+    context?: {
+      endpoint?: string;
+      statusCode?: string;
+      validationErrors?: Record<string, string[]>;
+    }
+  ) {
+    const recovery =
+      'Verifique en Ekuatia el resultado de la operación antes de repetirla y contacte soporte.';
+    super(message, 'INVALID_RESPONSE', {
+      statusCode: '502',
+      context,
+      recovery,
     });
   }
 }
@@ -300,13 +381,35 @@ export class TimeoutError extends EkuatiaBaseError {
   ) {
     const recovery = 'Verifique su conexión a internet e intente nuevamente.';
     super(message, 'TIMEOUT', {
-      statusCode: '408' as HttpStatusCode,
+      statusCode: '408',
       context: { ...(context ?? {}), timeoutMs },
       recovery,
     });
   }
 }
 
+/**
+ * Client-side throttling: the local rate limiter refused or timed out a request
+ */
+export class RateLimitError extends EkuatiaBaseError {
+  constructor(
+    message: string,
+    context?: {
+      endpoint?: string;
+      queueDepth?: number;
+      waitedMs?: number;
+      retryAfterMs?: number;
+    }
+  ) {
+    const recovery = 'Reduzca la cantidad de solicitudes simultáneas o espere antes de reintentar.';
+    super(message, 'RATE_LIMITED', {
+      statusCode: '429',
+      context,
+      recovery,
+    });
+  }
+}
+
 // ============================================================================
 // ERROR FACTORY FUNCTIONS - Helper functions for error creation
 // ============================================================================
@@ -365,6 +468,75 @@ export const createSystemError = (
   });
 };
 
+/**
+ * Server error codes (including the guide's legacy status names)
+ * mapped onto the AuthenticationErrorCode union
+ */
+const AUTHENTICATION_ERROR_CODES: Record<string, AuthenticationErrorCode> = {
+  INVALID_CREDENTIALS: 'INVALID_CREDENTIALS',
+  APPROVAL_NOT_FOUND: 'APPROVAL_NOT_FOUND',
+  NOT_APPROVED: 'APPROVAL_NOT_FOUND',
+  RUC_INACTIVE: 'RUC_INACTIVE',
+  ACTIVE_SESSION_REQUIRED: 'RUC_INACTIVE',
+  SESSION_EXPIRED: 'SESSION_EXPIRED',
+};
+
+/**
+ * Configuration error codes reported by the API
+ */
+const CONFIGURATION_ERROR_CODES: readonly string[] = [
+  'MULTIPLE_ESTABLISHMENTS',
+  'CERTIFICATE_MISSING',
+  'CSC_INVALID',
+];
+
+/**
+ * Invoice error codes reported by the API
+ */
+const INVOICE_ERROR_CODES: readonly string[] = [
+  'INVALID_DATOS_RECEPTOR',
+  'MONTO_NEGATIVO',
+  'DOCUMENTO_DUPLICADO',
+  'TIMBRADO_EXPIRED',
+];
+
+/**
+ * Convert an API error payload into an AuthenticationError
+ * Unknown codes become SYSTEM_ERROR so callers only ever see the union
+ */
+export const toAuthenticationError = (error: EkuatiaError, ruc?: string): AuthenticationError => {
+  return createAuthenticationError(
+    { message: error.message, code: AUTHENTICATION_ERROR_CODES[error.code] ?? 'SYSTEM_ERROR' },
+    { ruc, lastAttempt: new Date().toISOString() }
+  );
+};
+
+/**
+ * Classify an API error payload into the matching error class by its code
+ */
+export const createErrorFromApiResponse = (
+  error: EkuatiaError,
+  context?: { endpoint?: string; statusCode?: string; ruc?: string; retryAfterMs?: number }
+): EkuatiaBaseError => {
+  if (error.code in AUTHENTICATION_ERROR_CODES) {
+    return toAuthenticationError(error, context?.ruc);
+  }
+  if (CONFIGURATION_ERROR_CODES.includes(error.code)) {
+    return new ConfigurationError(error.message, error.code as ConfigurationErrorCode, {
+      ruc: context?.ruc,
+      configStep: context?.endpoint,
+    });
+  }
+  if (INVOICE_ERROR_CODES.includes(error.code)) {
+    return new InvoiceCreationError(error.message, error.code as InvoiceErrorCode);
+  }
+  return new SystemError(error.message, {
+    endpoint: context?.endpoint,
+    statusCode: context?.statusCode,
+    retryAfterMs: context?.retryAfterMs,
+  });
+};
+
 // ============================================================================
 // ERROR TYPE GUARDS - Type-safe error checking
 // ============================================================================
@@ -0,0 +1,36 @@
+/**
+ * PURPOSE: Test suite for DD/MM/YYYY calendar-date helpers
+ *
+ * REASONING:
+ * - Impossible days must be rejected rather than rolled over
+ * - "Today" is the Asunción calendar day, even when UTC has moved on
+ */
+
+import { describe, test, expect } from 'vitest';
+import { addDays, daysBetween, formatDisplayDate, parseDisplayDate, toCalendarDay } from '../date';
+
+describe('parseDisplayDate', () => {
+  test('should parse valid days to UTC midnight', () => {
+    expect(parseDisplayDate('20/03/2024')?.toISOString()).toBe('2024-03-20T00:00:00.000Z');
+  });
+
+  test('should reject malformed and impossible days', () => {
+    expect(parseDisplayDate('2024-03-20')).toBeNull();
+    expect(parseDisplayDate('31/02/2024')).toBeNull();
+    expect(parseDisplayDate('1/3/2024')).toBeNull();
+  });
+});
+
+describe('day arithmetic', () => {
+  test('should add and count whole days across month ends', () => {
+    const start = parseDisplayDate('28/02/2024') as Date;
+
+    expect(formatDisplayDate(addDays(start, 2))).toBe('01/03/2024');
+    expect(daysBetween(start, addDays(start, 366))).toBe(366);
+  });
+
+  test('should use the Asunción calendar day', () => {
+    // 02:00 UTC on 21/03 is still 20/03 in Paraguay (UTC-3)
+    expect(formatDisplayDate(toCalendarDay(new Date('2024-03-21T02:00:00Z')))).toBe('20/03/2024');
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * PURPOSE: Test suite for DNCP public-procurement data rules
+ *
+ * REASONING:
+ * - The block is required or forbidden purely by the configuration's enabled groups
+ * - Format failures must name the offending dncp.* field for the caller
+ */
+
+import { describe, test, expect } from 'vitest';
+import { isDncpEnabled, resolveDncpData } from '../dncp';
+import type { DncpData } from '../../types/ekuatia';
+import { InvoiceCreationError } from '../../types/errors';
+import { createMockEkuatiaConfig, createMockInvoiceData } from '../test-helpers';
+
+const DNCP: DncpData = {
+  dncp_reference: '412345',
+  contract_number: 'CD-12/2024',
+  procurement_id: 'LP-12001-24-0000123',
+};
+
+const advanced = createMockEkuatiaConfig('AVANZADA');
+const basic = createMockEkuatiaConfig('BASICA');
+
+const captureError = (run: () => unknown): unknown => {
+  try {
+    run();
+  } catch (caught: unknown) {
+    return caught;
+  }
+  return null;
+};
+
+describe('isDncpEnabled', () => {
+  test('should require AVANZADA with informaciones_compras_publicas', () => {
+    expect(isDncpEnabled(advanced)).toBe(true);
+    expect(isDncpEnabled(basic)).toBe(false);
+    expect(
+      isDncpEnabled({ modality: 'AVANZADA', grupos_utilizables: { sector_supermercados: false } })
+    ).toBe(false);
+  });
+});
+
+describe('resolveDncpData', () => {
+  test('should return normalised data when the group is enabled', () => {
+    const invoice = createMockInvoiceData({
+      dncp: { ...DNCP, contract_number: ' cd-12/2024 ', procurement_id: 'lp-12001-24-0000123' },
+    });
+
+    expect(resolveDncpData(invoice, advanced)).toEqual(DNCP);
+  });
+
+  test('should return undefined for plain invoices without the group', () => {
+    expect(resolveDncpData(createMockInvoiceData(), basic)).toBeUndefined();
+  });
+
+  test('should require the block when the group is enabled', () => {
+    const error = captureError(() => resolveDncpData(createMockInvoiceData(), advanced));
+
+    expect(error).toBeInstanceOf(InvoiceCreationError);
+    expect(error).toMatchObject({ code: 'DNCP_DATA_REQUIRED' });
+  });
+
+  test('should reject the block when the group is not enabled', () => {
+    expect(() => resolveDncpData(createMockInvoiceData({ dncp: DNCP }), basic)).toThrow(
+      expect.objectContaining({ code: 'DNCP_DATA_NOT_ALLOWED' })
+    );
+  });
+
+  test('should report malformed references by field', () => {
+    const invoice = createMockInvoiceData({
+      dncp: { ...DNCP, dncp_reference: 'ID-41', procurement_id: '12001-24' },
+    });
+
+    const error = captureError(() => resolveDncpData(invoice, advanced));
+
+    expect(error).toMatchObject({
+      code: 'INVALID_DNCP_DATA',
+      context: {
+        validationErrors: {
+          'dncp.dncp_reference': [expect.any(String)],
+          'dncp.procurement_id': [expect.any(String)],
+        },
+      },
+    });
+  });
+});
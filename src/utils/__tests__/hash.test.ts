@@ -0,0 +1,33 @@
+/**
+ * PURPOSE: Test suite for canonical JSON hashing
+ *
+ * REASONING:
+ * - Key order must not change the hash, while any value change must
+ */
+
+import { describe, test, expect } from 'vitest';
+import { canonicalJson, hashCanonical, sha256Hex } from '../hash';
+
+describe('canonicalJson', () => {
+  test('should sort keys at every level and drop undefined properties', () => {
+    expect(canonicalJson({ b: 1, a: { d: [2, undefined], c: undefined } })).toBe(
+      '{"a":{"d":[2,null]},"b":1}'
+    );
+  });
+
+  test('should match JSON.stringify for scalars', () => {
+    expect(canonicalJson('ñandutí')).toBe('"ñandutí"');
+    expect(canonicalJson(Number.NaN)).toBe('null');
+    expect(canonicalJson(null)).toBe('null');
+  });
+});
+
+describe('hashCanonical', () => {
+  test('should ignore key order but not values', () => {
+    const hash = hashCanonical({ ruc: '5452', monto: 100000 });
+
+    expect(hashCanonical({ monto: 100000, ruc: '5452' })).toBe(hash);
+    expect(hashCanonical({ ruc: '5452', monto: 100001 })).not.toBe(hash);
+    expect(hash).toBe(sha256Hex('{"monto":100000,"ruc":"5452"}'));
+  });
+});
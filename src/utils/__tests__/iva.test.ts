@@ -0,0 +1,151 @@
+/**
+ * PURPOSE: Test suite for the IVA engine
+ *
+ * REASONING:
+ * - IVA is extracted from IVA-included prices and rounded to whole guaraníes per item
+ * - A resumen that disagrees with the items must never reach DNIT
+ */
+
+import { describe, test, expect } from 'vitest';
+import {
+  calculateInvoiceItem,
+  calculateInvoiceTaxes,
+  ivaIncluded,
+  resolveInvoiceTotals,
+} from '../iva';
+import { createMockInvoiceData, createMockInvoiceItem } from '../test-helpers';
+
+describe('ivaIncluded', () => {
+  test('should extract 10% and 5% IVA from IVA-included totals', () => {
+    expect(ivaIncluded(110000, 'IVA_10')).toBe(10000);
+    expect(ivaIncluded(210000, 'IVA_5')).toBe(10000);
+    expect(ivaIncluded(110000, 'EXENTO')).toBe(0);
+  });
+
+  test('should round to whole guaraníes', () => {
+    expect(ivaIncluded(15000, 'IVA_10')).toBe(1364);
+    expect(ivaIncluded(15000, 'IVA_5')).toBe(714);
+  });
+});
+
+describe('calculateInvoiceTaxes', () => {
+  test('should calculate items, the per-rate breakdown and the summary', () => {
+    const taxes = calculateInvoiceTaxes([
+      {
+        codigo_producto: 'A',
+        descripcion: 'Servicio',
+        cantidad: 2,
+        precio_unitario: 55000,
+        tasa_iva: 'IVA_10',
+      },
+      {
+        codigo_producto: 'B',
+        descripcion: 'Canasta',
+        cantidad: 1,
+        precio_unitario: 21000,
+        tasa_iva: 'IVA_5',
+      },
+      {
+        codigo_producto: 'C',
+        descripcion: 'Libro',
+        cantidad: 3,
+        precio_unitario: 10000,
+        tasa_iva: 'EXENTO',
+      },
+    ]);
+
+    expect(taxes.items.map((item) => [item.monto_total, item.monto_iva])).toEqual([
+      [110000, 10000],
+      [21000, 1000],
+      [30000, 0],
+    ]);
+    expect(taxes.breakdown).toEqual({
+      IVA_10: { gravado: 100000, iva: 10000, total: 110000 },
+      IVA_5: { gravado: 20000, iva: 1000, total: 21000 },
+      EXENTO: { gravado: 30000, iva: 0, total: 30000 },
+    });
+    expect(taxes.resumen).toEqual({ subtotal: 150000, total_iva: 11000, total_general: 161000 });
+  });
+});
+
+describe('resolveInvoiceTotals', () => {
+  const item = calculateInvoiceItem({
+    codigo_producto: 'A',
+    descripcion: 'Servicio',
+    cantidad: 2,
+    precio_unitario: 55000,
+    tasa_iva: 'IVA_10',
+  });
+
+  test('should derive the summary when it is omitted', () => {
+    const totals = resolveInvoiceTotals(
+      createMockInvoiceData({ items: [item], resumen: undefined })
+    );
+
+    expect(totals.resumen).toEqual({ subtotal: 100000, total_iva: 10000, total_general: 110000 });
+  });
+
+  test('should calculate items entered without amounts', () => {
+    const totals = resolveInvoiceTotals({
+      items: [
+        {
+          codigo_producto: 'A',
+          descripcion: 'Servicio',
+          cantidad: 2,
+          precio_unitario: 55000,
+          tasa_iva: 'IVA_10',
+        },
+        { ...item, codigo_producto: 'B', monto_iva: undefined },
+      ],
+      resumen: { subtotal: 200000, total_iva: 20000, total_general: 220000 },
+    });
+
+    expect(totals.items.map((entry) => entry.monto_iva)).toEqual([10000, 10000]);
+    expect(totals.resumen.total_general).toBe(220000);
+  });
+
+  test('should accept a matching summary', () => {
+    expect(() => resolveInvoiceTotals(createMockInvoiceData())).not.toThrow();
+  });
+
+  test('should reject a summary that does not match the items', () => {
+    const invoice = createMockInvoiceData({
+      items: [item],
+      resumen: { subtotal: 110000, total_iva: 10000, total_general: 120000 },
+    });
+
+    expect(() => resolveInvoiceTotals(invoice)).toThrow(
+      expect.objectContaining({
+        code: 'MONTO_INCONSISTENTE',
+        context: expect.objectContaining({
+          validationErrors: {
+            'resumen.subtotal': ['Se esperaba 100000, se recibió 110000'],
+            'resumen.total_general': ['Se esperaba 110000, se recibió 120000'],
+          },
+        }),
+      })
+    );
+  });
+
+  test('should reject item IVA that does not match its category', () => {
+    const invoice = createMockInvoiceData({
+      items: [{ ...item, monto_iva: 11000 }],
+      resumen: undefined,
+    });
+
+    expect(() => resolveInvoiceTotals(invoice)).toThrow(
+      expect.objectContaining({ code: 'MONTO_INCONSISTENTE' })
+    );
+  });
+
+  test('should reject negative prices', () => {
+    const invoice = createMockInvoiceData({
+      items: [createMockInvoiceItem({ precio_unitario: -500000, monto_total: -500000 })],
+      resumen: undefined,
+    });
+
+    expect(() => resolveInvoiceTotals(invoice)).toThrow(
+      expect.objectContaining({ code: 'MONTO_NEGATIVO' })
+    );
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * PURPOSE: Test suite for logo loading and checking
+ *
+ * REASONING:
+ * - Format detection, limits and the content hash decide whether setup re-prompts for a logo
+ * - Synthetic headers are enough since only the header bytes are parsed
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ConfigurationError } from '../../types/errors';
+import {
+  createLogoAsset,
+  describeLogo,
+  detectLogoFormat,
+  loadLogo,
+  logoFingerprint,
+  parseLogoDataUri,
+  readImageDimensions,
+} from '../logo';
+
+const png = (width: number, height: number, padding = 0): Buffer => {
+  const ihdr = Buffer.alloc(25);
+  ihdr.writeUInt32BE(13, 0);
+  ihdr.write('IHDR', 4, 'ascii');
+  ihdr.writeUInt32BE(width, 8);
+  ihdr.writeUInt32BE(height, 12);
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    ihdr,
+    Buffer.alloc(padding),
+  ]);
+};
+
+const jpeg = (width: number, height: number): Buffer => {
+  const app0 = Buffer.from([0xff, 0xe0, 0x00, 0x04, 0x00, 0x00]);
+  const sof = Buffer.alloc(11);
+  sof.writeUInt16BE(0xffc0, 0);
+  sof.writeUInt16BE(9, 2);
+  sof.writeUInt8(8, 4);
+  sof.writeUInt16BE(height, 5);
+  sof.writeUInt16BE(width, 7);
+  return Buffer.concat([Buffer.from([0xff, 0xd8]), app0, sof, Buffer.from([0xff, 0xd9])]);
+};
+
+const expectInvalidLogo = (action: () => unknown): void => {
+  try {
+    action();
+    expect.unreachable('expected INVALID_LOGO');
+  } catch (error) {
+    expect(error).toBeInstanceOf(ConfigurationError);
+    expect((error as ConfigurationError).code).toBe('INVALID_LOGO');
+  }
+};
+
+describe('header parsing', () => {
+  test('should detect PNG and JPEG from their signatures', () => {
+    expect(detectLogoFormat(png(100, 50))).toBe('png');
+    expect(detectLogoFormat(jpeg(100, 50))).toBe('jpeg');
+    expect(detectLogoFormat(Buffer.from('GIF89a'))).toBeNull();
+  });
+
+  test('should read dimensions from IHDR and the JPEG frame header', () => {
+    expect(readImageDimensions(png(200, 80), 'png')).toEqual({ width: 200, height: 80 });
+    expect(readImageDimensions(jpeg(320, 240), 'jpeg')).toEqual({ width: 320, height: 240 });
+    expect(readImageDimensions(png(200, 80).subarray(0, 20), 'png')).toBeNull();
+  });
+});
+
+describe('createLogoAsset', () => {
+  test('should build a data URI and content hash', () => {
+    const asset = createLogoAsset(png(200, 80));
+
+    expect(asset).toMatchObject({ format: 'png', mimeType: 'image/png', width: 200, height: 80 });
+    expect(asset.dataUri.startsWith('data:image/png;base64,')).toBe(true);
+    expect(asset.sha256).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  test('should reject unsupported formats and out-of-range images', () => {
+    expectInvalidLogo(() => createLogoAsset(Buffer.from('GIF89a')));
+    expectInvalidLogo(() => createLogoAsset(png(2000, 80)));
+    expectInvalidLogo(() => createLogoAsset(png(8, 8)));
+    expectInvalidLogo(() =>
+      createLogoAsset(png(200, 80, 100), {
+        maxBytes: 64,
+        maxWidth: 1024,
+        maxHeight: 1024,
+        minWidth: 16,
+        minHeight: 16,
+      })
+    );
+  });
+});
+
+describe('loadLogo', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ekuatia-logo-'));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('should load a file whose extension matches its content', async () => {
+    const file = join(dir, 'logo.JPG');
+    await writeFile(file, jpeg(300, 100));
+
+    await expect(loadLogo(file)).resolves.toMatchObject({ format: 'jpeg', width: 300 });
+  });
+
+  test('should reject a renamed file and unsupported extensions', async () => {
+    const renamed = join(dir, 'logo.png');
+    const gif = join(dir, 'logo.gif');
+    await writeFile(renamed, jpeg(300, 100));
+    await writeFile(gif, png(300, 100));
+
+    await expect(loadLogo(renamed)).rejects.toMatchObject({ code: 'INVALID_LOGO' });
+    await expect(loadLogo(gif)).rejects.toMatchObject({ code: 'INVALID_LOGO' });
+  });
+});
+
+describe('data URIs and fingerprints', () => {
+  test('should round-trip the data URI', () => {
+    const asset = createLogoAsset(jpeg(120, 60));
+
+    expect(parseLogoDataUri(asset.dataUri)).toEqual(asset);
+    expectInvalidLogo(() => parseLogoDataUri('logo.png'));
+    expectInvalidLogo(() => parseLogoDataUri(asset.dataUri.replace('image/jpeg', 'image/png')));
+  });
+
+  test('should fingerprint by image content', () => {
+    const first = createLogoAsset(png(200, 80));
+    const again = createLogoAsset(png(200, 80));
+
+    expect(logoFingerprint(again.dataUri)).toBe(first.sha256);
+    expect(logoFingerprint(createLogoAsset(png(201, 80)).dataUri)).not.toBe(first.sha256);
+    expect(logoFingerprint(null)).toBeNull();
+  });
+
+  test('should describe a logo for proposals', () => {
+    const asset = createLogoAsset(png(200, 80));
+
+    expect(describeLogo(asset.dataUri)).toBe(
+      `png 200x80, 1 KB, sha256:${asset.sha256.slice(0, 12)}`
+    );
+    expect(describeLogo(null)).toBe('sin logo');
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * PURPOSE: Test suite for the retry executor
+ *
+ * REASONING:
+ * - Fake timers let backoff delays elapse instantly and deterministically
+ * - Jitter is disabled where exact delays are asserted
+ */
+
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  withRetry,
+  computeBackoffDelay,
+  parseRetryAfter,
+  isRetryableFailure,
+  DEFAULT_RETRY_CONFIG,
+  type RetryAttemptInfo,
+} from '../retry';
+import { AuthenticationError, SystemError, TimeoutError } from '../../types/errors';
+import type { RetryConfig } from '../../types/common';
+
+const CONFIG: RetryConfig = {
+  maxAttempts: 4,
+  initialDelayMs: 100,
+  backoffMultiplier: 2,
+  maxDelayMs: 300,
+  retryableStatusCodes: [429, 503],
+};
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('Happy Path', () => {
+    test('should retry retryable errors with exponential backoff capped at maxDelayMs', async () => {
+      const retries: RetryAttemptInfo[] = [];
+      const operation = vi
+        .fn()
+        .mockRejectedValueOnce(new TimeoutError('timeout', 1000))
+        .mockRejectedValueOnce(new SystemError('unavailable', { statusCode: '503' }))
+        .mockRejectedValueOnce(new TimeoutError('timeout', 1000))
+        .mockResolvedValue('ok');
+
+      const promise = withRetry(operation, CONFIG, {
+        jitterRatio: 0,
+        onRetry: (info) => retries.push(info),
+      });
+      await vi.runAllTimersAsync();
+
+      await expect(promise).resolves.toBe('ok');
+      expect(operation).toHaveBeenCalledTimes(4);
+      expect(operation).toHaveBeenLastCalledWith(4);
+      expect(retries.map((r) => r.delayMs)).toEqual([100, 200, 300]);
+    });
+
+    test('should honour a Retry-After delay longer than maxDelayMs', async () => {
+      const onRetry = vi.fn();
+      const operation = vi
+        .fn()
+        .mockRejectedValueOnce(
+          new SystemError('throttled', { statusCode: '429', retryAfterMs: 5000 })
+        )
+        .mockResolvedValue('ok');
+
+      const promise = withRetry(operation, CONFIG, { onRetry });
+      await vi.advanceTimersByTimeAsync(4999);
+      expect(operation).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+
+      await expect(promise).resolves.toBe('ok');
+      expect(onRetry).toHaveBeenCalledWith(
+        expect.objectContaining({ attempt: 1, delayMs: 5000, fromRetryAfter: true })
+      );
+    });
+  });
+
+  describe('Error Scenarios', () => {
+    test('should throw the last error with the attempt count once attempts run out', async () => {
+      const operation = vi.fn().mockRejectedValue(new SystemError('down', { statusCode: '503' }));
+
+      const promise = withRetry(operation, CONFIG).catch((e: unknown) => e);
+      await vi.runAllTimersAsync();
+      const error = await promise;
+
+      expect(error).toBeInstanceOf(SystemError);
+      expect((error as SystemError).context?.attempts).toBe(4);
+      expect(operation).toHaveBeenCalledTimes(4);
+    });
+
+    test('should fail fast when Retry-After exceeds an opted-in maxRetryAfterMs', async () => {
+      const throttled = new SystemError('throttled', { statusCode: '429', retryAfterMs: 3600000 });
+      const operation = vi.fn().mockRejectedValue(throttled);
+
+      await expect(withRetry(operation, { ...CONFIG, maxRetryAfterMs: 60000 })).rejects.toBe(
+        throttled
+      );
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(throttled.context?.attempts).toBe(1);
+    });
+
+    test('should not retry non-retryable errors', async () => {
+      const operation = vi
+        .fn()
+        .mockRejectedValue(new AuthenticationError('bad', 'INVALID_CREDENTIALS'));
+
+      await expect(withRetry(operation, CONFIG)).rejects.toBeInstanceOf(AuthenticationError);
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    test('should not retry system errors whose status is outside retryableStatusCodes', async () => {
+      const operation = vi.fn().mockRejectedValue(new SystemError('bad', { statusCode: '400' }));
+
+      await expect(withRetry(operation, CONFIG)).rejects.toBeInstanceOf(SystemError);
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    test('should wrap unknown errors in SystemError with the attempt count', async () => {
+      const operation = vi.fn().mockRejectedValue(new Error('boom'));
+
+      const error = await withRetry(operation, CONFIG).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(SystemError);
+      expect((error as SystemError).context?.attempts).toBe(1);
+      expect((error as SystemError).cause).toBeInstanceOf(Error);
+    });
+  });
+
+  describe('Edge Cases', () => {
+    test('should keep jittered delays within the configured bounds', () => {
+      for (let i = 0; i < 50; i++) {
+        const delay = computeBackoffDelay(2, CONFIG, 0.5);
+        expect(delay).toBeGreaterThanOrEqual(100);
+        expect(delay).toBeLessThanOrEqual(300);
+      }
+    });
+
+    test('should parse Retry-After seconds and HTTP dates', () => {
+      const now = Date.parse('2026-01-27T12:00:00Z');
+      expect(parseRetryAfter('3', now)).toBe(3000);
+      expect(parseRetryAfter('Tue, 27 Jan 2026 12:00:10 GMT', now)).toBe(10000);
+      expect(parseRetryAfter('soon', now)).toBeUndefined();
+      expect(parseRetryAfter(undefined, now)).toBeUndefined();
+    });
+
+    test('should treat raw network failures as retryable', () => {
+      expect(isRetryableFailure({ isAxiosError: true }, DEFAULT_RETRY_CONFIG)).toBe(true);
+      expect(
+        isRetryableFailure({ isAxiosError: true, response: { status: 404 } }, DEFAULT_RETRY_CONFIG)
+      ).toBe(false);
+    });
+  });
+});
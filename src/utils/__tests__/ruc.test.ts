@@ -0,0 +1,84 @@
+/**
+ * PURPOSE: Test suite for RUC check-digit calculation and parsing
+ *
+ * REASONING:
+ * - Known RUC/DV pairs pin the modulo-11 routine to DNIT's results
+ * - Each parser is exercised with both notations to catch DV mix-ups
+ */
+
+import { describe, test, expect } from 'vitest';
+import {
+  calculateRucCheckDigit,
+  parseRuc,
+  parseRucWithDV,
+  parseRucWithoutDV,
+  parseReceptorRuc,
+  withCheckDigit,
+  isRucWithDV,
+} from '../ruc';
+import { InvoiceCreationError } from '../../types/errors';
+
+describe('RUC utilities', () => {
+  describe('Happy Path', () => {
+    test.each([
+      ['5452', 6],
+      ['1234567', 9],
+      ['80000519', 8],
+    ])('should compute the check digit of %s as %i', (base, dv) => {
+      expect(calculateRucCheckDigit(base)).toBe(dv);
+    });
+
+    test('should parse both notations into the same base number', () => {
+      const withoutDV = parseRuc('5452');
+      const withDV = parseRuc('5.452 – 6');
+
+      expect(withoutDV).toEqual({
+        success: true,
+        data: { ruc: '5452', checkDigit: 6, rucWithDV: '5452-6' },
+      });
+      expect(withDV).toEqual(withoutDV);
+    });
+
+    test('should build a verified RUC with DV from a base number', () => {
+      const base = parseRucWithoutDV(' 1234567 ');
+      expect(base.success).toBe(true);
+      if (base.success) {
+        expect(withCheckDigit(base.data)).toBe('1234567-9');
+      }
+    });
+  });
+
+  describe('Error Scenarios', () => {
+    test('should reject a wrong check digit', () => {
+      const result = parseRucWithDV('5452-1');
+
+      expect(result).toEqual({
+        success: false,
+        error: expect.stringContaining('se esperaba 6') as unknown,
+      });
+      expect(isRucWithDV('5452-1')).toBe(false);
+    });
+
+    test('should reject a DV where only the base number is allowed', () => {
+      expect(parseRucWithoutDV('5452-6').success).toBe(false);
+      expect(parseRucWithoutDV('ABC').success).toBe(false);
+      expect(parseRucWithoutDV('123456789').success).toBe(false);
+    });
+
+    test('should raise INVALID_RUC for a malformed receptor RUC', () => {
+      expect(() => parseReceptorRuc({ receptor_ruc: '1234567-1' })).toThrow(InvoiceCreationError);
+      expect(() => parseReceptorRuc({ receptor_ruc: '1234567-1' })).toThrow(
+        expect.objectContaining({ code: 'INVALID_RUC' })
+      );
+      expect(parseReceptorRuc({ receptor_ruc: '1234567-9' })).toBe('1234567');
+    });
+  });
+
+  describe('Edge Cases', () => {
+    test('should map remainders 0 and 1 to check digit 0', () => {
+      // "6" weighs 12 (remainder 1) and "0" weighs 0 (remainder 0)
+      expect(calculateRucCheckDigit('6')).toBe(0);
+      expect(calculateRucCheckDigit('0')).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * PURPOSE: Test suite for zod-to-ValidationResult conversion
+ *
+ * REASONING:
+ * - Uses the real Ekuatia schemas so the field paths match production payloads
+ * - Checks nested paths, root-level issues and the Result wrapper
+ */
+
+import { describe, test, expect } from 'vitest';
+import { z } from 'zod';
+import {
+  formatValidationErrors,
+  parseWithSchema,
+  toValidationResult,
+  validateWithSchema,
+} from '../validation';
+import { invoiceDataSchema, loginResponseSchema } from '../../types/ekuatia';
+import { createMockInvoiceData } from '../test-helpers';
+import { MOCK_LOGIN_RESPONSE } from '@tests/mocks/ekuatia';
+
+describe('Schema validation', () => {
+  describe('Happy Path', () => {
+    test('should return typed data for a valid payload', () => {
+      const result = parseWithSchema(loginResponseSchema, MOCK_LOGIN_RESPONSE.data);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.profile.ruc_with_dv).toBe('5452-6');
+      }
+    });
+
+    test('should report a valid invoice as valid', () => {
+      expect(validateWithSchema(invoiceDataSchema, createMockInvoiceData())).toEqual({
+        isValid: true,
+        errors: {},
+      });
+    });
+  });
+
+  describe('Error Scenarios', () => {
+    test('should group issues by dotted field path', () => {
+      const invoice = { ...createMockInvoiceData(), items: [{ descripcion: 1 }] };
+
+      const result = validateWithSchema(invoiceDataSchema, invoice);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors['items.0.descripcion']).toEqual(['Expected string, received number']);
+      expect(result.errorCodes?.['items.0.cantidad']).toEqual(['invalid_type']);
+    });
+
+    test('should summarise failures in one line', () => {
+      const result = parseWithSchema(loginResponseSchema, { success: true });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(formatValidationErrors(result.error)).toContain('session_token: Required');
+      }
+    });
+  });
+
+  describe('Edge Cases', () => {
+    test('should report root-level issues under the root key', () => {
+      const error = z.string().safeParse(42).error;
+
+      expect(error && toValidationResult(error).errors).toEqual({
+        root: ['Expected string, received number'],
+      });
+    });
+  });
+});
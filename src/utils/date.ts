@@ -0,0 +1,79 @@
+/**
+ * PURPOSE: Calendar-date helpers for the DD/MM/YYYY dates used by Ekuatia
+ *
+ * REASONING:
+ * - Invoice and timbrado dates are plain calendar days without a time or timezone
+ * - new Date("20/03/2024") is invalid, and Date.parse silently accepts 31/02
+ * - "Today" must be the calendar day in Asunción, not the server's local day
+ *
+ * AGENT DECISION PROCESS:
+ * - Requirements analyzed from the DD/MM/YYYY fields in the payload and issuer data
+ * - Considered: a date library vs a few strict helpers
+ * - Selected helpers since only parsing, formatting and day arithmetic are needed
+ * - Implementation constraints: Dates are UTC midnight so day arithmetic ignores DST
+ */
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DISPLAY_DATE_PATTERN = /^(\d{2})\/(\d{2})\/(\d{4})$/;
+
+/** Timezone in which Ekuatia calendar days are counted */
+export const EKUATIA_TIMEZONE = 'America/Asuncion';
+
+// ============================================================================
+// PARSING & FORMATTING
+// ============================================================================
+
+/**
+ * Parse a DD/MM/YYYY date to UTC midnight; null when malformed or not a real day
+ */
+export const parseDisplayDate = (value: string): Date | null => {
+  const match = DISPLAY_DATE_PATTERN.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+    ? date
+    : null;
+};
+
+/**
+ * Format a UTC-midnight date as DD/MM/YYYY
+ */
+export const formatDisplayDate = (date: Date): string =>
+  [
+    String(date.getUTCDate()).padStart(2, '0'),
+    String(date.getUTCMonth() + 1).padStart(2, '0'),
+    String(date.getUTCFullYear()),
+  ].join('/');
+
+// ============================================================================
+// ARITHMETIC
+// ============================================================================
+
+/**
+ * Calendar day in Asunción for an instant, as UTC midnight
+ */
+export const toCalendarDay = (instant: Date, timeZone: string = EKUATIA_TIMEZONE): Date => {
+  const iso = new Intl.DateTimeFormat('en-CA', { timeZone }).format(instant);
+  return new Date(`${iso}T00:00:00Z`);
+};
+
+/**
+ * Add whole days to a UTC-midnight date
+ */
+export const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+/**
+ * Whole days from one UTC-midnight date to another (negative when `to` is earlier)
+ */
+export const daysBetween = (from: Date, to: Date): number =>
+  Math.round((to.getTime() - from.getTime()) / DAY_MS);
@@ -0,0 +1,103 @@
+/**
+ * PURPOSE: DNCP public-procurement data rules for invoices issued under AVANZADA
+ *
+ * REASONING:
+ * - informaciones_compras_publicas makes dncp_reference, contract_number and procurement_id mandatory
+ * - The same block on an issuer without that group would be sent to DNIT and rejected there
+ * - Format mistakes in contract references are common when they are copied from PDFs
+ * - Checking against the active configuration keeps the rule in one place for every caller
+ *
+ * AGENT DECISION PROCESS:
+ * - Requirements analyzed from the guide's conditional_fields for informaciones_compras_publicas
+ * - Considered: a conditional zod refinement on InvoiceData vs a check against the config
+ * - Selected the config check because InvoiceData alone cannot know which groups are enabled
+ * - Implementation constraints: Values are trimmed and upper-cased before the format check
+ */
+
+import {
+  dncpDataSchema,
+  type DncpData,
+  type EkuatiaConfig,
+  type InvoiceData,
+} from '../types/ekuatia';
+import { InvoiceCreationError } from '../types/errors';
+import { formatValidationErrors, parseWithSchema } from './validation';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Whether the configuration requires DNCP data on every invoice
+ */
+export const isDncpEnabled = (
+  config: Pick<EkuatiaConfig, 'modality' | 'grupos_utilizables'>
+): boolean =>
+  config.modality === 'AVANZADA' &&
+  config.grupos_utilizables?.informaciones_compras_publicas === true;
+
+/**
+ * Trim and upper-case the DNCP references as DNCP publishes them
+ */
+export const normalizeDncpData = (dncp: DncpData): DncpData => ({
+  dncp_reference: dncp.dncp_reference.trim(),
+  contract_number: dncp.contract_number.trim().toUpperCase(),
+  procurement_id: dncp.procurement_id.trim().toUpperCase(),
+});
+
+// ============================================================================
+// DOMAIN CHECKS
+// ============================================================================
+
+/**
+ * Check the invoice's DNCP block against the active configuration
+ *
+ * @returns Normalised DNCP data, or undefined when the invoice carries none
+ * @throws {InvoiceCreationError} DNCP_DATA_REQUIRED when the group is enabled and data is missing
+ * @throws {InvoiceCreationError} DNCP_DATA_NOT_ALLOWED when data is sent without the group
+ * @throws {InvoiceCreationError} INVALID_DNCP_DATA when a reference is malformed
+ */
+export const resolveDncpData = (
+  invoice: Pick<InvoiceData, 'dncp' | 'receptor_ruc'>,
+  config: Pick<EkuatiaConfig, 'modality' | 'grupos_utilizables'>
+): DncpData | undefined => {
+  const enabled = isDncpEnabled(config);
+
+  if (!invoice.dncp) {
+    if (enabled) {
+      throw new InvoiceCreationError(
+        'La configuración exige datos de compras públicas (DNCP) en cada factura',
+        'DNCP_DATA_REQUIRED',
+        {
+          rucReceptor: invoice.receptor_ruc,
+          validationErrors: { dncp: ['Requerido por informaciones_compras_publicas'] },
+        }
+      );
+    }
+    return undefined;
+  }
+
+  if (!enabled) {
+    throw new InvoiceCreationError(
+      'Datos DNCP enviados sin el grupo informaciones_compras_publicas habilitado',
+      'DNCP_DATA_NOT_ALLOWED',
+      {
+        rucReceptor: invoice.receptor_ruc,
+        validationErrors: { dncp: ['No permitido con la configuración activa'] },
+      }
+    );
+  }
+
+  const parsed = parseWithSchema(dncpDataSchema, normalizeDncpData(invoice.dncp));
+  if (!parsed.success) {
+    const validationErrors = Object.fromEntries(
+      Object.entries(parsed.error.errors).map(([field, messages]) => [`dncp.${field}`, messages])
+    );
+    throw new InvoiceCreationError(
+      `Datos DNCP inválidos: ${formatValidationErrors(parsed.error)}`,
+      'INVALID_DNCP_DATA',
+      { rucReceptor: invoice.receptor_ruc, validationErrors }
+    );
+  }
+  return parsed.data;
+};
@@ -0,0 +1,53 @@
+/**
+ * PURPOSE: Canonical JSON serialisation and SHA-256 hashing of structured values
+ *
+ * REASONING:
+ * - JSON.stringify output depends on key insertion order, so equal objects can hash differently
+ * - Approval tokens, payload fingerprints and content hashes must be stable across processes
+ * - Sorting keys recursively gives one text form per value
+ *
+ * AGENT DECISION PROCESS:
+ * - Requirements analyzed from the proposal approval and payload-matching needs
+ * - Considered: a canonical-JSON package vs a small recursive serialiser
+ * - Selected the serialiser since the inputs are plain JSON data from zod schemas
+ * - Implementation constraints: Follows JSON.stringify for undefined, NaN and Infinity
+ */
+
+import { createHash } from 'node:crypto';
+
+// ============================================================================
+// CANONICAL JSON
+// ============================================================================
+
+/**
+ * Serialise a value as JSON with object keys sorted at every level
+ * Properties holding undefined are omitted, as JSON.stringify does
+ */
+export const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => (item === undefined ? 'null' : canonicalJson(item))).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+// ============================================================================
+// HASHING
+// ============================================================================
+
+/**
+ * SHA-256 of a string or buffer, hex encoded
+ */
+export const sha256Hex = (data: string | Buffer): string =>
+  createHash('sha256').update(data).digest('hex');
+
+/**
+ * SHA-256 of a value's canonical JSON form
+ */
+export const hashCanonical = (value: unknown): string => sha256Hex(canonicalJson(value));
@@ -0,0 +1,209 @@
+/**
+ * PURPOSE: IVA calculation for invoice items and the invoice summary
+ *
+ * REASONING:
+ * - Paraguayan prices are quoted with IVA included, so the tax is extracted from the total, not added
+ * - IVA 10% is total/11 and IVA 5% is total/21; exempt items carry no IVA
+ * - Guaraníes have no decimals, so every amount is rounded per item before it is summed
+ * - A caller-supplied resumen that disagrees with its own items would be rejected by DNIT anyway
+ * - Posted amounts are always the calculated ones, so nothing the caller typed is sent unchecked
+ *
+ * AGENT DECISION PROCESS:
+ * - Requirements analyzed from InvoiceItem and InvoiceSummary in the guide's data structures
+ * - Considered: adding IVA on top of precio_unitario vs extracting it from an IVA-included price
+ * - Selected extraction, matching how DNIT liquidates IVA on each item
+ * - Implementation constraints: Every item carries its tasa_iva; exempt items use EXENTO, and
+ *   item amounts are optional on input
+ */
+
+import type {
+  InvoiceData,
+  InvoiceItem,
+  InvoiceItemInput,
+  InvoiceSummary,
+  IvaCategory,
+} from '../types/ekuatia';
+import { InvoiceCreationError } from '../types/errors';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Item as entered by the caller, before amounts are calculated
+ */
+export type TaxableItem = Omit<InvoiceItem, 'monto_iva' | 'monto_total'>;
+
+/**
+ * Totals of one IVA category
+ */
+export interface IvaBreakdownEntry {
+  /** Taxable base (total minus IVA) */
+  gravado: number;
+  iva: number;
+  /** Total including IVA */
+  total: number;
+}
+
+/**
+ * Totals per IVA category
+ */
+export type IvaBreakdown = Record<IvaCategory, IvaBreakdownEntry>;
+
+/**
+ * Calculated items with their breakdown and summary
+ */
+export interface InvoiceTaxes {
+  items: InvoiceItem[];
+  breakdown: IvaBreakdown;
+  resumen: InvoiceSummary;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Divisor extracting the IVA from an IVA-included amount (null for exempt items)
+ */
+export const IVA_DIVISORS: Readonly<Record<IvaCategory, number | null>> = {
+  IVA_10: 11,
+  IVA_5: 21,
+  EXENTO: null,
+};
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/**
+ * IVA contained in an IVA-included amount, in whole guaraníes
+ */
+export const ivaIncluded = (total: number, category: IvaCategory): number => {
+  const divisor = IVA_DIVISORS[category];
+  return divisor === null ? 0 : Math.round(total / divisor);
+};
+
+/**
+ * Calculate monto_total and monto_iva of an item
+ */
+export const calculateInvoiceItem = (item: TaxableItem): InvoiceItem => {
+  const monto_total = Math.round(item.cantidad * item.precio_unitario);
+  return { ...item, monto_iva: ivaIncluded(monto_total, item.tasa_iva), monto_total };
+};
+
+/**
+ * Sum items into the invoice summary
+ */
+export const summarizeItems = (items: readonly InvoiceItem[]): InvoiceSummary => {
+  const total_general = items.reduce((sum, item) => sum + item.monto_total, 0);
+  const total_iva = items.reduce((sum, item) => sum + item.monto_iva, 0);
+  return { subtotal: total_general - total_iva, total_iva, total_general };
+};
+
+/**
+ * Sum items per IVA category
+ */
+export const calculateIvaBreakdown = (items: readonly InvoiceItem[]): IvaBreakdown => {
+  const breakdown: IvaBreakdown = {
+    IVA_10: { gravado: 0, iva: 0, total: 0 },
+    IVA_5: { gravado: 0, iva: 0, total: 0 },
+    EXENTO: { gravado: 0, iva: 0, total: 0 },
+  };
+  for (const item of items) {
+    const entry = breakdown[item.tasa_iva];
+    entry.gravado += item.monto_total - item.monto_iva;
+    entry.iva += item.monto_iva;
+    entry.total += item.monto_total;
+  }
+  return breakdown;
+};
+
+/**
+ * Calculate every item, the per-category breakdown and the summary
+ */
+export const calculateInvoiceTaxes = (items: readonly TaxableItem[]): InvoiceTaxes => {
+  const calculated = items.map(calculateInvoiceItem);
+  return {
+    items: calculated,
+    breakdown: calculateIvaBreakdown(calculated),
+    resumen: summarizeItems(calculated),
+  };
+};
+
+// ============================================================================
+// VERIFICATION
+// ============================================================================
+
+/**
+ * Fields whose amounts disagree with the quantities, IVA categories or item sums
+ * Only amounts the caller supplied are compared
+ *
+ * @returns Messages keyed by field path (empty when everything adds up)
+ */
+export const findAmountMismatches = (invoice: {
+  items: readonly InvoiceItemInput[];
+  resumen?: InvoiceSummary;
+}): Record<string, string[]> => {
+  const mismatched: Record<string, string[]> = {};
+  const compare = (field: string, actual: number | undefined, expected: number): void => {
+    if (actual !== undefined && actual !== expected) {
+      mismatched[field] = [`Se esperaba ${expected}, se recibió ${actual}`];
+    }
+  };
+
+  const calculated = invoice.items.map(calculateInvoiceItem);
+  invoice.items.forEach((item, index) => {
+    const expected = calculated[index] as InvoiceItem;
+    compare(`items.${index}.monto_total`, item.monto_total, expected.monto_total);
+    compare(`items.${index}.monto_iva`, item.monto_iva, expected.monto_iva);
+  });
+
+  if (invoice.resumen) {
+    const resumen = summarizeItems(calculated);
+    for (const field of ['subtotal', 'total_iva', 'total_general'] as const) {
+      compare(`resumen.${field}`, invoice.resumen[field], resumen[field]);
+    }
+  }
+  return mismatched;
+};
+
+/**
+ * Check the invoice amounts and recalculate them from quantities, prices and IVA categories
+ * Items may omit monto_iva and monto_total (TaxableItem); those present must match
+ *
+ * @param invoice - Invoice whose items (and optional resumen) are checked
+ * @returns Items, breakdown and summary from calculateInvoiceTaxes
+ * @throws {InvoiceCreationError} MONTO_NEGATIVO for negative quantities or prices
+ * @throws {InvoiceCreationError} MONTO_INCONSISTENTE when an item or the resumen does not add up
+ */
+export const resolveInvoiceTotals = (
+  invoice: Pick<InvoiceData, 'resumen' | 'receptor_ruc'> & {
+    items: readonly (TaxableItem | InvoiceItemInput)[];
+  }
+): InvoiceTaxes => {
+  const negative: Record<string, string[]> = {};
+  invoice.items.forEach((item, index) => {
+    for (const field of ['cantidad', 'precio_unitario'] as const) {
+      if (item[field] < 0) {
+        negative[`items.${index}.${field}`] = ['No puede ser negativo'];
+      }
+    }
+  });
+  if (Object.keys(negative).length > 0) {
+    throw new InvoiceCreationError('La factura contiene montos negativos', 'MONTO_NEGATIVO', {
+      rucReceptor: invoice.receptor_ruc,
+      validationErrors: negative,
+    });
+  }
+
+  const mismatched = findAmountMismatches(invoice);
+  if (Object.keys(mismatched).length > 0) {
+    throw new InvoiceCreationError(
+      `Los montos de la factura no cuadran: ${Object.keys(mismatched).join(', ')}`,
+      'MONTO_INCONSISTENTE',
+      { rucReceptor: invoice.receptor_ruc, validationErrors: mismatched }
+    );
+  }
+  return calculateInvoiceTaxes(invoice.items);
+};
@@ -0,0 +1,272 @@
+/**
+ * PURPOSE: Load, check and normalise the company logo stored in EkuatiaConfig.logo
+ *
+ * REASONING:
+ * - The guide only accepts png, jpg and jpeg, and a renamed file must not slip through
+ * - Magic bytes and header dimensions are read directly, so no image library is needed
+ * - /configuracion/guardar receives the logo inline as a base64 data URI
+ * - Identical bytes always give the identical data URI and hash, so re-running setup is a no-op
+ *
+ * AGENT DECISION PROCESS:
+ * - Requirements analyzed from the "logo" field mapping (image_file, png/jpg/jpeg)
+ * - Considered: trusting the file extension vs sniffing the PNG/JPEG signatures
+ * - Selected signature sniffing plus an extension cross-check
+ * - Implementation constraints: Only headers are parsed; pixels are never decoded or re-encoded
+ */
+
+import { readFile } from 'node:fs/promises';
+import { basename, extname } from 'node:path';
+import { ConfigurationError } from '../types/errors';
+import { sha256Hex } from './hash';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Accepted image encodings
+ */
+export type LogoFormat = 'png' | 'jpeg';
+
+/**
+ * Size and dimension limits, in bytes and pixels
+ */
+export interface LogoLimits {
+  maxBytes: number;
+  maxWidth: number;
+  maxHeight: number;
+  minWidth: number;
+  minHeight: number;
+}
+
+/**
+ * A checked logo ready for EkuatiaConfig.logo
+ */
+export interface LogoAsset {
+  format: LogoFormat;
+  mimeType: string;
+  width: number;
+  height: number;
+  /** File size in bytes */
+  size: number;
+  /** SHA-256 of the image bytes */
+  sha256: string;
+  /** Value for EkuatiaConfig.logo */
+  dataUri: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Default limits: up to 512 KB and 1024x1024 pixels
+ */
+export const DEFAULT_LOGO_LIMITS: LogoLimits = {
+  maxBytes: 512 * 1024,
+  maxWidth: 1024,
+  maxHeight: 1024,
+  minWidth: 16,
+  minHeight: 16,
+};
+
+const MIME_TYPES: Record<LogoFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+};
+
+const EXTENSIONS: Record<string, LogoFormat> = {
+  '.png': 'png',
+  '.jpg': 'jpeg',
+  '.jpeg': 'jpeg',
+};
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** JPEG start-of-frame markers carrying the image size (C4, C8 and CC are not frames) */
+const JPEG_FRAME_MARKERS = new Set([
+  0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf,
+]);
+
+const DATA_URI_PATTERN = /^data:(image\/(?:png|jpeg));base64,([A-Za-z0-9+/]+={0,2})$/;
+
+// ============================================================================
+// HEADER PARSING
+// ============================================================================
+
+/**
+ * Identify PNG or JPEG from the leading bytes
+ */
+export const detectLogoFormat = (data: Buffer): LogoFormat | null => {
+  if (data.length >= PNG_SIGNATURE.length && data.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    return 'png';
+  }
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return 'jpeg';
+  }
+  return null;
+};
+
+/**
+ * Read width and height from the PNG IHDR chunk or the first JPEG frame header
+ */
+export const readImageDimensions = (
+  data: Buffer,
+  format: LogoFormat
+): { width: number; height: number } | null => {
+  if (format === 'png') {
+    if (data.length < 24 || data.toString('ascii', 12, 16) !== 'IHDR') {
+      return null;
+    }
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+
+  let offset = 2;
+  while (offset + 4 <= data.length) {
+    if (data[offset] !== 0xff) {
+      return null;
+    }
+    const marker = data[offset + 1] ?? 0;
+    const length = data.readUInt16BE(offset + 2);
+    if (JPEG_FRAME_MARKERS.has(marker)) {
+      if (offset + 9 > data.length) {
+        return null;
+      }
+      return { height: data.readUInt16BE(offset + 5), width: data.readUInt16BE(offset + 7) };
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+// ============================================================================
+// ASSETS
+// ============================================================================
+
+const invalidLogo = (message: string, source: string): ConfigurationError =>
+  new ConfigurationError(`Logo inválido (${source}): ${message}`, 'INVALID_LOGO', {
+    configStep: '2.4',
+    invalidFields: ['logo'],
+  });
+
+/**
+ * Check image bytes against the format and limits and build the asset
+ *
+ * @param data - Image bytes
+ * @param limits - Size and dimension limits
+ * @param source - Name used in error messages
+ * @throws {ConfigurationError} INVALID_LOGO
+ */
+export const createLogoAsset = (
+  data: Buffer,
+  limits: LogoLimits = DEFAULT_LOGO_LIMITS,
+  source = 'logo'
+): LogoAsset => {
+  const format = detectLogoFormat(data);
+  if (!format) {
+    throw invalidLogo('solo se admiten imágenes PNG o JPEG', source);
+  }
+  if (data.length > limits.maxBytes) {
+    throw invalidLogo(`pesa ${data.length} bytes (máximo ${limits.maxBytes})`, source);
+  }
+
+  const dimensions = readImageDimensions(data, format);
+  if (!dimensions) {
+    throw invalidLogo('no se pudieron leer las dimensiones de la imagen', source);
+  }
+  const { width, height } = dimensions;
+  if (
+    width > limits.maxWidth ||
+    height > limits.maxHeight ||
+    width < limits.minWidth ||
+    height < limits.minHeight
+  ) {
+    throw invalidLogo(
+      `mide ${width}x${height} px (entre ${limits.minWidth}x${limits.minHeight} y ${limits.maxWidth}x${limits.maxHeight})`,
+      source
+    );
+  }
+
+  const mimeType = MIME_TYPES[format];
+  return {
+    format,
+    mimeType,
+    width,
+    height,
+    size: data.length,
+    sha256: sha256Hex(data),
+    dataUri: `data:${mimeType};base64,${data.toString('base64')}`,
+  };
+};
+
+/**
+ * Read a .png, .jpg or .jpeg file and build the asset
+ *
+ * @throws {ConfigurationError} INVALID_LOGO for other extensions, mismatched content or limits
+ */
+export const loadLogo = async (
+  filePath: string,
+  limits: LogoLimits = DEFAULT_LOGO_LIMITS
+): Promise<LogoAsset> => {
+  const name = basename(filePath);
+  const expected = EXTENSIONS[extname(filePath).toLowerCase()];
+  if (!expected) {
+    throw invalidLogo('la extensión debe ser .png, .jpg o .jpeg', name);
+  }
+
+  const asset = createLogoAsset(await readFile(filePath), limits, name);
+  if (asset.format !== expected) {
+    throw invalidLogo(`el contenido es ${asset.format} pero la extensión no coincide`, name);
+  }
+  return asset;
+};
+
+/**
+ * Rebuild the asset from an EkuatiaConfig.logo data URI
+ *
+ * @throws {ConfigurationError} INVALID_LOGO when the value is not a PNG/JPEG data URI within limits
+ */
+export const parseLogoDataUri = (
+  value: string,
+  limits: LogoLimits = DEFAULT_LOGO_LIMITS
+): LogoAsset => {
+  const match = DATA_URI_PATTERN.exec(value);
+  if (!match?.[2]) {
+    throw invalidLogo('se esperaba un data URI base64 de image/png o image/jpeg', 'config');
+  }
+  const asset = createLogoAsset(Buffer.from(match[2], 'base64'), limits, 'config');
+  if (asset.mimeType !== match[1]) {
+    throw invalidLogo(`el data URI declara ${match[1]} pero contiene ${asset.format}`, 'config');
+  }
+  return asset;
+};
+
+/**
+ * Content hash of a logo value: SHA-256 of the image bytes for data URIs, null without a logo
+ */
+export const logoFingerprint = (value: string | null | undefined): string | null => {
+  if (!value) {
+    return null;
+  }
+  const match = DATA_URI_PATTERN.exec(value);
+  return sha256Hex(match?.[2] ? Buffer.from(match[2], 'base64') : value);
+};
+
+/**
+ * Short description of a logo value for logs and proposals ("png 200x80, 4 KB, sha256:…")
+ */
+export const describeLogo = (value: string | null | undefined): string => {
+  if (!value) {
+    return 'sin logo';
+  }
+  const hash = `sha256:${(logoFingerprint(value) ?? '').slice(0, 12)}`;
+  const match = DATA_URI_PATTERN.exec(value);
+  if (!match?.[2]) {
+    return `valor no reconocido, ${hash}`;
+  }
+  const data = Buffer.from(match[2], 'base64');
+  const format = detectLogoFormat(data);
+  const dimensions = format ? readImageDimensions(data, format) : null;
+  const size = dimensions ? `${dimensions.width}x${dimensions.height}, ` : '';
+  return `${format ?? 'desconocido'} ${size}${Math.ceil(data.length / 1024)} KB, ${hash}`;
+};
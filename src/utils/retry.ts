@@ -0,0 +1,238 @@
+/**
+ * PURPOSE: Retry executor implementing RetryConfig for Ekuatia API calls
+ *
+ * REASONING:
+ * - Transient failures (timeouts, 5xx, throttling) should not abort a whole batch
+ * - Exponential backoff with jitter spreads retries from concurrent jobs apart
+ * - A server-provided Retry-After always wins over the computed backoff, even past maxDelayMs
+ * - Callers that cannot wait that long opt into failing fast with maxRetryAfterMs
+ * - Giving up rethrows the last error so callers keep the original error class
+ *
+ * AGENT DECISION PROCESS:
+ * - Requirements analyzed from the guide's "Retry Strategy" section and RetryConfig
+ * - Considered: axios-retry interceptor vs generic promise wrapper
+ * - Selected generic wrapper so non-HTTP steps (e.g. login + request) can be retried together
+ * - Implementation constraints: Retry decisions defer to EkuatiaBaseError.isRetryable()
+ */
+
+import { isAxiosError } from 'axios';
+import type { RetryConfig } from '../types/common';
+import { EkuatiaBaseError, SystemError } from '../types/errors';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Default retry policy matching MAX_RETRY_ATTEMPTS and RETRY_DELAY_MS in .env.example
+ */
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  backoffMultiplier: 2,
+  maxDelayMs: 30000,
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+};
+
+/** Default jitter ratio applied to computed backoff delays (±20%) */
+const DEFAULT_JITTER_RATIO = 0.2;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Information passed to the onRetry hook before each retry
+ */
+export interface RetryAttemptInfo {
+  /** Attempt number that just failed (1-based) */
+  attempt: number;
+  /** Configured maximum number of attempts */
+  maxAttempts: number;
+  /** Delay before the next attempt in milliseconds */
+  delayMs: number;
+  /** Whether the delay came from a Retry-After header */
+  fromRetryAfter: boolean;
+  /** Error raised by the failed attempt */
+  error: unknown;
+}
+
+/**
+ * Behavioural options for the retry executor
+ */
+export interface RetryOptions {
+  /** Called before waiting for each retry */
+  onRetry?: (info: RetryAttemptInfo) => void;
+  /** Fraction of the backoff delay randomized in both directions (0 disables jitter) */
+  jitterRatio?: number;
+  /** Custom retry predicate; defaults to isRetryableFailure */
+  shouldRetry?: (error: unknown, config: RetryConfig) => boolean;
+}
+
+/**
+ * Operation executed by the retry executor; receives the 1-based attempt number
+ */
+export type RetryableOperation<T> = (attempt: number) => Promise<T>;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export const parseRetryAfter = (value: unknown, now: number = Date.now()): number | undefined => {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+  const raw = String(value).trim();
+  if (/^\d+(\.\d+)?$/.test(raw)) {
+    return Math.round(Number(raw) * 1000);
+  }
+  const date = Date.parse(raw);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+/**
+ * HTTP status carried by an error, if any
+ */
+const getHttpStatus = (error: unknown): number | undefined => {
+  if (error instanceof EkuatiaBaseError) {
+    const status = Number(error.context?.statusCode);
+    return Number.isInteger(status) && status > 0 ? status : undefined;
+  }
+  if (isAxiosError(error)) {
+    return error.response?.status;
+  }
+  return undefined;
+};
+
+/**
+ * Server-requested retry delay carried by an error, if any
+ */
+export const getRetryAfterMs = (error: unknown): number | undefined => {
+  if (error instanceof EkuatiaBaseError) {
+    const retryAfterMs = error.context?.retryAfterMs;
+    return typeof retryAfterMs === 'number' ? retryAfterMs : undefined;
+  }
+  if (isAxiosError(error)) {
+    return parseRetryAfter(error.response?.headers['retry-after']);
+  }
+  return undefined;
+};
+
+/**
+ * Decide whether a failure is worth another attempt
+ * EkuatiaBaseError codes gate the decision; retryableStatusCodes narrows it when a status is known
+ */
+export const isRetryableFailure = (error: unknown, config: RetryConfig): boolean => {
+  const status = getHttpStatus(error);
+
+  if (error instanceof EkuatiaBaseError) {
+    if (!error.isRetryable()) {
+      return false;
+    }
+    return status === undefined || !config.retryableStatusCodes
+      ? true
+      : config.retryableStatusCodes.includes(status);
+  }
+
+  if (isAxiosError(error)) {
+    // No response means the request never completed (network failure)
+    return status === undefined || (config.retryableStatusCodes?.includes(status) ?? false);
+  }
+
+  return false;
+};
+
+/**
+ * Exponential backoff delay for a failed attempt, capped at maxDelayMs, with jitter
+ */
+export const computeBackoffDelay = (
+  attempt: number,
+  config: RetryConfig,
+  jitterRatio: number = DEFAULT_JITTER_RATIO
+): number => {
+  const exponential = config.initialDelayMs * Math.pow(config.backoffMultiplier, attempt - 1);
+  const capped = Math.min(exponential, config.maxDelayMs);
+  const jitter = capped * jitterRatio * (Math.random() * 2 - 1);
+  return Math.max(0, Math.min(Math.round(capped + jitter), config.maxDelayMs));
+};
+
+/**
+ * Record the attempt count on the final error before it is rethrown
+ */
+const finalizeError = (error: unknown, attempts: number): Error => {
+  if (error instanceof EkuatiaBaseError) {
+    if (error.context) {
+      error.context.attempts = attempts;
+    }
+    return error;
+  }
+  const cause = error instanceof Error ? error : undefined;
+  return new SystemError(
+    `Operación fallida tras ${attempts} intento(s): ${cause?.message ?? String(error)}`,
+    { attempts, retryCount: attempts - 1 },
+    cause
+  );
+};
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+// ============================================================================
+// RETRY EXECUTOR
+// ============================================================================
+
+/**
+ * Run an async operation, retrying transient failures according to RetryConfig
+ *
+ * @param operation - Operation to run; receives the attempt number
+ * @param config - Retry policy (defaults to DEFAULT_RETRY_CONFIG)
+ * @param options - Jitter, retry predicate and onRetry hook
+ * @returns The operation result
+ * @throws The last error, with the attempt count recorded in its context; also thrown at once
+ * when a Retry-After delay exceeds maxRetryAfterMs
+ */
+export const withRetry = async <T>(
+  operation: RetryableOperation<T>,
+  config: RetryConfig = DEFAULT_RETRY_CONFIG,
+  options: RetryOptions = {}
+): Promise<T> => {
+  const maxAttempts = Math.max(1, config.maxAttempts);
+  const shouldRetry = options.shouldRetry ?? isRetryableFailure;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error: unknown) {
+      const retryAfterMs = getRetryAfterMs(error);
+      const waitTooLong =
+        retryAfterMs !== undefined &&
+        config.maxRetryAfterMs !== undefined &&
+        retryAfterMs > config.maxRetryAfterMs;
+      if (attempt >= maxAttempts || waitTooLong || !shouldRetry(error, config)) {
+        throw finalizeError(error, attempt);
+      }
+
+      const delayMs = retryAfterMs ?? computeBackoffDelay(attempt, config, options.jitterRatio);
+      options.onRetry?.({
+        attempt,
+        maxAttempts,
+        delayMs,
+        fromRetryAfter: retryAfterMs !== undefined,
+        error,
+      });
+      await sleep(delayMs);
+    }
+  }
+};
+
+/**
+ * Bind a retry policy once and reuse it for many operations
+ */
+export const createRetryExecutor = (
+  config: RetryConfig = DEFAULT_RETRY_CONFIG,
+  options: RetryOptions = {}
+) => {
+  return <T>(operation: RetryableOperation<T>): Promise<T> => withRetry(operation, config, options);
+};
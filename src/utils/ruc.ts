@@ -0,0 +1,192 @@
+/**
+ * PURPOSE: RUC parsing, normalisation and DNIT modulo-11 check-digit handling
+ *
+ * REASONING:
+ * - "5452" (login username) and "5452-6" (profile RUC) are easy to swap by accident
+ * - Branded RucWithoutDV/RucWithDV values can only come out of the parsers below
+ * - Check digits are recomputed so a mistyped RUC is caught before it reaches DNIT
+ * - Parsers return Result so each caller raises its own domain error code
+ *
+ * AGENT DECISION PROCESS:
+ * - Requirements analyzed from DNIT's published "cálculo del DV" (base 11) routine
+ * - Considered: regex-only validation vs full check-digit verification
+ * - Selected full verification since the regex cannot tell 5452-1 from 5452-6
+ * - Implementation constraints: Base numbers are 1-8 digits; separators are tolerated on input
+ */
+
+import type { Result, RucWithDV, RucWithoutDV } from '../types/common';
+import type { InvoiceData } from '../types/ekuatia';
+import { InvoiceCreationError } from '../types/errors';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Highest weight used by the DNIT modulo-11 routine before cycling back to 2 */
+const CHECK_DIGIT_MAX_WEIGHT = 11;
+
+const RUC_WITHOUT_DV_PATTERN = /^\d{1,8}$/;
+const RUC_WITH_DV_PATTERN = /^(\d{1,8})-(\d)$/;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A RUC accepted in either notation, split into its parts
+ */
+export interface ParsedRuc {
+  /** Base number without check digit */
+  ruc: RucWithoutDV;
+  /** Computed check digit */
+  checkDigit: number;
+  /** Canonical "base-DV" form */
+  rucWithDV: RucWithDV;
+}
+
+// ============================================================================
+// CHECK DIGIT
+// ============================================================================
+
+/**
+ * Compute the DNIT modulo-11 check digit for a RUC base number
+ * Non-digit characters are weighted by their character code, as DNIT's routine does
+ */
+export const calculateRucCheckDigit = (base: string): number => {
+  let total = 0;
+  let weight = 2;
+
+  for (let index = base.length - 1; index >= 0; index--) {
+    const char = base.charAt(index);
+    const value = /\d/.test(char) ? Number(char) : char.charCodeAt(0);
+    total += value * weight;
+    weight = weight === CHECK_DIGIT_MAX_WEIGHT ? 2 : weight + 1;
+  }
+
+  const remainder = total % 11;
+  return remainder > 1 ? 11 - remainder : 0;
+};
+
+// ============================================================================
+// NORMALISATION & PARSING
+// ============================================================================
+
+/**
+ * Strip whitespace and thousands separators and unify dash variants
+ * "5.452 – 6" becomes "5452-6"
+ */
+export const normalizeRuc = (value: string): string =>
+  value.replace(/[\s.]/g, '').replace(/[‐‑‒–—−]/g, '-');
+
+/**
+ * Parse a RUC base number; rejects values that carry a check digit
+ */
+export const parseRucWithoutDV = (value: string): Result<RucWithoutDV, string> => {
+  const normalized = normalizeRuc(value);
+  if (RUC_WITH_DV_PATTERN.test(normalized)) {
+    return {
+      success: false,
+      error: `RUC "${value}" debe ingresarse sin dígito verificador (ej. 5452, no 5452-6)`,
+    };
+  }
+  if (!RUC_WITHOUT_DV_PATTERN.test(normalized)) {
+    return { success: false, error: `RUC "${value}" debe tener entre 1 y 8 dígitos` };
+  }
+  return { success: true, data: normalized as RucWithoutDV };
+};
+
+/**
+ * Parse a "base-DV" RUC and verify its check digit
+ */
+export const parseRucWithDV = (value: string): Result<RucWithDV, string> => {
+  const match = RUC_WITH_DV_PATTERN.exec(normalizeRuc(value));
+  if (!match?.[1] || !match[2]) {
+    return {
+      success: false,
+      error: `RUC "${value}" debe tener el formato número-dígito verificador (ej. 5452-6)`,
+    };
+  }
+
+  const expected = calculateRucCheckDigit(match[1]);
+  if (Number(match[2]) !== expected) {
+    return {
+      success: false,
+      error: `Dígito verificador inválido para RUC ${match[1]}: se esperaba ${expected}`,
+    };
+  }
+  return { success: true, data: `${match[1]}-${match[2]}` as RucWithDV };
+};
+
+/**
+ * Parse a RUC given with or without check digit; a supplied DV is verified
+ */
+export const parseRuc = (value: string): Result<ParsedRuc, string> => {
+  const normalized = normalizeRuc(value);
+  let ruc: RucWithoutDV;
+
+  if (RUC_WITH_DV_PATTERN.test(normalized)) {
+    const parsed = parseRucWithDV(normalized);
+    if (!parsed.success) {
+      return parsed;
+    }
+    ruc = stripCheckDigit(parsed.data);
+  } else {
+    const parsed = parseRucWithoutDV(normalized);
+    if (!parsed.success) {
+      return parsed;
+    }
+    ruc = parsed.data;
+  }
+
+  return {
+    success: true,
+    data: { ruc, checkDigit: calculateRucCheckDigit(ruc), rucWithDV: withCheckDigit(ruc) },
+  };
+};
+
+/**
+ * Type guard for RUC base numbers
+ */
+export const isRucWithoutDV = (value: unknown): value is RucWithoutDV =>
+  typeof value === 'string' && RUC_WITHOUT_DV_PATTERN.test(value);
+
+/**
+ * Type guard for canonical RUCs with a correct check digit
+ */
+export const isRucWithDV = (value: unknown): value is RucWithDV =>
+  typeof value === 'string' && RUC_WITH_DV_PATTERN.test(value) && parseRucWithDV(value).success;
+
+// ============================================================================
+// CONVERSIONS
+// ============================================================================
+
+/**
+ * Append the computed check digit to a RUC base number
+ */
+export const withCheckDigit = (ruc: RucWithoutDV): RucWithDV =>
+  `${ruc}-${calculateRucCheckDigit(ruc)}` as RucWithDV;
+
+/**
+ * Drop the check digit from a canonical RUC
+ */
+export const stripCheckDigit = (ruc: RucWithDV): RucWithoutDV => ruc.split('-')[0] as RucWithoutDV;
+
+// ============================================================================
+// DOMAIN CHECKS
+// ============================================================================
+
+/**
+ * Validate InvoiceData.receptor_ruc (with or without DV) and return its base number
+ *
+ * @throws {InvoiceCreationError} INVALID_RUC when the RUC is malformed or its DV is wrong
+ */
+export const parseReceptorRuc = (invoice: Pick<InvoiceData, 'receptor_ruc'>): RucWithoutDV => {
+  const parsed = parseRuc(invoice.receptor_ruc);
+  if (!parsed.success) {
+    throw new InvoiceCreationError(`RUC del receptor inválido: ${parsed.error}`, 'INVALID_RUC', {
+      rucReceptor: invoice.receptor_ruc,
+      validationErrors: { receptor_ruc: [parsed.error] },
+    });
+  }
+  return parsed.data.ruc;
+};
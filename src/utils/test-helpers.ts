@@ -81,7 +81,7 @@ export const createMockCredentials = (
  * Factory for creating mock profile data
  */
 export const createMockProfile = (overrides: Partial<ProfileData> = {}): ProfileData => ({
-  ruc_with_dv: '5452-1',
+  ruc_with_dv: '5452-6',
   business_name: 'Teresa De Jesus',
   ruc_status: 'Activo',
   numero_timbrado: '12561412',
@@ -102,6 +102,7 @@ export const createMockInvoiceItem = (overrides: Partial<InvoiceItem> = {}): Inv
   precio_unitario: 500000,
   monto_iva: 0,
   monto_total: 500000,
+  tasa_iva: 'EXENTO',
   ...overrides,
 });
 
@@ -176,6 +177,7 @@ export const createMockEkuatiaConfig = (
  */
 export const createMockAxios = () => {
   const mock = {
+    request: vi.fn(),
     get: vi.fn(),
     post: vi.fn(),
     put: vi.fn(),
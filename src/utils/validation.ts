@@ -0,0 +1,73 @@
+/**
+ * PURPOSE: Bridge between zod schemas and the ValidationResult contract
+ *
+ * REASONING:
+ * - Agents already report field problems as ValidationResult; zod issues are reshaped into it
+ * - Issues are keyed by dotted path ("profile.ruc_status") so nested fields stay traceable
+ * - A Result wrapper lets boundary code decide which error class to raise
+ *
+ * AGENT DECISION PROCESS:
+ * - Requirements analyzed from ValidationResult in types/common and the zod schemas in types/ekuatia
+ * - Considered: throwing ZodError upward vs converting at the boundary
+ * - Selected conversion so no caller needs to know zod is involved
+ * - Implementation constraints: Root-level issues are reported under the "root" key
+ */
+
+import type { z } from 'zod';
+import type { Result, ValidationResult } from '../types/common';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Key used for issues that are not attached to a specific field */
+const ROOT_FIELD = 'root';
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+/**
+ * Convert a ZodError into ValidationResult, grouping messages and issue codes by field path
+ */
+export const toValidationResult = (error: z.ZodError): ValidationResult => {
+  const errors: Record<string, string[]> = {};
+  const errorCodes: Record<string, string[]> = {};
+
+  for (const issue of error.issues) {
+    const field = issue.path.length > 0 ? issue.path.join('.') : ROOT_FIELD;
+    (errors[field] ??= []).push(issue.message);
+    (errorCodes[field] ??= []).push(issue.code);
+  }
+
+  return { isValid: false, errors, errorCodes };
+};
+
+/**
+ * Validate a value and report the outcome as ValidationResult
+ */
+export const validateWithSchema = (schema: z.ZodTypeAny, value: unknown): ValidationResult => {
+  const result = schema.safeParse(value);
+  return result.success ? { isValid: true, errors: {} } : toValidationResult(result.error);
+};
+
+/**
+ * Parse a value, returning the typed data or the ValidationResult describing what failed
+ */
+export const parseWithSchema = <T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  value: unknown
+): Result<T, ValidationResult> => {
+  const result = schema.safeParse(value);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, error: toValidationResult(result.error) };
+};
+
+/**
+ * One-line summary of a failed ValidationResult for error messages
+ */
+export const formatValidationErrors = (result: ValidationResult): string =>
+  Object.entries(result.errors)
+    .map(([field, messages]) => `${field}: ${messages.join(', ')}`)
+    .join('; ');
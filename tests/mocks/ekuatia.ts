@@ -40,7 +40,7 @@ export const MOCK_CREDENTIALS: LoginCredentials = {
 
 /** Valid test profile from Marangatu system */
 export const MOCK_PROFILE: ProfileData = {
-  ruc_with_dv: '5452-1',
+  ruc_with_dv: '5452-6',
   business_name: 'Teresa De Jesus',
   ruc_status: 'Activo',
   numero_timbrado: '12561412',
@@ -60,7 +60,7 @@ export const MOCK_SESSION_TOKEN = 'test_session_token_abcdef123456';
 export const MOCK_LOGIN_SUCCESS = {
   session_token: MOCK_SESSION_TOKEN,
   profile: {
-    ruc_with_dv: '5452-1',
+    ruc_with_dv: '5452-6',
     business_name: 'Teresa De Jesus',
     ruc_status: 'Activo',
   },